@@ -1,11 +1,26 @@
 import React, { useEffect, useState } from 'react';
-import { Layout, Menu, Row, Col, Alert, message, Button, Space } from 'antd';
+import { Layout, Menu, Row, Col, Alert, message, Button, Space, Badge } from 'antd';
+import { BellOutlined, ShoppingCartOutlined } from '@ant-design/icons';
 import { Route, Routes, Link, useLocation } from 'react-router-dom';
 import '@aptos-labs/wallet-adapter-ant-design/dist/index.css';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
 import Dashboard from './components/Dashboard';
 import NFTDetail from './components/NFTDetail';
+import CollectionDetail from './components/CollectionDetail';
+import MarketplaceDetail from './components/MarketplaceDetail';
+import MyOffers from './components/MyOffers';
+import MyNFTs from './components/MyNFTs';
+import Portfolio from './components/Portfolio';
+import Watchlist from './components/Watchlist';
+import Deals from './components/Deals';
 import CustomWalletConnector from './components/CustomWalletConnector';
+import CartDrawer from './components/CartDrawer';
+import NotificationsDrawer from './components/NotificationsDrawer';
+import NetworkSelector, { useActiveNetwork } from './components/NetworkSelector';
+import { switchNetwork } from './lib/ApiConfig';
+import { NETWORK_PROFILES, isAppNetwork } from './lib/NetworkProfiles';
+import { useCart } from './components/CartProvider';
+import { useAlerts } from './components/AlertsProvider';
 
 const { Header, Content, Footer } = Layout;
 
@@ -18,6 +33,10 @@ const App: React.FC = () => {
     wallet,
     wallets = []
   } = useWallet();
+  const { items: cartItems, openCart } = useCart();
+  const { unreadCount, openDrawer: openNotifications } = useAlerts();
+  const activeNetwork = useActiveNetwork();
+  const walletNetwork = network?.name?.toLowerCase();
   
   const [connecting, setConnecting] = useState(false);
   const [disconnecting, setDisconnecting] = useState(false);
@@ -55,8 +74,20 @@ const App: React.FC = () => {
     }
   }, [connecting, disconnecting, connected, account, wallet, wallets]);
 
+  // Follow the wallet whenever it connects or changes network
+  useEffect(() => {
+    if (connected && isAppNetwork(walletNetwork)) {
+      switchNetwork(walletNetwork);
+    }
+  }, [connected, walletNetwork]);
+
   const menuItems = [
     { key: '/', label: <Link to="/">Dashboard</Link> },
+    { key: '/portfolio', label: <Link to="/portfolio">Portfolio</Link> },
+    { key: '/my-nfts', label: <Link to="/my-nfts">My NFTs</Link> },
+    { key: '/offers', label: <Link to="/offers">My Offers</Link> },
+    { key: '/watchlist', label: <Link to="/watchlist">Watchlist</Link> },
+    { key: '/deals', label: <Link to="/deals">Deals</Link> },
   ];
 
   // Install wallet guide component
@@ -96,10 +127,19 @@ const App: React.FC = () => {
             style={{ flex: 1, minWidth: 200 }}
           />
         </div>
-        <div>
+        <Space>
+          <NetworkSelector />
+          <Badge count={unreadCount} size="small">
+            <Button type="text" icon={<BellOutlined />} onClick={openNotifications} style={{ color: 'white' }} />
+          </Badge>
+          <Badge count={cartItems.length} size="small">
+            <Button type="text" icon={<ShoppingCartOutlined />} onClick={openCart} style={{ color: 'white' }} />
+          </Badge>
           <CustomWalletConnector />
-        </div>
+        </Space>
       </Header>
+      <CartDrawer />
+      <NotificationsDrawer />
       <Content style={{ padding: '0 50px' }}>
         {/* Wallet status messages */}
         {walletStatus && (
@@ -118,12 +158,12 @@ const App: React.FC = () => {
         {showInstallGuide && <WalletInstallGuide />}
 
         {/* Wrong network warning */}
-        {connected && network?.name?.toLowerCase() !== 'mainnet' && (
+        {connected && walletNetwork !== activeNetwork && (
           <Row style={{ margin: '16px 0' }}>
             <Col span={24}>
               <Alert 
                 message="Network mismatch" 
-                description={`Your wallet is connected to ${network?.name || 'unknown'} network. Please connect to Mainnet.`}
+                description={`Your wallet is connected to ${network?.name || 'unknown'} network, but the aggregator is showing ${NETWORK_PROFILES[activeNetwork].label}. Transactions will be sent on your wallet's network.`}
                 type="warning" 
                 showIcon 
               />
@@ -133,9 +173,17 @@ const App: React.FC = () => {
 
         {/* Main content */}
         <div className="site-layout-content" style={{ margin: '24px 0' }}>
-          <Routes>
+          {/* Remount pages on network switch so they reload from the new endpoints */}
+          <Routes key={activeNetwork}>
             <Route path="/" element={<Dashboard />} />
             <Route path="/nft/:id" element={<NFTDetail />} />
+            <Route path="/collection/:id" element={<CollectionDetail />} />
+            <Route path="/marketplace/:id" element={<MarketplaceDetail />} />
+            <Route path="/portfolio" element={<Portfolio />} />
+            <Route path="/my-nfts" element={<MyNFTs />} />
+            <Route path="/offers" element={<MyOffers />} />
+            <Route path="/watchlist" element={<Watchlist />} />
+            <Route path="/deals" element={<Deals />} />
           </Routes>
         </div>
       </Content>
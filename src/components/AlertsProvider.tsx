@@ -0,0 +1,184 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { notification } from 'antd';
+import { useNavigate } from 'react-router-dom';
+import { AlertNotification, AlertRule } from '../types';
+import { fetchAlertInputs } from '../lib/api';
+import { evaluateAlertRules } from '../lib/AlertRules';
+import {
+  loadAlertMonitorState,
+  loadAlertNotifications,
+  loadAlertRules,
+  saveAlertMonitorState,
+  saveAlertNotifications,
+  saveAlertRules,
+} from '../lib/AlertStore';
+import { getActiveNetwork, subscribeToNetwork } from '../lib/NetworkProfiles';
+
+// How often the enabled rules are evaluated
+const ALERT_POLL_INTERVAL = 60 * 1000;
+
+type BrowserPermission = NotificationPermission | 'unsupported';
+
+interface AlertsContextState {
+  rules: AlertRule[];
+  notifications: AlertNotification[];
+  unreadCount: number;
+  isDrawerOpen: boolean;
+  openDrawer: () => void;
+  closeDrawer: () => void;
+  addRule: (rule: Omit<AlertRule, 'id' | 'enabled' | 'created_at'>) => void;
+  updateRule: (id: string, update: Partial<Pick<AlertRule, 'enabled' | 'threshold'>>) => void;
+  removeRule: (id: string) => void;
+  markAllRead: () => void;
+  clearNotifications: () => void;
+  browserPermission: BrowserPermission;
+  requestBrowserPermission: () => void;
+}
+
+const AlertsContext = createContext<AlertsContextState | null>(null);
+
+const currentPermission = (): BrowserPermission =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+/**
+ * Holds the alert rules and their notification history, and polls the
+ * market while any rule is enabled
+ * Fired alerts show as in-app notifications and, once the user allows it,
+ * as browser notifications.
+ */
+export const AlertsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const [network, setNetwork] = useState(getActiveNetwork());
+  const [rules, setRules] = useState<AlertRule[]>(() => loadAlertRules(network));
+  const [notifications, setNotifications] = useState<AlertNotification[]>(() => loadAlertNotifications(network));
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [browserPermission, setBrowserPermission] = useState<BrowserPermission>(currentPermission);
+  // The poller reads the latest rules without restarting its timer
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+
+  // Rules point at one network's collections, so each network keeps its own
+  useEffect(() => subscribeToNetwork((next) => {
+    setNetwork(next);
+    setRules(loadAlertRules(next));
+    setNotifications(loadAlertNotifications(next));
+  }), []);
+
+  const updateRules = (update: (current: AlertRule[]) => AlertRule[]) => {
+    setRules((current) => {
+      const next = update(current);
+      saveAlertRules(network, next);
+      return next;
+    });
+  };
+
+  const updateNotifications = (update: (current: AlertNotification[]) => AlertNotification[]) => {
+    setNotifications((current) => {
+      const next = update(current);
+      saveAlertNotifications(network, next);
+      return next;
+    });
+  };
+
+  const showNotification = (fired: AlertNotification) => {
+    notification.info({ message: fired.title, description: fired.message, placement: 'bottomRight' });
+
+    if (currentPermission() === 'granted') {
+      try {
+        const browserNotification = new Notification(fired.title, { body: fired.message, tag: fired.id });
+        browserNotification.onclick = () => {
+          window.focus();
+          if (fired.link) navigate(fired.link);
+        };
+      } catch (error) {
+        // Some browsers only allow notifications from a service worker
+        console.error('Failed to show a browser notification:', error);
+      }
+    }
+  };
+
+  const hasEnabledRules = rules.some((rule) => rule.enabled);
+
+  useEffect(() => {
+    if (!hasEnabledRules) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const polledRules = rulesRef.current;
+        const inputs = await fetchAlertInputs(polledRules);
+        if (cancelled) return;
+
+        const result = evaluateAlertRules(polledRules, inputs, loadAlertMonitorState(network));
+        saveAlertMonitorState(network, result.state);
+        if (result.notifications.length === 0) return;
+
+        updateNotifications((current) => [...[...result.notifications].reverse(), ...current]);
+        result.notifications.forEach(showNotification);
+      } catch (error) {
+        console.error('Failed to evaluate alert rules:', error);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, ALERT_POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [network, hasEnabledRules]);
+
+  const addRule = (rule: Omit<AlertRule, 'id' | 'enabled' | 'created_at'>) => {
+    const createdAt = Date.now();
+    updateRules((current) => [
+      ...current,
+      { ...rule, id: `${rule.kind}-${createdAt}-${Math.random().toString(36).slice(2, 8)}`, enabled: true, created_at: createdAt },
+    ]);
+  };
+
+  const updateRule = (id: string, update: Partial<Pick<AlertRule, 'enabled' | 'threshold'>>) => {
+    updateRules((current) => current.map((rule) => (rule.id === id ? { ...rule, ...update } : rule)));
+  };
+
+  const removeRule = (id: string) => {
+    updateRules((current) => current.filter((rule) => rule.id !== id));
+  };
+
+  const requestBrowserPermission = () => {
+    if (typeof Notification === 'undefined') return;
+    Notification.requestPermission().then(setBrowserPermission);
+  };
+
+  return (
+    <AlertsContext.Provider
+      value={{
+        rules,
+        notifications,
+        unreadCount: notifications.filter((item) => !item.read).length,
+        isDrawerOpen,
+        openDrawer: () => setIsDrawerOpen(true),
+        closeDrawer: () => setIsDrawerOpen(false),
+        addRule,
+        updateRule,
+        removeRule,
+        markAllRead: () => updateNotifications((current) => current.map((item) => ({ ...item, read: true }))),
+        clearNotifications: () => updateNotifications(() => []),
+        browserPermission,
+        requestBrowserPermission,
+      }}
+    >
+      {children}
+    </AlertsContext.Provider>
+  );
+};
+
+/**
+ * Access alert rules and notifications from any component under AlertsProvider
+ */
+export function useAlerts(): AlertsContextState {
+  const context = useContext(AlertsContext);
+  if (!context) {
+    throw new Error('useAlerts must be used within an AlertsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Button, Modal, Descriptions, Steps, Alert, Spin, Typography, Tooltip, message } from 'antd';
+import { ShoppingCartOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { purchaseService } from '../lib/ApiConfig';
+import { getExplorerTransactionUrl } from '../lib/NetworkProfiles';
+import { NFT, PurchasableListing, PurchaseSimulation, PurchaseStage, PurchaseResult } from '../types';
+
+const { Text, Link: TextLink } = Typography;
+
+interface BuyNowButtonProps {
+  nft: NFT;
+  onPurchased?: (result: PurchaseResult) => void;
+}
+
+// Order of the progress steps shown while the purchase is in flight
+const PURCHASE_STEPS: PurchaseStage[] = ['loading', 'simulating', 'signing', 'confirming', 'confirmed'];
+
+const STAGE_LABELS: Record<PurchaseStage, string> = {
+  loading: 'Check listing',
+  simulating: 'Simulate',
+  signing: 'Sign in wallet',
+  confirming: 'Confirm on-chain',
+  confirmed: 'Done',
+  failed: 'Failed',
+};
+
+const BuyNowButton: React.FC<BuyNowButtonProps> = ({ nft, onPurchased }) => {
+  const { account, connected, signAndSubmitTransaction } = useWallet();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [listing, setListing] = useState<PurchasableListing | null>(null);
+  const [simulation, setSimulation] = useState<PurchaseSimulation | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [stage, setStage] = useState<PurchaseStage | null>(null);
+  const [lastStage, setLastStage] = useState<PurchaseStage>('loading');
+  const [result, setResult] = useState<PurchaseResult | null>(null);
+
+  if (!nft.listing_id || !nft.price) {
+    return null;
+  }
+
+  const isOwnListing = !!account && account.address.toLowerCase() === nft.owner_address.toLowerCase();
+  const inProgress = stage !== null && stage !== 'confirmed' && stage !== 'failed';
+
+  // Load the live listing and a simulation so the buyer sees what they will sign
+  const loadPreview = async () => {
+    if (!account || !nft.listing_id) return;
+
+    setPreviewLoading(true);
+    setPreviewError(null);
+    setListing(null);
+    setSimulation(null);
+
+    try {
+      const liveListing = await purchaseService.fetchPurchasableListing(nft.listing_id);
+      if (!liveListing) {
+        setPreviewError('This listing is no longer active.');
+        return;
+      }
+      setListing(liveListing);
+
+      const simulationResult = await purchaseService.simulatePurchase(liveListing, account.address, account.publicKey);
+      setSimulation(simulationResult);
+      if (!simulationResult.success) {
+        setPreviewError(`Simulation failed: ${simulationResult.vm_status}`);
+      }
+    } catch (error) {
+      console.error('Error preparing purchase:', error);
+      setPreviewError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setStage(null);
+    setResult(null);
+    setIsModalOpen(true);
+    loadPreview();
+  };
+
+  const handleClose = () => {
+    if (inProgress) return;
+    setIsModalOpen(false);
+  };
+
+  const handleConfirm = async () => {
+    if (!account || !nft.listing_id || !listing) return;
+
+    setResult(null);
+    const purchaseResult = await purchaseService.purchaseListing({
+      listingId: nft.listing_id,
+      // The price shown in the preview is the most the buyer pays
+      approvedPrice: listing.price,
+      sender: account.address,
+      publicKey: account.publicKey,
+      signAndSubmitTransaction,
+      onStageChange: (nextStage) => {
+        setStage(nextStage);
+        if (nextStage !== 'failed') {
+          setLastStage(nextStage);
+        }
+      },
+    });
+
+    setResult(purchaseResult);
+    if (purchaseResult.success) {
+      message.success(`Purchased ${nft.name}`);
+    } else {
+      message.error(purchaseResult.error || 'Purchase failed');
+    }
+    onPurchased?.(purchaseResult);
+  };
+
+  const currentStep = stage === 'failed'
+    ? PURCHASE_STEPS.indexOf(lastStage)
+    : stage ? PURCHASE_STEPS.indexOf(stage) : -1;
+
+  const button = (
+    <Button
+      type="primary"
+      size="large"
+      icon={<ShoppingCartOutlined />}
+      onClick={handleOpen}
+      disabled={!connected || isOwnListing}
+      block
+    >
+      {`Buy now for ${nft.price.amount} ${nft.price.currency}`}
+    </Button>
+  );
+
+  return (
+    <>
+      {!connected ? (
+        <Tooltip title="Connect your wallet to buy this NFT">{button}</Tooltip>
+      ) : isOwnListing ? (
+        <Tooltip title="This is your own listing">{button}</Tooltip>
+      ) : button}
+
+      <Modal
+        title={`Buy ${nft.name}`}
+        open={isModalOpen}
+        onCancel={handleClose}
+        closable={!inProgress}
+        maskClosable={!inProgress}
+        okText={result?.success ? 'Close' : 'Confirm purchase'}
+        onOk={result?.success ? handleClose : handleConfirm}
+        okButtonProps={{
+          loading: inProgress,
+          disabled: !result?.success && (previewLoading || !listing || !simulation?.success),
+        }}
+        cancelButtonProps={{ disabled: inProgress }}
+      >
+        {previewLoading ? (
+          <div style={{ textAlign: 'center', padding: '24px' }}>
+            <Spin />
+          </div>
+        ) : listing && (
+          <Descriptions column={1} bordered size="small" style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="Marketplace">{nft.marketplace}</Descriptions.Item>
+            <Descriptions.Item label="Seller">{listing.seller}</Descriptions.Item>
+            <Descriptions.Item label="Price">
+              {`${Number(listing.price) / 100000000} APT`}
+            </Descriptions.Item>
+            {simulation && (
+              <Descriptions.Item label="Estimated gas fee">
+                {`${simulation.estimated_fee_apt.toFixed(6)} APT`}
+              </Descriptions.Item>
+            )}
+          </Descriptions>
+        )}
+
+        {previewError && (
+          <Alert type="warning" message={previewError} showIcon style={{ marginBottom: 16 }} />
+        )}
+
+        {stage && (
+          <Steps
+            size="small"
+            current={currentStep}
+            status={stage === 'failed' ? 'error' : stage === 'confirmed' ? 'finish' : 'process'}
+            items={PURCHASE_STEPS.map((step) => ({ title: STAGE_LABELS[step] }))}
+            style={{ marginBottom: 16 }}
+          />
+        )}
+
+        {result && !result.success && result.error && (
+          <Alert type="error" message={result.error} showIcon style={{ marginBottom: 16 }} />
+        )}
+
+        {result?.transaction_hash && (
+          <Text>
+            Transaction:{' '}
+            <TextLink
+              href={getExplorerTransactionUrl(result.transaction_hash)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {`${result.transaction_hash.slice(0, 10)}...${result.transaction_hash.slice(-6)}`}
+            </TextLink>
+          </Text>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default BuyNowButton;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, List, Avatar, Button, Typography, Descriptions, Tag, Space, Empty, Alert, message } from 'antd';
+import { DeleteOutlined, ShoppingCartOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { purchaseService, fetchRoyalties } from '../lib/ApiConfig';
+import { calculateCartSummary } from '../lib/MarketplaceFees';
+import { aptToOctas } from '../lib/QueryBuilder';
+import PriceBreakdownTag from './PriceBreakdownTag';
+import { CartItem, CartItemStatus } from '../types';
+import { useCart } from './CartProvider';
+
+const { Text } = Typography;
+
+const STATUS_COLORS: Record<CartItemStatus, string> = {
+  pending: 'default',
+  purchasing: 'processing',
+  purchased: 'success',
+  failed: 'error',
+};
+
+// Format an APT amount for the summary table
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+const CartDrawer: React.FC = () => {
+  const { account, connected, signAndSubmitTransaction } = useWallet();
+  const { items, isCartOpen, closeCart, removeFromCart, clearCart, updateItem } = useCart();
+  const [royalties, setRoyalties] = useState<Record<string, number>>({});
+  const [checkingOut, setCheckingOut] = useState(false);
+
+  // Look up creator royalties whenever the set of tokens changes
+  const tokenIdsKey = items.map((item) => item.nft.id).join(',');
+  useEffect(() => {
+    if (!isCartOpen || items.length === 0) return;
+
+    let cancelled = false;
+    fetchRoyalties(items.map((item) => ({ id: item.nft.id, collection_id: item.nft.collection_id }))).then((result) => {
+      if (!cancelled) setRoyalties(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenIdsKey, isCartOpen]);
+
+  const pendingItems = items.filter((item) => item.status === 'pending' || item.status === 'failed');
+  const summary = calculateCartSummary(pendingItems, royalties);
+
+  const handleCheckout = async () => {
+    if (!account) return;
+
+    setCheckingOut(true);
+    const results = await purchaseService.purchaseListings({
+      // Each item is bought at most at the price it was added to the cart with
+      listings: pendingItems.map((item) => ({
+        listingId: item.nft.listing_id as string,
+        approvedPrice: aptToOctas(item.nft.price?.amount ?? 0),
+      })),
+      sender: account.address,
+      publicKey: account.publicKey,
+      signAndSubmitTransaction,
+      onItemStart: (listingId) => updateItem(listingId, { status: 'purchasing', error: undefined }),
+      onItemResult: (listingId, result) => updateItem(listingId, {
+        status: result.success ? 'purchased' : 'failed',
+        transaction_hash: result.transaction_hash,
+        error: result.error,
+      }),
+    });
+    setCheckingOut(false);
+
+    const outcomes = Object.values(results);
+    const purchased = outcomes.filter((result) => result.success).length;
+    if (purchased === outcomes.length) {
+      message.success(`Purchased ${purchased} item${purchased === 1 ? '' : 's'}`);
+    } else {
+      message.warning(`Purchased ${purchased} of ${outcomes.length} items`);
+    }
+  };
+
+  // Remove purchased items once the user has seen the results
+  const handleClearPurchased = () => {
+    items
+      .filter((item) => item.status === 'purchased')
+      .forEach((item) => removeFromCart(item.nft.listing_id as string));
+  };
+
+  const renderItem = (item: CartItem) => (
+    <List.Item
+      actions={[
+        <Button
+          key="remove"
+          type="text"
+          icon={<DeleteOutlined />}
+          disabled={checkingOut}
+          onClick={() => removeFromCart(item.nft.listing_id as string)}
+        />,
+      ]}
+    >
+      <List.Item.Meta
+        avatar={<Avatar shape="square" size={48} src={item.nft.image_url} />}
+        title={
+          <Link to={`/nft/${encodeURIComponent(item.nft.id)}`} onClick={closeCart}>
+            {item.nft.name}
+          </Link>
+        }
+        description={
+          <Space direction="vertical" size={0}>
+            <Text type="secondary">{`${item.nft.collection_name} · ${item.nft.marketplace}`}</Text>
+            <Space>
+              <PriceBreakdownTag nft={{ ...item.nft, royalty_bps: royalties[item.nft.id] ?? item.nft.royalty_bps }} />
+              <Tag color={STATUS_COLORS[item.status]}>{item.status}</Tag>
+            </Space>
+            {item.error && <Text type="danger">{item.error}</Text>}
+          </Space>
+        }
+      />
+    </List.Item>
+  );
+
+  return (
+    <Drawer
+      title="Cart"
+      placement="right"
+      width={420}
+      open={isCartOpen}
+      onClose={closeCart}
+      footer={
+        <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Space>
+            <Button onClick={clearCart} disabled={checkingOut || items.length === 0}>
+              Clear
+            </Button>
+            <Button
+              onClick={handleClearPurchased}
+              disabled={checkingOut || !items.some((item) => item.status === 'purchased')}
+            >
+              Remove purchased
+            </Button>
+          </Space>
+          <Button
+            type="primary"
+            icon={<ShoppingCartOutlined />}
+            onClick={handleCheckout}
+            loading={checkingOut}
+            disabled={!connected || pendingItems.length === 0}
+          >
+            {`Checkout (${pendingItems.length})`}
+          </Button>
+        </Space>
+      }
+    >
+      {items.length === 0 ? (
+        <Empty description="Your cart is empty" />
+      ) : (
+        <>
+          {!connected && (
+            <Alert type="info" message="Connect your wallet to check out" showIcon style={{ marginBottom: 16 }} />
+          )}
+          <List dataSource={items} renderItem={renderItem} rowKey={(item) => item.nft.listing_id as string} />
+          <Descriptions column={1} bordered size="small" style={{ marginTop: 16 }}>
+            <Descriptions.Item label="Subtotal">{formatApt(summary.subtotal)}</Descriptions.Item>
+            <Descriptions.Item label="Marketplace fees (buyer)">{formatApt(summary.marketplace_fees)}</Descriptions.Item>
+            <Descriptions.Item label="Marketplace fees (in price)">{formatApt(summary.seller_fees)}</Descriptions.Item>
+            <Descriptions.Item label="Creator royalties (in price)">{formatApt(summary.royalties)}</Descriptions.Item>
+            <Descriptions.Item label="Total">
+              <Text strong>{formatApt(summary.total)}</Text>
+            </Descriptions.Item>
+          </Descriptions>
+          <Text type="secondary" style={{ display: 'block', marginTop: 8 }}>
+            Each listing is bought in its own wallet transaction. Gas is not included.
+          </Text>
+        </>
+      )}
+    </Drawer>
+  );
+};
+
+export default CartDrawer;
@@ -0,0 +1,98 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { CartItem, NFT } from '../types';
+import { subscribeToNetwork } from '../lib/NetworkProfiles';
+
+interface CartContextState {
+  items: CartItem[];
+  isCartOpen: boolean;
+  openCart: () => void;
+  closeCart: () => void;
+  addToCart: (nft: NFT) => boolean;
+  addManyToCart: (nfts: NFT[]) => number;
+  removeFromCart: (listingId: string) => void;
+  clearCart: () => void;
+  isInCart: (listingId?: string) => boolean;
+  updateItem: (listingId: string, update: Partial<Omit<CartItem, 'nft'>>) => void;
+}
+
+const CartContext = createContext<CartContextState | null>(null);
+
+/**
+ * Holds the listings the user wants to buy across marketplaces
+ * A token can only be bought once, so the cart holds at most one listing per
+ * token even when the token is listed on several marketplaces.
+ */
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+
+  // Listings belong to a single network, so start over when it changes
+  useEffect(() => subscribeToNetwork(() => setItems([])), []);
+
+  const isInCart = (listingId?: string) => !!listingId && items.some((item) => item.nft.listing_id === listingId);
+
+  // Only listings with a price and listing ID can be checked out
+  const canAdd = (nft: NFT) => !!nft.listing_id && !!nft.price;
+
+  const addToCart = (nft: NFT): boolean => {
+    if (!canAdd(nft) || items.some((item) => item.nft.id === nft.id)) return false;
+    setItems((current) => [...current, { nft, status: 'pending' }]);
+    return true;
+  };
+
+  const addManyToCart = (nfts: NFT[]): number => {
+    const existing = new Set(items.map((item) => item.nft.id));
+    const additions = nfts.filter((nft) => {
+      if (!canAdd(nft) || existing.has(nft.id)) return false;
+      existing.add(nft.id);
+      return true;
+    });
+
+    if (additions.length > 0) {
+      setItems((current) => [...current, ...additions.map((nft): CartItem => ({ nft, status: 'pending' }))]);
+    }
+    return additions.length;
+  };
+
+  const removeFromCart = (listingId: string) => {
+    setItems((current) => current.filter((item) => item.nft.listing_id !== listingId));
+  };
+
+  const clearCart = () => setItems([]);
+
+  const updateItem = (listingId: string, update: Partial<Omit<CartItem, 'nft'>>) => {
+    setItems((current) => current.map((item) => (
+      item.nft.listing_id === listingId ? { ...item, ...update } : item
+    )));
+  };
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        isCartOpen,
+        openCart: () => setIsCartOpen(true),
+        closeCart: () => setIsCartOpen(false),
+        addToCart,
+        addManyToCart,
+        removeFromCart,
+        clearCart,
+        isInCart,
+        updateItem,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+/**
+ * Access the shopping cart from any component under CartProvider
+ */
+export function useCart(): CartContextState {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
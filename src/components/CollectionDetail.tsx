@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Row, Col, Card, Typography, Statistic, Table, Spin, Empty, Button, Select, Pagination, Alert, Space } from 'antd';
+import { ArrowLeftOutlined, ShopOutlined, AppstoreOutlined, LineChartOutlined, TagOutlined } from '@ant-design/icons';
+import { fetchCollectionDetails, fetchCollectionSummary, fetchActiveListings } from '../lib/api';
+import { fetchCollectionOffers } from '../lib/ApiConfig';
+import {
+  NFT,
+  ListingsPage,
+  CollectionDetails,
+  CollectionSummary,
+  CollectionBuyerRow,
+  CollectionSellerRow,
+  MarketplaceListingBreakdown,
+  MarketplaceOffer,
+  PurchaseResult,
+} from '../types';
+import NFTCard from './NFTCard';
+import PriceHistoryChart from './PriceHistoryChart';
+import MakeOfferButton from './MakeOfferButton';
+import CreateAlertButton from './CreateAlertButton';
+import OffersTable from './OffersTable';
+
+const { Title, Text, Paragraph } = Typography;
+const { Option } = Select;
+
+// Shorten an address for tables, e.g. 0x1234...abcd
+const shortAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+const CollectionDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [summary, setSummary] = useState<CollectionSummary | null>(null);
+  const [details, setDetails] = useState<CollectionDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [listings, setListings] = useState<NFT[]>([]);
+  const [listingsTotal, setListingsTotal] = useState(0);
+  // Listings read for a client-side sort that did not cover every match
+  const [truncatedWindow, setTruncatedWindow] = useState<number | undefined>(undefined);
+  const [listingsLoading, setListingsLoading] = useState(true);
+  const [listingsPage, setListingsPage] = useState(1);
+  const [sortOrder, setSortOrder] = useState<string>('price_asc');
+  const [offers, setOffers] = useState<MarketplaceOffer[]>([]);
+  const [offersLoading, setOffersLoading] = useState(true);
+  const pageSize = 12;
+
+  // Load collection metadata and analytics
+  useEffect(() => {
+    if (!id) return;
+
+    const loadCollection = async () => {
+      setLoading(true);
+      try {
+        const [summaryData, detailsData] = await Promise.all([
+          fetchCollectionSummary(id),
+          fetchCollectionDetails(id),
+        ]);
+        setSummary(summaryData);
+        setDetails(detailsData);
+      } catch (error) {
+        console.error('Failed to load collection:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCollection();
+  }, [id]);
+
+  // Load the collection's active listings
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    const showListings = (result: ListingsPage) => {
+      if (cancelled) return;
+      setListings(result.nfts);
+      setListingsTotal(result.total);
+      setTruncatedWindow(result.truncated ? result.window_size : undefined);
+    };
+
+    const loadListings = async () => {
+      setListingsLoading(true);
+      try {
+        showListings(await fetchActiveListings({
+          page: listingsPage,
+          pageSize,
+          collectionId: id,
+          sortOrder,
+          withRarity: true,
+          // A stale page is shown at once and replaced when revalidated
+          onRefresh: showListings,
+        }));
+      } catch (error) {
+        console.error('Failed to load collection listings:', error);
+        setListings([]);
+        setListingsTotal(0);
+        setTruncatedWindow(undefined);
+      } finally {
+        setListingsLoading(false);
+      }
+    };
+
+    loadListings();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, listingsPage, sortOrder]);
+
+  // Load the collection-wide bids
+  const loadOffers = async (collectionId: string) => {
+    setOffersLoading(true);
+    setOffers(await fetchCollectionOffers(collectionId));
+    setOffersLoading(false);
+  };
+
+  useEffect(() => {
+    if (!id) return;
+    loadOffers(id);
+  }, [id]);
+
+  // Refresh the bids once one was placed or cancelled
+  const handleOffersChanged = (result: PurchaseResult) => {
+    if (result.success && id) {
+      loadOffers(id);
+    }
+  };
+
+  const handleSortChange = (value: string) => {
+    setSortOrder(value);
+    setListingsPage(1);
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '50px' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div>
+        <Link to="/">
+          <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+            Back to Dashboard
+          </Button>
+        </Link>
+        <Empty description="Collection not found" />
+      </div>
+    );
+  }
+
+  const marketplaceColumns = [
+    {
+      title: 'Marketplace',
+      dataIndex: 'marketplace',
+      key: 'marketplace',
+    },
+    {
+      title: 'Listed',
+      dataIndex: 'listed_count',
+      key: 'listed_count',
+      sorter: (a: MarketplaceListingBreakdown, b: MarketplaceListingBreakdown) => a.listed_count - b.listed_count,
+    },
+    {
+      title: 'Floor',
+      dataIndex: 'floor_price_apt',
+      key: 'floor_price_apt',
+      render: (price: number) => `${price.toFixed(2)} APT`,
+      sorter: (a: MarketplaceListingBreakdown, b: MarketplaceListingBreakdown) => a.floor_price_apt - b.floor_price_apt,
+    },
+  ];
+
+  const buyerColumns = [
+    {
+      title: 'Buyer',
+      dataIndex: 'buyer',
+      key: 'buyer',
+      render: (address: string) => <Text copyable={{ text: address }}>{shortAddress(address)}</Text>,
+    },
+    {
+      title: 'Spent',
+      dataIndex: 'total_spent',
+      key: 'total_spent',
+      render: (amount: number) => `${amount.toFixed(2)} APT`,
+    },
+  ];
+
+  const sellerColumns = [
+    {
+      title: 'Seller',
+      dataIndex: 'seller',
+      key: 'seller',
+      render: (address: string) => <Text copyable={{ text: address }}>{shortAddress(address)}</Text>,
+    },
+    {
+      title: 'Volume',
+      dataIndex: 'total_volume',
+      key: 'total_volume',
+      render: (amount: number) => `${amount.toFixed(2)} APT`,
+    },
+  ];
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Card style={{ marginBottom: 24 }}>
+        <Title level={2} style={{ marginTop: 0 }}>{summary.collection_name}</Title>
+        {summary.creator_address && (
+          <Text type="secondary" copyable={{ text: summary.creator_address }}>
+            {`Creator: ${shortAddress(summary.creator_address)}`}
+          </Text>
+        )}
+        {summary.description && (
+          <Paragraph ellipsis={{ rows: 3, expandable: true }} style={{ marginTop: 16, marginBottom: 0 }}>
+            {summary.description}
+          </Paragraph>
+        )}
+        <Space style={{ marginTop: 16 }}>
+          <MakeOfferButton
+            kind="collection"
+            collectionId={summary.collection_id}
+            name={summary.collection_name}
+            onOfferMade={handleOffersChanged}
+          />
+          <CreateAlertButton collectionId={summary.collection_id} collectionName={summary.collection_name} />
+        </Space>
+      </Card>
+
+      <Row gutter={[24, 24]} className="stat-cards">
+        <Col xs={24} sm={12} md={8} lg={6}>
+          <Card>
+            <Statistic
+              title="Floor Price"
+              value={summary.floor_price_apt !== undefined ? summary.floor_price_apt : '-'}
+              precision={summary.floor_price_apt !== undefined ? 2 : undefined}
+              suffix={summary.floor_price_apt !== undefined ? 'APT' : undefined}
+              prefix={<TagOutlined />}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={8} lg={6}>
+          <Card>
+            <Statistic
+              title="Listed"
+              value={summary.listed_count}
+              suffix={summary.current_supply ? `/ ${summary.current_supply}` : undefined}
+              prefix={<AppstoreOutlined />}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={8} lg={6}>
+          <Card>
+            <Statistic title="Total Sales" value={details?.total_sales || 0} prefix={<ShopOutlined />} />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={8} lg={6}>
+          <Card>
+            <Statistic
+              title="Total Volume"
+              value={details?.total_volume_apt || 0}
+              precision={2}
+              suffix="APT"
+              prefix={<LineChartOutlined />}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <div style={{ marginTop: 24 }}>
+        <PriceHistoryChart collectionId={summary.collection_id} />
+      </div>
+
+      <div style={{ marginTop: 24 }}>
+        <OffersTable title="Collection Offers" offers={offers} loading={offersLoading} onCancelled={handleOffersChanged} />
+      </div>
+
+      <Row gutter={[24, 24]} style={{ marginTop: 24 }}>
+        <Col xs={24} lg={8}>
+          <Card title="Listings by Marketplace">
+            <Table
+              dataSource={summary.marketplaces}
+              columns={marketplaceColumns}
+              rowKey="marketplace"
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        </Col>
+        <Col xs={24} md={12} lg={8}>
+          <Card title="Top Buyers">
+            <Table<CollectionBuyerRow>
+              dataSource={details?.top_buyers || []}
+              columns={buyerColumns}
+              rowKey="buyer"
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        </Col>
+        <Col xs={24} md={12} lg={8}>
+          <Card title="Top Sellers">
+            <Table<CollectionSellerRow>
+              dataSource={details?.top_sellers || []}
+              columns={sellerColumns}
+              rowKey="seller"
+              pagination={false}
+              size="small"
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <Card
+        title="Active Listings"
+        style={{ marginTop: 24 }}
+        extra={
+          <Select value={sortOrder} onChange={handleSortChange} style={{ width: 200 }}>
+            <Option value="price_asc">Price: Low to High</Option>
+            <Option value="price_desc">Price: High to Low</Option>
+            <Option value="all_in_asc">All-in Price: Low to High</Option>
+            <Option value="all_in_desc">All-in Price: High to Low</Option>
+            <Option value="timestamp_desc">Newest First</Option>
+            <Option value="rarity_desc">Rarity: Rarest First</Option>
+            <Option value="rarity_asc">Rarity: Most Common First</Option>
+          </Select>
+        }
+      >
+        {listingsLoading ? (
+          <div style={{ textAlign: 'center', padding: '50px' }}>
+            <Spin size="large" />
+          </div>
+        ) : listings.length > 0 ? (
+          <>
+            {truncatedWindow !== undefined && (
+              <Alert
+                message={`Sorted among the first ${truncatedWindow} matching listings only; later listings are not included.`}
+                type="warning"
+                showIcon
+                style={{ marginBottom: 16 }}
+              />
+            )}
+            <Row gutter={[16, 16]}>
+              {listings.map((nft) => (
+                <Col xs={24} sm={12} md={8} lg={6} key={nft.listing_id || nft.id}>
+                  <NFTCard nft={nft} />
+                </Col>
+              ))}
+            </Row>
+            {listingsTotal > pageSize && (
+              <Row justify="center" style={{ marginTop: 24 }}>
+                <Pagination
+                  current={listingsPage}
+                  total={listingsTotal}
+                  pageSize={pageSize}
+                  onChange={setListingsPage}
+                  showSizeChanger={false}
+                />
+              </Row>
+            )}
+          </>
+        ) : summary.listed_count > 0 ? (
+          <Alert type="warning" showIcon message="Listings for this collection could not be loaded." />
+        ) : (
+          <Empty description="No active listings for this collection" />
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default CollectionDetail;
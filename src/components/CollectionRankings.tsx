@@ -13,7 +13,8 @@ import {
   FileImageOutlined, 
   DatabaseOutlined 
 } from '@ant-design/icons';
-import { AggregatorStats } from '../types';
+import { AggregatorStats, CollectionRankingRow } from '../types';
+import WatchButton from './WatchButton';
 
 const { Title, Text, Paragraph } = Typography;
 const { TabPane } = Tabs;
@@ -27,9 +28,9 @@ interface MarketplaceDataItem {
 
 const CollectionRankings: React.FC = () => {
   // Collections data states
-  const [volumeData, setVolumeData] = useState<any[]>([]);
-  const [salesData, setSalesData] = useState<any[]>([]);
-  const [floorPriceData, setFloorPriceData] = useState<any[]>([]);
+  const [volumeData, setVolumeData] = useState<CollectionRankingRow[]>([]);
+  const [salesData, setSalesData] = useState<CollectionRankingRow[]>([]);
+  const [floorPriceData, setFloorPriceData] = useState<CollectionRankingRow[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [timePeriod, setTimePeriod] = useState<string>('24h');
@@ -184,7 +185,7 @@ const CollectionRankings: React.FC = () => {
       title: 'Collection',
       dataIndex: 'collection_name',
       key: 'collection_name',
-      render: (text: string, record: any) => (
+      render: (text: string, record: CollectionRankingRow) => (
         <div style={{ display: 'flex', alignItems: 'center' }}>
           <Avatar 
             shape="square" 
@@ -192,9 +193,10 @@ const CollectionRankings: React.FC = () => {
             src={`https://placehold.co/40x40/eee/999?text=${encodeURIComponent(text.charAt(0))}`}
             style={{ marginRight: 12 }}
           />
-          <Link to={`/collection/${record.collection_id}`}>
+          <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>
             {text}
           </Link>
+          <WatchButton item={{ kind: 'collection', id: record.collection_id, name: text }} />
         </div>
       ),
     },
@@ -227,7 +229,7 @@ const CollectionRankings: React.FC = () => {
       title: 'Collection',
       dataIndex: 'collection_name',
       key: 'collection_name',
-      render: (text: string, record: any) => (
+      render: (text: string, record: CollectionRankingRow) => (
         <div style={{ display: 'flex', alignItems: 'center' }}>
           <Avatar 
             shape="square" 
@@ -235,9 +237,10 @@ const CollectionRankings: React.FC = () => {
             src={`https://placehold.co/40x40/eee/999?text=${encodeURIComponent(text.charAt(0))}`}
             style={{ marginRight: 12 }}
           />
-          <Link to={`/collection/${record.collection_id}`}>
+          <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>
             {text}
           </Link>
+          <WatchButton item={{ kind: 'collection', id: record.collection_id, name: text }} />
         </div>
       ),
     },
@@ -270,7 +273,7 @@ const CollectionRankings: React.FC = () => {
       title: 'Collection',
       dataIndex: 'collection_name',
       key: 'collection_name',
-      render: (text: string, record: any) => (
+      render: (text: string, record: CollectionRankingRow) => (
         <div style={{ display: 'flex', alignItems: 'center' }}>
           <Avatar 
             shape="square" 
@@ -278,9 +281,10 @@ const CollectionRankings: React.FC = () => {
             src={`https://placehold.co/40x40/eee/999?text=${encodeURIComponent(text.charAt(0))}`}
             style={{ marginRight: 12 }}
           />
-          <Link to={`/collection/${record.collection_id}`}>
+          <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>
             {text}
           </Link>
+          <WatchButton item={{ kind: 'collection', id: record.collection_id, name: text }} />
         </div>
       ),
     },
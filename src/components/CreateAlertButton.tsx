@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button, Modal, Form, Select, InputNumber, Typography, message } from 'antd';
+import { BellOutlined } from '@ant-design/icons';
+import { AlertRuleKind } from '../types';
+import { useAlerts } from './AlertsProvider';
+
+const { Text } = Typography;
+
+interface CreateAlertButtonProps {
+  // Collection or token the alert is about; without one only market-wide alerts can be made
+  collectionId?: string;
+  collectionName?: string;
+  tokenDataId?: string;
+  tokenName?: string;
+  size?: 'small' | 'middle' | 'large';
+}
+
+interface AlertFormValues {
+  kind: AlertRuleKind;
+  threshold?: number;
+}
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  floor_below: 'Floor drops below a price',
+  token_listed: 'Token gets listed',
+  listing_below_floor: 'New listing below the floor',
+  volume_spike: '24h volume spike',
+};
+
+// What the threshold means for each kind; token_listed has none
+const THRESHOLD_FIELDS: Partial<Record<AlertRuleKind, { label: string; suffix: string; initial: number }>> = {
+  floor_below: { label: 'Floor below', suffix: 'APT', initial: 1 },
+  listing_below_floor: { label: 'At least this far below the floor', suffix: '%', initial: 20 },
+  volume_spike: { label: '24h volume up by at least', suffix: '%', initial: 100 },
+};
+
+/**
+ * Button and modal for creating an alert rule on a collection, a token or the whole market
+ */
+const CreateAlertButton: React.FC<CreateAlertButtonProps> = ({
+  collectionId,
+  collectionName,
+  tokenDataId,
+  tokenName,
+  size = 'middle',
+}) => {
+  const { addRule, browserPermission, requestBrowserPermission } = useAlerts();
+  const [form] = Form.useForm<AlertFormValues>();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const kind = Form.useWatch('kind', form);
+
+  const kinds: AlertRuleKind[] = tokenDataId
+    ? ['token_listed']
+    : collectionId
+      ? ['floor_below', 'listing_below_floor', 'volume_spike']
+      : ['volume_spike'];
+  const thresholdField = kind ? THRESHOLD_FIELDS[kind] : undefined;
+
+  const handleKindChange = (next: AlertRuleKind) => {
+    form.setFieldsValue({ threshold: THRESHOLD_FIELDS[next]?.initial });
+  };
+
+  const handleCreate = async () => {
+    const values = await form.validateFields();
+    addRule({
+      kind: values.kind,
+      threshold: THRESHOLD_FIELDS[values.kind] ? values.threshold : undefined,
+      collection_id: collectionId,
+      collection_name: collectionName,
+      token_data_id: tokenDataId,
+      token_name: tokenName,
+    });
+
+    // Ask for browser notifications the first time an alert is made
+    if (browserPermission === 'default') {
+      requestBrowserPermission();
+    }
+
+    message.success('Alert created');
+    setIsModalOpen(false);
+  };
+
+  const subject = tokenName || collectionName;
+
+  return (
+    <>
+      <Button icon={<BellOutlined />} size={size} onClick={() => setIsModalOpen(true)}>
+        Create alert
+      </Button>
+
+      <Modal
+        title={subject ? `Alert for ${subject}` : 'Market alert'}
+        open={isModalOpen}
+        onOk={handleCreate}
+        okText="Create alert"
+        onCancel={() => setIsModalOpen(false)}
+        destroyOnClose
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          preserve={false}
+          initialValues={{ kind: kinds[0], threshold: THRESHOLD_FIELDS[kinds[0]]?.initial }}
+        >
+          <Form.Item name="kind" label="Notify me when">
+            <Select
+              options={kinds.map((value) => ({ label: KIND_LABELS[value], value }))}
+              onChange={handleKindChange}
+            />
+          </Form.Item>
+
+          {thresholdField && (
+            <Form.Item
+              name="threshold"
+              label={thresholdField.label}
+              rules={[{ required: true, message: 'Enter a threshold' }]}
+            >
+              <InputNumber
+                min={0}
+                step={thresholdField.suffix === 'APT' ? 0.1 : 5}
+                addonAfter={thresholdField.suffix}
+                style={{ width: '100%' }}
+              />
+            </Form.Item>
+          )}
+
+          {!collectionId && !tokenDataId && (
+            <Text type="secondary">Checks every collection in the 24h volume ranking.</Text>
+          )}
+        </Form>
+      </Modal>
+    </>
+  );
+};
+
+export default CreateAlertButton;
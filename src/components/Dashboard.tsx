@@ -1,13 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { Row, Col, Card, Select, Input, Typography, Spin, Statistic, Empty, Pagination, Alert, Tabs, Switch, Button } from 'antd';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Row, Col, Card, Select, Input, InputNumber, Typography, Spin, Statistic, Empty, Alert, Tabs, Switch, Button, Space, Tooltip, message } from 'antd';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
 import { fetchActiveListings, invalidateListingsCache } from '../lib/api';
-import { fetchMarketplaceConfigs, fetchAggregatorStats } from '../lib/api';
-import { NFT, MarketplaceConfig, AggregatorStats } from '../types';
+import { fetchMarketplaceConfigs, fetchAggregatorStats, getBaseMarketplaceName } from '../lib/api';
+import { NFT, MarketplaceConfig, AggregatorStats, TraitSelection, ListingsDelta, ListingsPage } from '../types';
+import { parseTraitSelection, serializeTraitSelection } from '../lib/Traits';
+import { fetchAptUsdPrice, usdToApt } from '../lib/PriceFeed';
+import { nftService, findCollectionsByName } from '../lib/ApiConfig';
+import { AdaptivePoller } from '../lib/AdaptivePoller';
 import NFTCard from './NFTCard';
-import { ShopOutlined, AppstoreOutlined, PieChartOutlined, InfoCircleOutlined, ReloadOutlined, TrophyOutlined } from '@ant-design/icons';
-import { useNavigate, useLocation } from 'react-router-dom';
+import VirtualListingsGrid from './VirtualListingsGrid';
+import TraitFilterPanel from './TraitFilterPanel';
+import { ShopOutlined, AppstoreOutlined, PieChartOutlined, InfoCircleOutlined, ReloadOutlined, TrophyOutlined, ThunderboltOutlined, ArrowRightOutlined, DollarOutlined } from '@ant-design/icons';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import CollectionRankings from './CollectionRankings';
+import RecentSales from './RecentSales';
+import { useCart } from './CartProvider';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
@@ -20,6 +28,15 @@ function useQueryParams() {
   return new URLSearchParams(location.search);
 }
 
+type PriceCurrency = 'APT' | 'USD';
+
+// Helper to read a non-negative price from a query parameter
+function parsePriceParam(value: string | null): number | null {
+  if (value === null || value === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
 // Helper to build a new URL with updated query parameters
 function buildUrlWithParams(navigate: any, params: Record<string, string | null>) {
   const searchParams = new URLSearchParams(window.location.search);
@@ -47,10 +64,15 @@ const Dashboard: React.FC = () => {
   // Get initial values from URL query parameters
   const initialMarketplace = queryParams.get('marketplace') || '';
   const initialCollection = queryParams.get('collection') || '';
-  const initialPage = parseInt(queryParams.get('page') || '1', 10);
   const initialTab = queryParams.get('tab') || 'listings';
   const initialSort = queryParams.get('sort') || 'timestamp_desc';
   const initialHideIncomplete = queryParams.get('hideIncomplete') === 'true';
+  const initialCollapseDuplicates = queryParams.get('bestPrice') === 'true';
+  const initialTraits = parseTraitSelection(queryParams.get('traits'));
+  const initialMinPrice = parsePriceParam(queryParams.get('minPrice'));
+  const initialMaxPrice = parsePriceParam(queryParams.get('maxPrice'));
+  const initialCurrency: PriceCurrency = queryParams.get('currency') === 'USD' ? 'USD' : 'APT';
+  const initialLive = queryParams.get('live') === 'true';
   
   const [listings, setListings] = useState<NFT[]>([]);
   const [marketplaces, setMarketplaces] = useState<MarketplaceConfig[]>([]);
@@ -58,23 +80,59 @@ const Dashboard: React.FC = () => {
   const [listingsLoading, setListingsLoading] = useState(true);
   const [selectedMarketplace, setSelectedMarketplace] = useState<string>(initialMarketplace);
   const [searchCollection, setSearchCollection] = useState<string>(initialCollection);
-  const [listingsPage, setListingsPage] = useState(initialPage);
+  const [selectedTraits, setSelectedTraits] = useState<TraitSelection>(initialTraits);
   const [sortOrder, setSortOrder] = useState<string>(initialSort);
   const [listingsTotal, setListingsTotal] = useState(0);
+  // Cursor of the listings after the loaded ones, undefined once all are loaded
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [activeTab, setActiveTab] = useState<string>(initialTab);
   const [listingsError, setListingsError] = useState<string | null>(null);
+  const [malformedCount, setMalformedCount] = useState(0);
+  // Listings read for a client-side sort or collapse that did not cover every match
+  const [truncatedWindow, setTruncatedWindow] = useState<number | undefined>(undefined);
   const [statsError, setStatsError] = useState<string | null>(null);
   const [statsLoading, setStatsLoading] = useState(true);
   const [hideIncompleteMetadata, setHideIncompleteMetadata] = useState<boolean>(initialHideIncomplete);
-  const pageSize = 8;
+  // Show one card per token with its cheapest listing
+  const [collapseDuplicates, setCollapseDuplicates] = useState<boolean>(initialCollapseDuplicates);
+  // Applied price bounds, in priceCurrency
+  const [minPrice, setMinPrice] = useState<number | null>(initialMinPrice);
+  const [maxPrice, setMaxPrice] = useState<number | null>(initialMaxPrice);
+  // Values being typed, applied on blur or Enter
+  const [minPriceDraft, setMinPriceDraft] = useState<number | null>(initialMinPrice);
+  const [maxPriceDraft, setMaxPriceDraft] = useState<number | null>(initialMaxPrice);
+  const [priceCurrency, setPriceCurrency] = useState<PriceCurrency>(initialCurrency);
+  // undefined while loading, null if the price feed is unavailable
+  const [aptUsdPrice, setAptUsdPrice] = useState<number | null | undefined>(undefined);
+  // Listings loaded per request as the grid scrolls
+  const pageSize = 24;
   const [refreshing, setRefreshing] = useState(false);
+  const { addManyToCart, openCart } = useCart();
+  const [sweepCount, setSweepCount] = useState<number>(5);
+  const [sweeping, setSweeping] = useState(false);
+  // Live mode polls for new, sold and delisted listings
+  const [liveMode, setLiveMode] = useState<boolean>(initialLive);
+  const [newSinceLooked, setNewSinceLooked] = useState(0);
+  const [newListingIds, setNewListingIds] = useState<Set<string>>(new Set());
+  const listingsRef = useRef<NFT[]>([]);
+  listingsRef.current = listings;
+  // Bumped on every fresh load, so appends from an earlier view are dropped
+  const loadGenerationRef = useRef(0);
 
   // Update URL when filters change
   useEffect(() => {
     const params: Record<string, string | null> = {
       tab: activeTab,
       sort: sortOrder,
-      hideIncomplete: hideIncompleteMetadata ? 'true' : null
+      hideIncomplete: hideIncompleteMetadata ? 'true' : null,
+      bestPrice: collapseDuplicates ? 'true' : null,
+      minPrice: minPrice !== null ? minPrice.toString() : null,
+      maxPrice: maxPrice !== null ? maxPrice.toString() : null,
+      currency: priceCurrency === 'USD' ? 'USD' : null,
+      live: liveMode ? 'true' : null,
+      // Listings scroll instead of paging; drop the param from old links
+      page: null
     };
     
     if (selectedMarketplace) {
@@ -85,36 +143,85 @@ const Dashboard: React.FC = () => {
     
     if (searchCollection) {
       params.collection = searchCollection;
+      params.traits = serializeTraitSelection(selectedTraits);
     } else {
       params.collection = null;
-    }
-    
-    if (activeTab === 'listings') {
-      params.page = listingsPage.toString();
+      params.traits = null;
     }
     
     buildUrlWithParams(navigate, params);
-  }, [selectedMarketplace, searchCollection, listingsPage, activeTab, sortOrder, hideIncompleteMetadata, navigate]);
+  }, [selectedMarketplace, searchCollection, selectedTraits, activeTab, sortOrder, hideIncompleteMetadata, collapseDuplicates, minPrice, maxPrice, priceCurrency, liveMode, navigate]);
 
-  // Load active listings
+  // Load the APT/USD rate when filtering in USD
   useEffect(() => {
+    if (priceCurrency !== 'USD' || aptUsdPrice !== undefined) return;
+    fetchAptUsdPrice().then(setAptUsdPrice);
+  }, [priceCurrency, aptUsdPrice]);
+
+  // Price bounds in APT, as the indexer stores them
+  const toAptBound = (price: number | null): number | undefined => {
+    if (price === null) return undefined;
+    if (priceCurrency === 'APT') return price;
+    return aptUsdPrice ? usdToApt(price, aptUsdPrice) : undefined;
+  };
+  const minPriceApt = toAptBound(minPrice);
+  const maxPriceApt = toAptBound(maxPrice);
+  // USD bounds cannot be applied until the rate is known
+  const waitingForRate = priceCurrency === 'USD' && aptUsdPrice === undefined && (minPrice !== null || maxPrice !== null);
+
+  // Filters of the listings grid, shared by the first load and every later batch
+  const listingsQuery = useMemo(() => ({
+    pageSize,
+    marketplace: selectedMarketplace || undefined,
+    collection: searchCollection || undefined,
+    // Trait filters only apply within a collection
+    traits: searchCollection ? selectedTraits : undefined,
+    minPrice: minPriceApt,
+    maxPrice: maxPriceApt,
+    sortOrder: sortOrder,
+    hideIncompleteMetadata: hideIncompleteMetadata,
+    collapseDuplicates: collapseDuplicates,
+    // Rarity is ranked within a collection, so only compute it when one is searched
+    withRarity: !!searchCollection,
+  }), [selectedMarketplace, searchCollection, selectedTraits, minPriceApt, maxPriceApt, sortOrder, hideIncompleteMetadata, collapseDuplicates]);
+
+  // Load the first batch of active listings
+  useEffect(() => {
+    const generation = ++loadGenerationRef.current;
+    let firstPageCount = 0;
+
+    // A stale first page was shown; swap in the revalidated one, keeping any batches loaded after it
+    const handleRefresh = (refreshed: ListingsPage) => {
+      if (generation !== loadGenerationRef.current) return;
+
+      const fresh = new Set(refreshed.nfts.map((nft) => nft.listing_id || nft.id));
+      setListings((current) => [
+        ...refreshed.nfts,
+        ...current.slice(firstPageCount).filter((nft) => !fresh.has(nft.listing_id || nft.id)),
+      ]);
+      firstPageCount = refreshed.nfts.length;
+      setListingsTotal(refreshed.total);
+      setMalformedCount(refreshed.malformed?.length || 0);
+      setTruncatedWindow(refreshed.truncated ? refreshed.window_size : undefined);
+    };
+
     const loadListings = async () => {
       setListingsLoading(true);
       setListingsError(null);
+      setLoadingMore(false);
       try {
-        const result = await fetchActiveListings({
-          page: listingsPage,
-          pageSize,
-          marketplace: selectedMarketplace || undefined,
-          collection: searchCollection || undefined,
-          sortOrder: sortOrder,
-          hideIncompleteMetadata: hideIncompleteMetadata,
-          skipCache: false
-        });
+        const result = await fetchActiveListings({ ...listingsQuery, page: 1, skipCache: false, onRefresh: handleRefresh });
+        if (generation !== loadGenerationRef.current) return;
+        firstPageCount = result.nfts.length;
         
         // If we get an empty result due to API errors, just show empty UI
         setListings(result.nfts);
         setListingsTotal(result.total);
+        setNextCursor(result.next_cursor);
+        setMalformedCount(result.malformed?.length || 0);
+        setTruncatedWindow(result.truncated ? result.window_size : undefined);
+        setNewSinceLooked(0);
+        setNewListingIds(new Set());
         
         // Only show error if we explicitly have an error message
         if (result.nfts.length === 0 && result.total === 0) {
@@ -125,17 +232,115 @@ const Dashboard: React.FC = () => {
         setListingsError(`Failed to load listings: ${error instanceof Error ? error.message : String(error)}`);
         setListings([]);
         setListingsTotal(0);
+        setNextCursor(undefined);
       } finally {
-        setListingsLoading(false);
-        setRefreshing(false);
+        if (generation === loadGenerationRef.current) {
+          setListingsLoading(false);
+          setRefreshing(false);
+        }
       }
     };
 
     // Only load listings when the listings tab is active or on initial load
-    if (activeTab === 'listings') {
+    if (activeTab === 'listings' && !waitingForRate) {
       loadListings();
     }
-  }, [selectedMarketplace, searchCollection, listingsPage, activeTab, sortOrder, hideIncompleteMetadata, refreshing]);
+  }, [selectedMarketplace, searchCollection, selectedTraits, activeTab, sortOrder, hideIncompleteMetadata, collapseDuplicates, minPriceApt, maxPriceApt, waitingForRate, refreshing]);
+
+  // Append the next batch when the grid scrolls near its end
+  const loadMoreListings = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const generation = loadGenerationRef.current;
+    setLoadingMore(true);
+    try {
+      const result = await fetchActiveListings({ ...listingsQuery, cursor: nextCursor, skipCache: false });
+      if (generation !== loadGenerationRef.current) return;
+
+      // Live mode may already have inserted some of them
+      setListings((current) => {
+        const shown = new Set(current.map((nft) => nft.listing_id || nft.id));
+        return [...current, ...result.nfts.filter((nft) => !shown.has(nft.listing_id || nft.id))];
+      });
+      setNextCursor(result.next_cursor);
+    } catch (error) {
+      console.error('Error loading more listings:', error);
+      message.error('Failed to load more listings');
+    } finally {
+      if (generation === loadGenerationRef.current) setLoadingMore(false);
+    }
+  // Windowed cursors are plain offsets, so a new query can share the old next_cursor
+  }, [listingsQuery, nextCursor, loadingMore]);
+
+  // New listings can only be slotted in at the top when the newest are shown first
+  const canInsertNewListings = sortOrder === 'timestamp_desc';
+
+  // Apply a live poll to the displayed page
+  const applyListingsDelta = (delta: ListingsDelta): boolean => {
+    const displayed = listingsRef.current;
+    const displayedIds = new Set(displayed.map((nft) => nft.listing_id));
+    const removed = new Set(delta.removed_listing_ids);
+    const added = delta.added.filter((nft) => !hideIncompleteMetadata || nft.hasCompleteMetadata);
+    const updates = new Map(added.filter((nft) => displayedIds.has(nft.listing_id)).map((nft) => [nft.listing_id, nft]));
+    const fresh = added.filter((nft) => !displayedIds.has(nft.listing_id));
+    if (removed.size === 0 && added.length === 0) return false;
+
+    // Repriced listings keep the fields only the full load adds, such as rarity
+    const kept = displayed.filter((nft) => !nft.listing_id || !removed.has(nft.listing_id));
+    let next = kept.map((nft) => ({ ...nft, ...updates.get(nft.listing_id) }));
+    if (canInsertNewListings) {
+      const inserted = collapseDuplicates ? fresh.filter((nft) => !next.some((shown) => shown.id === nft.id)) : fresh;
+      next = [...inserted, ...next];
+      setNewListingIds((current) => new Set([...current, ...inserted.map((nft) => nft.listing_id as string)]));
+    }
+
+    setListings(next);
+    setListingsTotal((total) => Math.max(0, total + fresh.length - (displayed.length - kept.length)));
+    setNewSinceLooked((count) => count + fresh.length);
+    return true;
+  };
+
+  // Poll the current view while live mode is on; every reload starts a new baseline
+  useEffect(() => {
+    if (!liveMode || activeTab !== 'listings' || listingsLoading || waitingForRate) return;
+
+    let version: string | undefined;
+    let cancelled = false;
+    const poller = new AdaptivePoller(async () => {
+      const delta = await nftService.pollListingChanges({
+        marketplace: selectedMarketplace || undefined,
+        collection: searchCollection || undefined,
+        traits: searchCollection ? selectedTraits : undefined,
+        minPrice: minPriceApt,
+        maxPrice: maxPriceApt,
+        sinceVersion: version,
+        displayedListingIds: listingsRef.current.map((nft) => nft.listing_id).filter((id): id is string => !!id),
+      });
+      // The view may have changed while the poll was in flight
+      if (cancelled) return false;
+      version = delta.latest_version;
+      return applyListingsDelta(delta);
+    });
+
+    poller.start();
+    return () => {
+      cancelled = true;
+      poller.stop();
+    };
+  }, [liveMode, activeTab, listingsLoading, waitingForRate, selectedMarketplace, searchCollection, selectedTraits, minPriceApt, maxPriceApt, sortOrder, hideIncompleteMetadata, collapseDuplicates]);
+
+  const handleMarkSeen = () => {
+    setNewSinceLooked(0);
+    setNewListingIds(new Set());
+  };
+
+  // Jump to the newest listings, skipping any cached copy of that page
+  const handleShowNewest = () => {
+    invalidateListingsCache();
+    setSortOrder('timestamp_desc');
+    window.scrollTo({ top: 0 });
+    setRefreshing(true);
+  };
 
   // Load marketplace configurations and aggregator stats
   useEffect(() => {
@@ -212,16 +417,22 @@ const Dashboard: React.FC = () => {
     console.log("Selected marketplace value:", value);
     // If the value includes comma-separated values, use as is
     setSelectedMarketplace(value || '');
-    setListingsPage(1);
   };
 
   const handleSearch = (value: string) => {
+    // Traits belong to the previous collection
+    if (value !== searchCollection) {
+      setSelectedTraits({});
+    }
+    // Rarity sorting needs a collection
+    if (!value && sortOrder.startsWith('rarity')) {
+      setSortOrder('timestamp_desc');
+    }
     setSearchCollection(value);
-    setListingsPage(1);
   };
 
-  const handlePageChange = (page: number) => {
-    setListingsPage(page);
+  const handleTraitsChange = (traits: TraitSelection) => {
+    setSelectedTraits(traits);
   };
 
   const handleTabChange = (key: string) => {
@@ -232,32 +443,191 @@ const Dashboard: React.FC = () => {
   const handleSortChange = (value: string) => {
     console.log("Selected sort order:", value);
     setSortOrder(value);
-    setListingsPage(1); // Reset to first page when changing sort order
   };
 
   // Handle toggle for incomplete metadata
   const handleIncompleteMetadataToggle = (checked: boolean) => {
     setHideIncompleteMetadata(checked);
-    setListingsPage(1); // Reset to first page when changing filter
+  };
+
+  // Handle toggle for collapsing duplicate listings of a token
+  const handleCollapseDuplicatesToggle = (checked: boolean) => {
+    setCollapseDuplicates(checked);
+  };
+
+  // Apply the typed price bounds, swapping them if entered the wrong way round
+  const applyPriceRange = () => {
+    let min = minPriceDraft;
+    let max = maxPriceDraft;
+    if (min !== null && max !== null && min > max) {
+      [min, max] = [max, min];
+      setMinPriceDraft(min);
+      setMaxPriceDraft(max);
+    }
+    if (min === minPrice && max === maxPrice) return;
+
+    setMinPrice(min);
+    setMaxPrice(max);
+  };
+
+  const handleCurrencyChange = (value: PriceCurrency) => {
+    setPriceCurrency(value);
   };
 
   // Handle manual refresh
   const handleRefresh = () => {
     if (activeTab === 'listings') {
-      // Invalidate cache for current parameters
-      invalidateListingsCache({
-        page: listingsPage,
-        pageSize,
-        marketplace: selectedMarketplace || undefined,
-        collection: searchCollection || undefined,
-        sortOrder: sortOrder,
-        hideIncompleteMetadata: hideIncompleteMetadata
-      });
+      // Drop every cached page of the current query, whatever its cursor
+      invalidateListingsCache({ params: listingsQuery });
       // Trigger refresh
       setRefreshing(true);
     }
   };
 
+  // Fill the cart with the cheapest listings of the searched collection across all marketplaces
+  const handleSweepFloor = async () => {
+    if (!searchCollection || sweepCount < 1) return;
+
+    setSweeping(true);
+    try {
+      // The search matches names containing the text; a sweep must only buy from one exact collection
+      const matches = await findCollectionsByName(searchCollection, 2);
+      if (matches.length === 0) {
+        message.info(`No collection is named exactly "${searchCollection}"; enter its full name to sweep it`);
+        return;
+      }
+      if (matches.length > 1) {
+        message.warning(`Several collections are named "${searchCollection}"; not sweeping any of them`);
+        return;
+      }
+
+      const result = await fetchActiveListings({
+        page: 1,
+        // Fetch a few extra in case some are our own listings
+        pageSize: sweepCount + 5,
+        collectionId: matches[0].collection_id,
+        traits: selectedTraits,
+        minPrice: minPriceApt,
+        maxPrice: maxPriceApt,
+        sortOrder: 'price_asc',
+        // Keep only the cheapest listing of each token; a token can only be bought once
+        collapseDuplicates: true,
+        skipCache: true
+      });
+
+      const ownAddress = account?.address.toLowerCase();
+      const candidates = result.nfts
+        .filter((nft) => !ownAddress || nft.owner_address.toLowerCase() !== ownAddress)
+        .slice(0, sweepCount);
+
+      if (candidates.length === 0) {
+        message.info(`No listings found for "${searchCollection}"`);
+        return;
+      }
+
+      const added = addManyToCart(candidates);
+      message.success(`Added ${added} listing${added === 1 ? '' : 's'} to cart`);
+      openCart();
+    } catch (error) {
+      console.error('Error sweeping floor:', error);
+      message.error('Failed to load floor listings');
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  // Filters shared by the listings grid and the sales feed
+  const marketplaceFilter = (
+    <Col xs={24} sm={12} md={6} lg={4}>
+      <Select
+        placeholder="Filter by Marketplace"
+        style={{ width: '100%' }}
+        value={selectedMarketplace || undefined}
+        onChange={handleMarketplaceChange}
+        optionLabelProp="label"
+        allowClear
+      >
+        {marketplaces.map((marketplace) => {
+          const value = marketplace.rawValues || marketplace.name.toLowerCase();
+          return (
+            <Option key={marketplace.id} value={value} label={marketplace.name}>
+              <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+                {marketplace.name}
+                {/* Open the marketplace page without changing the filter */}
+                <Tooltip title={`View ${marketplace.name}`}>
+                  <Link
+                    to={`/marketplace/${encodeURIComponent(getBaseMarketplaceName(value.split(',')[0]))}`}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <ArrowRightOutlined />
+                  </Link>
+                </Tooltip>
+              </Space>
+            </Option>
+          );
+        })}
+      </Select>
+    </Col>
+  );
+
+  const collectionFilter = (
+    <Col xs={24} sm={12} md={8} lg={6}>
+      <Search 
+        placeholder="Search by collection" 
+        onSearch={handleSearch} 
+        defaultValue={searchCollection}
+        style={{ width: '100%' }}
+      />
+    </Col>
+  );
+
+  const priceRangeFilter = (
+    <Col xs={24} sm={24} md={12} lg={8}>
+      <Space.Compact style={{ width: '100%' }}>
+        <InputNumber
+          placeholder="Min price"
+          min={0}
+          value={minPriceDraft}
+          onChange={(value) => setMinPriceDraft(value ?? null)}
+          onBlur={applyPriceRange}
+          onPressEnter={applyPriceRange}
+          style={{ width: '40%' }}
+        />
+        <InputNumber
+          placeholder="Max price"
+          min={0}
+          value={maxPriceDraft}
+          onChange={(value) => setMaxPriceDraft(value ?? null)}
+          onBlur={applyPriceRange}
+          onPressEnter={applyPriceRange}
+          style={{ width: '40%' }}
+        />
+        <Select value={priceCurrency} onChange={handleCurrencyChange} style={{ width: '20%', minWidth: 72 }}>
+          <Option value="APT">APT</Option>
+          <Option value="USD">USD</Option>
+        </Select>
+      </Space.Compact>
+    </Col>
+  );
+
+  const priceRangeNotice = (
+    <>
+      {priceCurrency === 'USD' && aptUsdPrice === null && (minPrice !== null || maxPrice !== null) && (
+        <Alert
+          message="The APT/USD rate is unavailable, so the USD price filter is not applied."
+          type="warning"
+          showIcon
+          style={{ marginTop: 16 }}
+        />
+      )}
+      {priceCurrency === 'USD' && aptUsdPrice && (minPriceApt !== undefined || maxPriceApt !== undefined) && (
+        <Text type="secondary" style={{ display: 'block', marginTop: 8 }}>
+          {`≈ ${minPriceApt !== undefined ? minPriceApt.toFixed(2) : '0'} – ${maxPriceApt !== undefined ? maxPriceApt.toFixed(2) : '∞'} APT at $${aptUsdPrice.toFixed(2)}/APT`}
+        </Text>
+      )}
+    </>
+  );
+
   return (
     <div className="dashboard-container">
       <Row gutter={[24, 24]}>
@@ -343,29 +713,8 @@ const Dashboard: React.FC = () => {
           {/* Add filters section with refresh button - only for listings tab */}
           <Card className="filter-card" style={{ marginBottom: 24 }}>
             <Row align="middle" gutter={[16, 16]}>
-              <Col xs={24} sm={12} md={6} lg={4}>
-                <Select
-                  placeholder="Filter by Marketplace"
-                  style={{ width: '100%' }}
-                  value={selectedMarketplace || undefined}
-                  onChange={handleMarketplaceChange}
-                  allowClear
-                >
-                  {marketplaces.map((marketplace) => (
-                    <Option key={marketplace.id} value={marketplace.rawValues || marketplace.name.toLowerCase()}>
-                      {marketplace.name}
-                    </Option>
-                  ))}
-                </Select>
-              </Col>
-              <Col xs={24} sm={12} md={8} lg={6}>
-                <Search 
-                  placeholder="Search by collection" 
-                  onSearch={handleSearch} 
-                  defaultValue={searchCollection}
-                  style={{ width: '100%' }}
-                />
-              </Col>
+              {marketplaceFilter}
+              {collectionFilter}
               <Col xs={24} sm={12} md={6} lg={4}>
                 <Select
                   placeholder="Sort By"
@@ -377,8 +726,13 @@ const Dashboard: React.FC = () => {
                   <Option value="timestamp_asc">Oldest First</Option>
                   <Option value="price_desc">Price: High to Low</Option>
                   <Option value="price_asc">Price: Low to High</Option>
+                  <Option value="all_in_desc">All-in Price: High to Low</Option>
+                  <Option value="all_in_asc">All-in Price: Low to High</Option>
+                  <Option value="rarity_desc" disabled={!searchCollection}>Rarity: Rarest First</Option>
+                  <Option value="rarity_asc" disabled={!searchCollection}>Rarity: Most Common First</Option>
                 </Select>
               </Col>
+              {priceRangeFilter}
               <Col xs={24} sm={12} md={6} lg={4}>
                 <div style={{ display: 'flex', alignItems: 'center' }}>
                   <Switch 
@@ -389,6 +743,30 @@ const Dashboard: React.FC = () => {
                   <span style={{ marginLeft: 8 }}>Hide Incomplete</span>
                 </div>
               </Col>
+              <Col xs={24} sm={12} md={6} lg={4}>
+                <Tooltip title="Show each token once, at its cheapest listing across marketplaces">
+                  <div style={{ display: 'flex', alignItems: 'center' }}>
+                    <Switch
+                      checked={collapseDuplicates}
+                      onChange={handleCollapseDuplicatesToggle}
+                      size="small"
+                    />
+                    <span style={{ marginLeft: 8 }}>Best Price Only</span>
+                  </div>
+                </Tooltip>
+              </Col>
+              <Col xs={24} sm={12} md={6} lg={4}>
+                <Tooltip title="Keep polling for new, sold and delisted listings">
+                  <div style={{ display: 'flex', alignItems: 'center' }}>
+                    <Switch
+                      checked={liveMode}
+                      onChange={setLiveMode}
+                      size="small"
+                    />
+                    <span style={{ marginLeft: 8 }}>Live</span>
+                  </div>
+                </Tooltip>
+              </Col>
               <Col xs={24} sm={12} md={6} lg={4}>
                 <Button 
                   icon={<ReloadOutlined />} 
@@ -400,53 +778,142 @@ const Dashboard: React.FC = () => {
                   Refresh
                 </Button>
               </Col>
+              <Col xs={24} sm={12} md={8} lg={6}>
+                <Tooltip title={searchCollection ? '' : "Enter a collection's full name to sweep its floor"}>
+                  <Space.Compact>
+                    <InputNumber
+                      min={1}
+                      max={20}
+                      value={sweepCount}
+                      onChange={(value) => setSweepCount(value || 1)}
+                      disabled={!searchCollection}
+                      style={{ width: 70 }}
+                    />
+                    <Button
+                      icon={<ThunderboltOutlined />}
+                      onClick={handleSweepFloor}
+                      loading={sweeping}
+                      disabled={!searchCollection}
+                    >
+                      Sweep floor
+                    </Button>
+                  </Space.Compact>
+                </Tooltip>
+              </Col>
             </Row>
+            {priceRangeNotice}
           </Card>
 
-          <div className="tab-content-container">
-            {/* Marketplace Listings */}
-            {listingsLoading ? (
-              <div style={{ textAlign: 'center', padding: '50px' }}>
-                <Spin size="large" />
-              </div>
-            ) : listingsError ? (
-              <Alert
-                message="API Unavailable"
-                description={listingsError}
-                type="warning"
-                showIcon
-              />
-            ) : listings.length > 0 ? (
-              <>
-                <Row gutter={[16, 16]}>
-                  {listings.map((nft) => (
-                    <Col xs={24} sm={12} md={8} lg={6} key={nft.id}>
-                      <NFTCard nft={nft} />
-                    </Col>
-                  ))}
-                </Row>
-                {listingsTotal > pageSize && (
-                  <Row justify="center" style={{ marginTop: 24 }}>
-                    <Pagination
-                      current={listingsPage}
-                      total={listingsTotal}
-                      pageSize={pageSize}
-                      onChange={handlePageChange}
-                      showSizeChanger={false}
+          <Row gutter={[24, 24]}>
+            {searchCollection && (
+              <Col xs={24} lg={6}>
+                <TraitFilterPanel
+                  collection={searchCollection}
+                  selection={selectedTraits}
+                  onChange={handleTraitsChange}
+                />
+              </Col>
+            )}
+            <Col xs={24} lg={searchCollection ? 18 : 24}>
+              <div className="tab-content-container">
+                {/* Marketplace Listings */}
+                {listingsLoading ? (
+                  <div style={{ textAlign: 'center', padding: '50px' }}>
+                    <Spin size="large" />
+                  </div>
+                ) : listingsError ? (
+                  <Alert
+                    message="API Unavailable"
+                    description={listingsError}
+                    type="warning"
+                    showIcon
+                  />
+                ) : listings.length > 0 ? (
+                  <>
+                    {malformedCount > 0 && (
+                      <Alert
+                        message={`${malformedCount} listing${malformedCount === 1 ? '' : 's'} skipped because the indexer returned incomplete data`}
+                        type="info"
+                        showIcon
+                        closable
+                        style={{ marginBottom: 16 }}
+                      />
+                    )}
+                    {truncatedWindow !== undefined && (
+                      <Alert
+                        message={`Sorted among the first ${truncatedWindow} matching listings only; narrow the filters to include the rest.`}
+                        type="warning"
+                        showIcon
+                        style={{ marginBottom: 16 }}
+                      />
+                    )}
+                    {liveMode && newSinceLooked > 0 && (
+                      <Alert
+                        message={`${newSinceLooked} new listing${newSinceLooked === 1 ? '' : 's'} since you looked`}
+                        type="success"
+                        showIcon
+                        style={{ marginBottom: 16 }}
+                        action={canInsertNewListings ? (
+                          <Button size="small" onClick={handleMarkSeen}>Mark as seen</Button>
+                        ) : (
+                          <Button size="small" type="primary" onClick={handleShowNewest}>Show newest</Button>
+                        )}
+                      />
+                    )}
+                    <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+                      {`${listings.length} of ${listingsTotal} listings`}
+                    </Text>
+                    <VirtualListingsGrid
+                      items={listings}
+                      renderItem={(nft) => <NFTCard nft={nft} />}
+                      itemKey={(nft) => nft.listing_id || nft.id}
+                      itemClassName={(nft) => (nft.listing_id && newListingIds.has(nft.listing_id) ? 'nft-card-new' : undefined)}
+                      narrow={!!searchCollection}
+                      hasMore={!!nextCursor}
+                      loadingMore={loadingMore}
+                      onLoadMore={loadMoreListings}
                     />
-                  </Row>
+                  </>
+                ) : (
+                  <Empty 
+                    description={
+                      <Text>
+                        No active listings found. Try adjusting your filters or check again later.
+                      </Text>
+                    } 
+                  />
                 )}
-              </>
-            ) : (
-              <Empty 
-                description={
-                  <Text>
-                    No active listings found. Try adjusting your filters or check again later.
-                  </Text>
-                } 
-              />
-            )}
-          </div>
+              </div>
+            </Col>
+          </Row>
+        </TabPane>
+
+        {/* Sales across all marketplaces */}
+        <TabPane 
+          tab={<span><DollarOutlined />Recent Sales</span>} 
+          key="sales"
+        >
+          <Card className="filter-card" style={{ marginBottom: 24 }}>
+            <Row align="middle" gutter={[16, 16]}>
+              {marketplaceFilter}
+              {collectionFilter}
+              {priceRangeFilter}
+            </Row>
+            {priceRangeNotice}
+          </Card>
+
+          {waitingForRate ? (
+            <div style={{ textAlign: 'center', padding: '50px' }}>
+              <Spin size="large" />
+            </div>
+          ) : (
+            <RecentSales
+              marketplace={selectedMarketplace || undefined}
+              collection={searchCollection || undefined}
+              minPrice={minPriceApt}
+              maxPrice={maxPriceApt}
+            />
+          )}
         </TabPane>
 
         {/* Analytics tab */}
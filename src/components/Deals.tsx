@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, Button, Card, Col, Empty, InputNumber, Row, Select, Space, Spin, Tooltip, Typography } from 'antd';
+import { ArrowLeftOutlined, InfoCircleOutlined, ReloadOutlined } from '@ant-design/icons';
+import { fetchCollectionDealInputs, fetchCollectionsByVolume } from '../lib/api';
+import { DEFAULT_DEAL_THRESHOLDS, findCollectionDeals, loadDealThresholds, saveDealThresholds } from '../lib/Deals';
+import { CollectionDealInputs, CollectionRankingRow, DealKind, DealThresholds } from '../types';
+import NFTCard from './NFTCard';
+
+const { Text } = Typography;
+
+// Collections offered in the selector, and how many of them are scanned at once
+const RANKING_LIMIT = 20;
+const SCAN_LIMIT = 5;
+
+const THRESHOLD_FIELDS: { key: keyof DealThresholds; label: string; help: string; suffix?: string }[] = [
+  { key: 'floor_discount_pct', label: 'Below floor', help: 'Below the cheapest listing of any other token in the collection', suffix: '%' },
+  { key: 'trait_discount_pct', label: 'Below trait floor', help: 'Below the cheapest other listing sharing a rare trait', suffix: '%' },
+  { key: 'rare_trait_max_pct', label: 'Rare trait', help: 'Traits held by at most this share of the collection', suffix: '%' },
+  { key: 'sales_discount_pct', label: 'Below recent sales', help: 'Below the median sale of the last 7 days', suffix: '%' },
+  { key: 'min_sales', label: 'Minimum sales', help: 'Sales needed in the last 7 days before they are used' },
+];
+
+const KIND_LABELS: Record<DealKind, string> = {
+  below_floor: 'Below floor',
+  below_trait_floor: 'Below trait floor',
+  below_recent_sales: 'Below recent sales',
+};
+
+/**
+ * Listings priced well below their collection's floor, trait floors or recent sales
+ */
+const Deals: React.FC = () => {
+  const [collections, setCollections] = useState<CollectionRankingRow[] | null>(null);
+  // Empty scans the top collections by volume
+  const [selectedCollection, setSelectedCollection] = useState<string>('');
+  const [inputs, setInputs] = useState<Record<string, CollectionDealInputs>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [thresholds, setThresholds] = useState<DealThresholds>(loadDealThresholds);
+  const [kindFilter, setKindFilter] = useState<DealKind | ''>('');
+
+  useEffect(() => {
+    fetchCollectionsByVolume({ timePeriod: '24h', limit: RANKING_LIMIT }).then(setCollections);
+  }, []);
+
+  // Market data is loaded once per scan; thresholds are applied on top of it,
+  // except the rare trait share, which decides which trait floors are loaded
+  useEffect(() => {
+    // Wait for the ranking unless a collection was picked
+    if (!selectedCollection && collections === null) return;
+
+    const collectionIds = selectedCollection
+      ? [selectedCollection]
+      : (collections || []).slice(0, SCAN_LIMIT).map((collection) => collection.collection_id);
+    if (collectionIds.length === 0) {
+      setInputs({});
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const loadInputs = async () => {
+      setLoading(true);
+      try {
+        const loaded = await Promise.all(collectionIds.map(async (id) => [id, await fetchCollectionDealInputs(id, thresholds.rare_trait_max_pct)] as const));
+        if (!cancelled) setInputs(Object.fromEntries(loaded));
+      } catch (error) {
+        console.error('Error loading deals:', error);
+        if (!cancelled) setInputs({});
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadInputs();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCollection, collections, refreshKey, thresholds.rare_trait_max_pct]);
+
+  const deals = useMemo(
+    () => Object.values(inputs)
+      .flatMap((collectionInputs) => findCollectionDeals(collectionInputs, thresholds))
+      .filter((nft) => !kindFilter || nft.deal?.kind === kindFilter)
+      .sort((a, b) => (b.deal?.discount_pct ?? 0) - (a.deal?.discount_pct ?? 0)),
+    [inputs, thresholds, kindFilter]
+  );
+
+  const handleThresholdChange = (key: keyof DealThresholds, value: number | null) => {
+    const next = { ...thresholds, [key]: value ?? DEFAULT_DEAL_THRESHOLDS[key] };
+    setThresholds(next);
+    saveDealThresholds(next);
+  };
+
+  const handleResetThresholds = () => {
+    setThresholds({ ...DEFAULT_DEAL_THRESHOLDS });
+    saveDealThresholds(DEFAULT_DEAL_THRESHOLDS);
+  };
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Card
+        title="Deals"
+        style={{ marginBottom: 24 }}
+        extra={
+          <Button icon={<ReloadOutlined />} onClick={() => setRefreshKey((key) => key + 1)} loading={loading}>
+            Refresh
+          </Button>
+        }
+      >
+        <Row gutter={[16, 16]} align="middle">
+          <Col xs={24} md={12} lg={8}>
+            <Select
+              style={{ width: '100%' }}
+              value={selectedCollection}
+              onChange={setSelectedCollection}
+              showSearch
+              optionFilterProp="label"
+              options={[
+                { label: `Top ${SCAN_LIMIT} collections by 24h volume`, value: '' },
+                ...(collections || []).map((collection) => ({ label: collection.collection_name, value: collection.collection_id })),
+              ]}
+            />
+          </Col>
+          <Col xs={24} md={12} lg={6}>
+            <Select
+              style={{ width: '100%' }}
+              value={kindFilter}
+              onChange={setKindFilter}
+              options={[
+                { label: 'All deals', value: '' },
+                ...(Object.keys(KIND_LABELS) as DealKind[]).map((kind) => ({ label: KIND_LABELS[kind], value: kind })),
+              ]}
+            />
+          </Col>
+        </Row>
+
+        <Space wrap size="large" style={{ marginTop: 16 }}>
+          {THRESHOLD_FIELDS.map((field) => (
+            <Space key={field.key} size={4}>
+              <Text>{field.label}</Text>
+              <Tooltip title={field.help}>
+                <InfoCircleOutlined style={{ color: '#999' }} />
+              </Tooltip>
+              <InputNumber
+                size="small"
+                min={field.key === 'min_sales' ? 1 : 0}
+                max={field.suffix === '%' ? 100 : undefined}
+                precision={field.key === 'min_sales' ? 0 : undefined}
+                value={thresholds[field.key]}
+                onChange={(value) => handleThresholdChange(field.key, value)}
+                addonAfter={field.suffix}
+                style={{ width: field.suffix ? 110 : 70 }}
+              />
+            </Space>
+          ))}
+          <Button size="small" onClick={handleResetThresholds}>Reset</Button>
+        </Space>
+      </Card>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '50px' }}>
+          <Spin size="large" />
+        </div>
+      ) : deals.length > 0 ? (
+        <>
+          <Alert
+            type="info"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={`${deals.length} deal${deals.length === 1 ? '' : 's'} among the cheapest listings of ${Object.keys(inputs).length} collection${Object.keys(inputs).length === 1 ? '' : 's'}`}
+          />
+          <Row gutter={[16, 16]}>
+            {deals.map((nft) => (
+              <Col xs={24} sm={12} md={8} lg={6} key={nft.listing_id || nft.id}>
+                <NFTCard nft={nft} />
+              </Col>
+            ))}
+          </Row>
+        </>
+      ) : (
+        <Empty description="No listings are priced far enough below their references. Try lowering the thresholds." />
+      )}
+    </div>
+  );
+};
+
+export default Deals;
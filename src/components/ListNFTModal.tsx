@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Form, Select, InputNumber, Alert, List, Tag, Typography, message } from 'antd';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { listingService } from '../lib/ApiConfig';
+import { fetchMarketplaceConfigs } from '../lib/api';
+import { isListingSupported } from '../lib/MarketplaceContracts';
+import { OwnedNFT, PurchaseResult } from '../types';
+import ListingProceeds from './ListingProceeds';
+
+const { Text } = Typography;
+
+interface ListNFTModalProps {
+  nft: OwnedNFT | null;  // Token to list; the modal is open while set
+  onClose: () => void;
+  onListed?: () => void;
+}
+
+type ListingStatus = 'pending' | 'listing' | 'listed' | 'failed' | 'skipped';
+
+const STATUS_COLORS: Record<ListingStatus, string> = {
+  pending: 'default',
+  listing: 'processing',
+  listed: 'success',
+  failed: 'error',
+  skipped: 'default',
+};
+
+/**
+ * Modal for listing an owned NFT on the first of the chosen marketplaces that accepts it
+ * Several marketplaces can be picked to compare proceeds and as fallbacks.
+ */
+const ListNFTModal: React.FC<ListNFTModalProps> = ({ nft, onClose, onListed }) => {
+  const { signAndSubmitTransaction } = useWallet();
+  const [form] = Form.useForm<{ marketplaces: string[]; price_apt: number }>();
+  const [marketplaces, setMarketplaces] = useState<{ label: string; value: string }[]>([]);
+  const [marketplacesLoading, setMarketplacesLoading] = useState(false);
+  const [statuses, setStatuses] = useState<Record<string, { status: ListingStatus; error?: string }>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const selectedMarketplaces = Form.useWatch('marketplaces', form) || [];
+  const price = Form.useWatch('price_apt', form);
+
+  // Only marketplaces whose listing contracts we know can be picked
+  useEffect(() => {
+    if (!nft) return;
+
+    const loadMarketplaces = async () => {
+      setMarketplacesLoading(true);
+      try {
+        const configs = await fetchMarketplaceConfigs();
+        setMarketplaces(configs.flatMap((config) =>
+          (config.rawValues || '')
+            .split(',')
+            .filter((id) => id && isListingSupported(id))
+            .map((id) => ({ label: config.name, value: id }))
+        ));
+      } catch (error) {
+        console.error('Error loading listing marketplaces:', error);
+        setMarketplaces([]);
+      } finally {
+        setMarketplacesLoading(false);
+      }
+    };
+
+    form.resetFields();
+    setStatuses({});
+    loadMarketplaces();
+  }, [nft?.id]);
+
+  const handleClose = () => {
+    if (submitting) return;
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!nft) return;
+
+    const values = await form.validateFields();
+    setSubmitting(true);
+    setStatuses(Object.fromEntries(values.marketplaces.map((marketplace) => [marketplace, { status: 'pending' as ListingStatus }])));
+    const results = await listingService.listTokenOnMarketplaces({
+      token: nft,
+      marketplaces: values.marketplaces,
+      price_apt: values.price_apt,
+      signAndSubmitTransaction,
+      onItemStart: (marketplace) => setStatuses((current) => ({ ...current, [marketplace]: { status: 'listing' } })),
+      onItemResult: (marketplace, result: PurchaseResult) => setStatuses((current) => ({
+        ...current,
+        [marketplace]: { status: result.success ? 'listed' : 'failed', error: result.error },
+      })),
+    });
+    setSubmitting(false);
+
+    // Marketplaces after the one that listed the token were never tried
+    setStatuses((current) => Object.fromEntries(Object.entries(current).map(([marketplace, entry]) => [
+      marketplace,
+      entry.status === 'pending' ? { status: 'skipped' as ListingStatus } : entry,
+    ])));
+
+    const listedOn = Object.keys(results).find((marketplace) => results[marketplace].success);
+    if (listedOn) {
+      message.success(`Listed ${nft.name} on ${labelFor(listedOn)}`);
+      onListed?.();
+    } else {
+      message.error(`Could not list ${nft.name} on any of the chosen marketplaces`);
+    }
+  };
+
+  const labelFor = (marketplace: string) =>
+    marketplaces.find((option) => option.value === marketplace)?.label || marketplace;
+  const done = Object.keys(statuses).length > 0 && !submitting;
+
+  return (
+    <Modal
+      title={nft ? `List ${nft.name}` : 'List NFT'}
+      open={!!nft}
+      onCancel={handleClose}
+      closable={!submitting}
+      maskClosable={!submitting}
+      okText={done ? 'Close' : 'List'}
+      onOk={done ? handleClose : handleSubmit}
+      okButtonProps={{ loading: submitting, disabled: !done && marketplaces.length === 0 }}
+      cancelButtonProps={{ disabled: submitting }}
+      width={640}
+    >
+      {!marketplacesLoading && marketplaces.length === 0 && (
+        <Alert
+          type="warning"
+          message="None of the active marketplaces support listing from the aggregator yet."
+          showIcon
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      {nft?.amount !== undefined && nft.amount > 1 && (
+        <Alert type="info" message="Only one unit of this token is listed." showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      {selectedMarketplaces.length > 1 && !done && (
+        <Alert
+          type="info"
+          message="Listing moves the token out of your wallet, so it can only be listed on one marketplace at a time. The marketplaces are tried in the order chosen and the rest are skipped once one succeeds."
+          showIcon
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      <Form form={form} layout="vertical" disabled={submitting || done}>
+        <Form.Item name="marketplaces" label="Marketplaces" rules={[{ required: true, message: 'Choose at least one marketplace' }]}>
+          <Select mode="multiple" options={marketplaces} loading={marketplacesLoading} placeholder="Marketplaces" />
+        </Form.Item>
+        <Form.Item name="price_apt" label="Price (APT)" rules={[{ required: true, message: 'Enter a price' }]}>
+          <InputNumber min={0.00000001} step={0.1} style={{ width: '100%' }} placeholder="0.0" />
+        </Form.Item>
+      </Form>
+
+      {nft && (
+        <ListingProceeds
+          tokenDataId={nft.id}
+          collectionId={nft.collection_id}
+          price={price}
+          marketplaces={selectedMarketplaces.map((marketplace: string) => ({ value: marketplace, label: labelFor(marketplace) }))}
+          onUseFloor={(floor) => form.setFieldValue('price_apt', floor)}
+        />
+      )}
+
+      {Object.keys(statuses).length > 0 && (
+        <List
+          size="small"
+          style={{ marginTop: 16 }}
+          dataSource={Object.entries(statuses)}
+          renderItem={([marketplace, { status, error }]) => (
+            <List.Item>
+              <List.Item.Meta
+                title={labelFor(marketplace)}
+                description={error && <Text type="danger">{error}</Text>}
+              />
+              <Tag color={STATUS_COLORS[status]}>{status}</Tag>
+            </List.Item>
+          )}
+        />
+      )}
+    </Modal>
+  );
+};
+
+export default ListNFTModal;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Table, Tag, Typography } from 'antd';
+import { SwapOutlined } from '@ant-design/icons';
+import { getBaseMarketplaceName } from '../lib/api';
+import { NFT, PurchaseResult, TokenListing } from '../types';
+import BuyNowButton from './BuyNowButton';
+
+const { Text } = Typography;
+
+interface ListingComparisonProps {
+  nft: NFT;
+  onPurchased?: (result: PurchaseResult) => void;
+}
+
+// Shorten an address for the table, e.g. 0x1234...abcd
+const shortAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+/**
+ * Every active listing of a token across marketplaces, cheapest all-in first
+ */
+const ListingComparison: React.FC<ListingComparisonProps> = ({ nft, onPurchased }) => {
+  const listings = nft.listings || [];
+  if (listings.length === 0) {
+    return null;
+  }
+
+  const bestListingId = listings[0].listing_id;
+
+  const columns = [
+    {
+      title: 'Marketplace',
+      dataIndex: 'marketplace',
+      key: 'marketplace',
+      render: (name: string, record: TokenListing) => (
+        <span>
+          <Link to={`/marketplace/${encodeURIComponent(getBaseMarketplaceName(record.marketplace_id))}`}>{name}</Link>
+          {record.listing_id === bestListingId && listings.length > 1 && (
+            <Tag color="green" style={{ marginLeft: 8 }}>Best price</Tag>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: 'Seller',
+      dataIndex: 'seller',
+      key: 'seller',
+      render: (address: string) => <Text copyable={{ text: address }}>{shortAddress(address)}</Text>,
+    },
+    {
+      title: 'Price',
+      dataIndex: 'price_apt',
+      key: 'price_apt',
+      render: (price: number) => `${price.toFixed(2)} APT`,
+    },
+    {
+      title: 'All-in',
+      dataIndex: 'buyer_cost_apt',
+      key: 'buyer_cost_apt',
+      render: (cost: number, record: TokenListing) => (
+        <Text strong={record.listing_id === bestListingId}>{`${cost.toFixed(2)} APT`}</Text>
+      ),
+    },
+    {
+      title: 'Seller Receives',
+      dataIndex: 'seller_net_apt',
+      key: 'seller_net_apt',
+      render: (net: number) => <Text type="secondary">{`${net.toFixed(2)} APT`}</Text>,
+    },
+    {
+      title: '',
+      key: 'buy',
+      render: (_: unknown, record: TokenListing) => (
+        <BuyNowButton
+          nft={{
+            ...nft,
+            listing_id: record.listing_id,
+            marketplace: record.marketplace,
+            marketplace_id: record.marketplace_id,
+            owner_address: record.seller,
+            price: { amount: record.price_apt, currency: 'APT' },
+          }}
+          onPurchased={onPurchased}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <Card title={<span><SwapOutlined style={{ marginRight: 8 }} />Listings ({listings.length})</span>}>
+      <Table<TokenListing>
+        dataSource={listings}
+        columns={columns}
+        rowKey="listing_id"
+        pagination={false}
+        size="small"
+      />
+    </Card>
+  );
+};
+
+export default ListingComparison;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Table, Typography, Space, Button, Spin } from 'antd';
+import { fetchActiveListings } from '../lib/api';
+import { fetchRoyalties } from '../lib/ApiConfig';
+import { calculatePriceBreakdown } from '../lib/MarketplaceFees';
+
+const { Text } = Typography;
+
+interface ListingProceedsProps {
+  tokenDataId: string;
+  collectionId?: string;
+  price?: number;  // Listing price in APT
+  marketplaces: { label: string; value: string }[];
+  onUseFloor?: (floor: number) => void;
+}
+
+interface ProceedsRow {
+  marketplace: string;
+  label: string;
+  fee_apt: number;
+  royalty_apt: number;
+  seller_net_apt: number;
+}
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+/**
+ * Collection floor and what the seller receives on each marketplace at a price
+ */
+const ListingProceeds: React.FC<ListingProceedsProps> = ({ tokenDataId, collectionId, price, marketplaces, onUseFloor }) => {
+  const [floor, setFloor] = useState<number | undefined>(undefined);
+  const [royaltyBps, setRoyaltyBps] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [cheapest, royalties] = await Promise.all([
+          collectionId
+            ? fetchActiveListings({ collectionId, pageSize: 1, sortOrder: 'price_asc' })
+            : Promise.resolve({ nfts: [], total: 0 }),
+          fetchRoyalties([{ id: tokenDataId, collection_id: collectionId }]),
+        ]);
+        setFloor(cheapest.nfts[0]?.price?.amount);
+        setRoyaltyBps(royalties[tokenDataId] ?? 0);
+      } catch (error) {
+        console.error('Failed to load floor and royalty:', error);
+        setFloor(undefined);
+        setRoyaltyBps(0);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [tokenDataId, collectionId]);
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '12px' }}>
+        <Spin />
+      </div>
+    );
+  }
+
+  const rows: ProceedsRow[] = price && price > 0
+    ? marketplaces.map((marketplace) => {
+      const breakdown = calculatePriceBreakdown(price, marketplace.value, royaltyBps);
+      return {
+        marketplace: marketplace.value,
+        label: marketplace.label,
+        fee_apt: breakdown.maker_fee_apt,
+        royalty_apt: breakdown.royalty_apt,
+        seller_net_apt: breakdown.seller_net_apt,
+      };
+    })
+    : [];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Space wrap>
+        <Text type="secondary">Collection floor:</Text>
+        <Text strong>{floor !== undefined ? formatApt(floor) : '-'}</Text>
+        {floor !== undefined && onUseFloor && (
+          <Button size="small" onClick={() => onUseFloor(floor)}>Use floor</Button>
+        )}
+        <Text type="secondary">{`Creator royalty: ${(royaltyBps / 100).toFixed(2)}%`}</Text>
+      </Space>
+      {rows.length > 0 && (
+        <Table<ProceedsRow>
+          dataSource={rows}
+          rowKey="marketplace"
+          pagination={false}
+          size="small"
+          columns={[
+            { title: 'Marketplace', dataIndex: 'label', key: 'label' },
+            { title: 'Marketplace fee', dataIndex: 'fee_apt', key: 'fee_apt', render: formatApt },
+            { title: 'Royalty', dataIndex: 'royalty_apt', key: 'royalty_apt', render: formatApt },
+            {
+              title: 'You receive',
+              dataIndex: 'seller_net_apt',
+              key: 'seller_net_apt',
+              render: (net: number) => <Text strong>{formatApt(net)}</Text>,
+            },
+          ]}
+        />
+      )}
+    </Space>
+  );
+};
+
+export default ListingProceeds;
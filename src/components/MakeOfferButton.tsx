@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Button, Modal, Form, Select, InputNumber, Steps, Alert, Typography, Tooltip, message } from 'antd';
+import { TagOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { offerService } from '../lib/ApiConfig';
+import { fetchMarketplaceConfigs } from '../lib/api';
+import { isOfferSupported } from '../lib/MarketplaceContracts';
+import { getExplorerTransactionUrl } from '../lib/NetworkProfiles';
+import { OfferKind, PurchaseResult, PurchaseStage } from '../types';
+
+const { Text, Link: TextLink } = Typography;
+
+interface MakeOfferButtonProps {
+  kind: OfferKind;
+  tokenDataId?: string;  // Required for token offers
+  collectionId?: string;  // Required for collection offers
+  name: string;  // Token or collection name shown in the modal
+  onOfferMade?: (result: PurchaseResult) => void;
+}
+
+interface OfferFormValues {
+  marketplace: string;
+  price_apt: number;
+  token_amount: number;
+  expires_in_days: number;
+}
+
+interface MarketplaceOption {
+  label: string;
+  value: string;
+}
+
+// Order of the progress steps shown while the offer is in flight
+const OFFER_STEPS: PurchaseStage[] = ['loading', 'signing', 'confirming', 'confirmed'];
+
+const STAGE_LABELS: Record<PurchaseStage, string> = {
+  loading: 'Prepare offer',
+  simulating: 'Simulate',
+  signing: 'Sign in wallet',
+  confirming: 'Confirm on-chain',
+  confirmed: 'Done',
+  failed: 'Failed',
+};
+
+const EXPIRATION_OPTIONS = [
+  { label: '1 day', value: 1 },
+  { label: '3 days', value: 3 },
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Button and modal for placing a token offer or a collection-wide bid
+ */
+const MakeOfferButton: React.FC<MakeOfferButtonProps> = ({ kind, tokenDataId, collectionId, name, onOfferMade }) => {
+  const { account, connected, signAndSubmitTransaction } = useWallet();
+  const [form] = Form.useForm<OfferFormValues>();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [marketplaces, setMarketplaces] = useState<MarketplaceOption[]>([]);
+  const [marketplacesLoading, setMarketplacesLoading] = useState(false);
+  const [stage, setStage] = useState<PurchaseStage | null>(null);
+  const [lastStage, setLastStage] = useState<PurchaseStage>('loading');
+  const [result, setResult] = useState<PurchaseResult | null>(null);
+
+  const inProgress = stage !== null && stage !== 'confirmed' && stage !== 'failed';
+
+  // Only marketplaces whose offer contracts we know can be picked
+  const loadMarketplaces = async () => {
+    setMarketplacesLoading(true);
+    try {
+      const configs = await fetchMarketplaceConfigs();
+      const options = configs.flatMap((config) =>
+        (config.rawValues || '')
+          .split(',')
+          .filter((id) => id && isOfferSupported(id))
+          .map((id) => ({ label: config.name, value: id }))
+      );
+      setMarketplaces(options);
+      if (options.length > 0 && !form.getFieldValue('marketplace')) {
+        form.setFieldValue('marketplace', options[0].value);
+      }
+    } catch (error) {
+      console.error('Error loading offer marketplaces:', error);
+      setMarketplaces([]);
+    } finally {
+      setMarketplacesLoading(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setStage(null);
+    setResult(null);
+    setIsModalOpen(true);
+    loadMarketplaces();
+  };
+
+  const handleClose = () => {
+    if (inProgress) return;
+    setIsModalOpen(false);
+  };
+
+  const handleSubmit = async () => {
+    if (!account) return;
+
+    const values = await form.validateFields();
+    setResult(null);
+    const offerResult = await offerService.makeOffer({
+      request: {
+        kind,
+        marketplace: values.marketplace,
+        token_data_id: tokenDataId,
+        collection_id: collectionId,
+        price_apt: values.price_apt,
+        token_amount: kind === 'collection' ? values.token_amount : 1,
+        expires_at: Date.now() + values.expires_in_days * DAY_MS,
+      },
+      signAndSubmitTransaction,
+      onStageChange: (nextStage) => {
+        setStage(nextStage);
+        if (nextStage !== 'failed') {
+          setLastStage(nextStage);
+        }
+      },
+    });
+
+    setResult(offerResult);
+    if (offerResult.success) {
+      message.success(`Offer placed on ${name}`);
+    } else {
+      message.error(offerResult.error || 'Offer failed');
+    }
+    onOfferMade?.(offerResult);
+  };
+
+  const currentStep = stage === 'failed'
+    ? OFFER_STEPS.indexOf(lastStage)
+    : stage ? OFFER_STEPS.indexOf(stage) : -1;
+
+  const button = (
+    <Button icon={<TagOutlined />} onClick={handleOpen} disabled={!connected} block={kind === 'token'}>
+      {kind === 'token' ? 'Make offer' : 'Make collection offer'}
+    </Button>
+  );
+
+  return (
+    <>
+      {connected ? button : <Tooltip title="Connect your wallet to make an offer">{button}</Tooltip>}
+
+      <Modal
+        title={kind === 'token' ? `Make an offer on ${name}` : `Make an offer on any ${name}`}
+        open={isModalOpen}
+        onCancel={handleClose}
+        closable={!inProgress}
+        maskClosable={!inProgress}
+        okText={result?.success ? 'Close' : 'Place offer'}
+        onOk={result?.success ? handleClose : handleSubmit}
+        okButtonProps={{ loading: inProgress, disabled: !result?.success && marketplaces.length === 0 }}
+        cancelButtonProps={{ disabled: inProgress }}
+      >
+        {!marketplacesLoading && marketplaces.length === 0 && (
+          <Alert
+            type="warning"
+            message="None of the active marketplaces support offers yet."
+            showIcon
+            style={{ marginBottom: 16 }}
+          />
+        )}
+
+        <Form
+          form={form}
+          layout="vertical"
+          disabled={inProgress || !!result?.success}
+          initialValues={{ token_amount: 1, expires_in_days: 7 }}
+        >
+          <Form.Item name="marketplace" label="Marketplace" rules={[{ required: true, message: 'Choose a marketplace' }]}>
+            <Select options={marketplaces} loading={marketplacesLoading} placeholder="Marketplace" />
+          </Form.Item>
+          <Form.Item
+            name="price_apt"
+            label={kind === 'token' ? 'Price (APT)' : 'Price per token (APT)'}
+            rules={[{ required: true, message: 'Enter a price' }]}
+          >
+            <InputNumber min={0.00000001} step={0.1} style={{ width: '100%' }} placeholder="0.0" />
+          </Form.Item>
+          {kind === 'collection' && (
+            <Form.Item name="token_amount" label="Number of tokens" rules={[{ required: true }]}>
+              <InputNumber min={1} precision={0} style={{ width: '100%' }} />
+            </Form.Item>
+          )}
+          <Form.Item name="expires_in_days" label="Expires in">
+            <Select options={EXPIRATION_OPTIONS} />
+          </Form.Item>
+        </Form>
+
+        {stage && (
+          <Steps
+            size="small"
+            current={currentStep}
+            status={stage === 'failed' ? 'error' : stage === 'confirmed' ? 'finish' : 'process'}
+            items={OFFER_STEPS.map((step) => ({ title: STAGE_LABELS[step] }))}
+            style={{ marginBottom: 16 }}
+          />
+        )}
+
+        {result && !result.success && result.error && (
+          <Alert type="error" message={result.error} showIcon style={{ marginBottom: 16 }} />
+        )}
+
+        {result?.transaction_hash && (
+          <Text>
+            Transaction:{' '}
+            <TextLink
+              href={getExplorerTransactionUrl(result.transaction_hash)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              {`${result.transaction_hash.slice(0, 10)}...${result.transaction_hash.slice(-6)}`}
+            </TextLink>
+          </Text>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default MakeOfferButton;
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Row, Col, Card, Typography, Statistic, Table, Spin, Empty, Button, Select, Pagination, Alert } from 'antd';
+import { ArrowLeftOutlined, ShopOutlined, AppstoreOutlined, TrophyOutlined } from '@ant-design/icons';
+import {
+  fetchMarketplaceConfigs,
+  fetchMarketplaceSummary,
+  fetchActiveListings,
+  getBaseMarketplaceName,
+} from '../lib/api';
+import { NFT, ListingsPage, MarketplaceSummary, MarketplaceCollectionRow } from '../types';
+import NFTCard from './NFTCard';
+
+const { Title, Text } = Typography;
+const { Option } = Select;
+
+/**
+ * Resolve a marketplace slug to the raw marketplace IDs it groups
+ * Falls back to the slug itself when no config matches, so links to
+ * marketplaces without active listings still show their sales.
+ * @param slug - Base marketplace name from the route
+ */
+async function resolveMarketplaceIds(slug: string): Promise<string[]> {
+  const configs = await fetchMarketplaceConfigs();
+  const config = configs.find((candidate) =>
+    (candidate.rawValues || '').split(',').some((id) => getBaseMarketplaceName(id) === slug)
+  );
+
+  return config?.rawValues ? config.rawValues.split(',') : [slug];
+}
+
+const MarketplaceDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [marketplaceIds, setMarketplaceIds] = useState<string[]>([]);
+  const [summary, setSummary] = useState<MarketplaceSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [listings, setListings] = useState<NFT[]>([]);
+  const [listingsTotal, setListingsTotal] = useState(0);
+  // Listings read for a client-side sort that did not cover every match
+  const [truncatedWindow, setTruncatedWindow] = useState<number | undefined>(undefined);
+  const [listingsLoading, setListingsLoading] = useState(true);
+  const [listingsPage, setListingsPage] = useState(1);
+  const [sortOrder, setSortOrder] = useState<string>('timestamp_desc');
+  const pageSize = 12;
+
+  // Load the marketplace summary
+  useEffect(() => {
+    if (!id) return;
+
+    const loadMarketplace = async () => {
+      setLoading(true);
+      try {
+        const ids = await resolveMarketplaceIds(id);
+        setMarketplaceIds(ids);
+        setSummary(await fetchMarketplaceSummary(ids));
+      } catch (error) {
+        console.error('Failed to load marketplace:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMarketplace();
+  }, [id]);
+
+  // Load the marketplace's active listings
+  useEffect(() => {
+    if (marketplaceIds.length === 0) return;
+
+    let cancelled = false;
+    const showListings = (result: ListingsPage) => {
+      if (cancelled) return;
+      setListings(result.nfts);
+      setListingsTotal(result.total);
+      setTruncatedWindow(result.truncated ? result.window_size : undefined);
+    };
+
+    const loadListings = async () => {
+      setListingsLoading(true);
+      try {
+        showListings(await fetchActiveListings({
+          page: listingsPage,
+          pageSize,
+          marketplace: marketplaceIds.join(','),
+          sortOrder,
+          // A stale page is shown at once and replaced when revalidated
+          onRefresh: showListings,
+        }));
+      } catch (error) {
+        console.error('Failed to load marketplace listings:', error);
+        setListings([]);
+        setListingsTotal(0);
+        setTruncatedWindow(undefined);
+      } finally {
+        setListingsLoading(false);
+      }
+    };
+
+    loadListings();
+    return () => {
+      cancelled = true;
+    };
+  }, [marketplaceIds, listingsPage, sortOrder]);
+
+  const handleSortChange = (value: string) => {
+    setSortOrder(value);
+    setListingsPage(1);
+  };
+
+  if (loading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '50px' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div>
+        <Link to="/">
+          <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+            Back to Dashboard
+          </Button>
+        </Link>
+        <Empty description="Marketplace not found" />
+      </div>
+    );
+  }
+
+  // Collection figures are counted over a sample when the marketplace has more listings
+  const sampled = summary.sampled_listings < summary.active_listings;
+
+  const collectionColumns = [
+    {
+      title: 'Collection',
+      dataIndex: 'collection_name',
+      key: 'collection_name',
+      render: (name: string, record: MarketplaceCollectionRow) => (
+        <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>{name}</Link>
+      ),
+    },
+    {
+      title: 'Listed',
+      dataIndex: 'listed_count',
+      key: 'listed_count',
+      sorter: (a: MarketplaceCollectionRow, b: MarketplaceCollectionRow) => a.listed_count - b.listed_count,
+    },
+    {
+      title: 'Floor',
+      dataIndex: 'floor_price_apt',
+      key: 'floor_price_apt',
+      render: (price: number) => `${price.toFixed(2)} APT`,
+      sorter: (a: MarketplaceCollectionRow, b: MarketplaceCollectionRow) => a.floor_price_apt - b.floor_price_apt,
+    },
+  ];
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Card style={{ marginBottom: 24 }}>
+        <Title level={2} style={{ marginTop: 0 }}>{summary.marketplace}</Title>
+        <Text type="secondary">{`Contracts: ${summary.marketplace_ids.join(', ')}`}</Text>
+      </Card>
+
+      <Row gutter={[24, 24]} className="stat-cards">
+        <Col xs={24} sm={12} md={8}>
+          <Card>
+            <Statistic title="Total Sales" value={summary.total_sales} prefix={<ShopOutlined />} />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={8}>
+          <Card>
+            <Statistic title="Active Listings" value={summary.active_listings} prefix={<AppstoreOutlined />} />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={8}>
+          <Card>
+            <Statistic
+              title={sampled ? 'Collections Listed (sampled)' : 'Collections Listed'}
+              value={summary.listed_collections}
+              prefix={<TrophyOutlined />}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <Row gutter={[24, 24]} style={{ marginTop: 24 }}>
+        <Col xs={24} lg={8}>
+          <Card title="Top Collections">
+            {sampled && (
+              <Alert
+                message={`Counted among ${summary.sampled_listings} of ${summary.active_listings} active listings; figures are approximate.`}
+                type="info"
+                showIcon
+                style={{ marginBottom: 16 }}
+              />
+            )}
+            <Table<MarketplaceCollectionRow>
+              dataSource={summary.top_collections}
+              columns={collectionColumns}
+              rowKey="collection_id"
+              pagination={false}
+              size="small"
+              locale={{ emptyText: 'No active listings' }}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} lg={16}>
+          <Card
+            title="Latest Listings"
+            extra={
+              <Select value={sortOrder} onChange={handleSortChange} style={{ width: 200 }}>
+                <Option value="timestamp_desc">Newest First</Option>
+                <Option value="price_asc">Price: Low to High</Option>
+                <Option value="price_desc">Price: High to Low</Option>
+                <Option value="all_in_asc">All-in Price: Low to High</Option>
+                <Option value="all_in_desc">All-in Price: High to Low</Option>
+              </Select>
+            }
+          >
+            {listingsLoading ? (
+              <div style={{ textAlign: 'center', padding: '50px' }}>
+                <Spin size="large" />
+              </div>
+            ) : listings.length > 0 ? (
+              <>
+                {truncatedWindow !== undefined && (
+                  <Alert
+                    message={`Sorted among the first ${truncatedWindow} matching listings only; later listings are not included.`}
+                    type="warning"
+                    showIcon
+                    style={{ marginBottom: 16 }}
+                  />
+                )}
+                <Row gutter={[16, 16]}>
+                  {listings.map((nft) => (
+                    <Col xs={24} sm={12} lg={8} key={nft.listing_id || nft.id}>
+                      <NFTCard nft={nft} />
+                    </Col>
+                  ))}
+                </Row>
+                {listingsTotal > pageSize && (
+                  <Row justify="center" style={{ marginTop: 24 }}>
+                    <Pagination
+                      current={listingsPage}
+                      total={listingsTotal}
+                      pageSize={pageSize}
+                      onChange={setListingsPage}
+                      showSizeChanger={false}
+                    />
+                  </Row>
+                )}
+              </>
+            ) : summary.active_listings > 0 ? (
+              <Alert type="warning" showIcon message="Listings for this marketplace could not be loaded." />
+            ) : (
+              <Empty description="No active listings on this marketplace" />
+            )}
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default MarketplaceDetail;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Card, Empty, Tabs, Table, Avatar, Space, Typography, Tooltip, Popconfirm, message } from 'antd';
+import { ArrowLeftOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { fetchActiveListings } from '../lib/api';
+import { fetchOwnedNFTs, listingService } from '../lib/ApiConfig';
+import { isListingSupported } from '../lib/MarketplaceContracts';
+import { NFT, OwnedNFT } from '../types';
+import PriceBreakdownTag from './PriceBreakdownTag';
+import ListNFTModal from './ListNFTModal';
+import RepriceListingModal from './RepriceListingModal';
+
+const { Text } = Typography;
+
+// Most of the account's listings shown at once
+const MY_LISTINGS_LIMIT = 100;
+
+const NFTName: React.FC<{ nft: NFT }> = ({ nft }) => (
+  <Space>
+    <Avatar shape="square" size={40} src={nft.image_url} />
+    <Space direction="vertical" size={0}>
+      <Link to={`/nft/${encodeURIComponent(nft.id)}`}>{nft.name}</Link>
+      <Text type="secondary">{nft.collection_name}</Text>
+    </Space>
+  </Space>
+);
+
+/**
+ * The connected account's NFTs: list held tokens, cancel or reprice listings
+ */
+const MyNFTs: React.FC = () => {
+  const { account, connected, signAndSubmitTransaction } = useWallet();
+  const address = account?.address;
+  const [owned, setOwned] = useState<OwnedNFT[]>([]);
+  const [ownedLoading, setOwnedLoading] = useState(false);
+  const [listings, setListings] = useState<NFT[]>([]);
+  const [listingsLoading, setListingsLoading] = useState(false);
+  const [listingNFT, setListingNFT] = useState<OwnedNFT | null>(null);
+  const [repricing, setRepricing] = useState<NFT | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const loadOwned = async (owner: string) => {
+    setOwnedLoading(true);
+    setOwned(await fetchOwnedNFTs(owner));
+    setOwnedLoading(false);
+  };
+
+  // Same listings data as the dashboard, filtered on the connected seller
+  const loadListings = async (seller: string) => {
+    setListingsLoading(true);
+    try {
+      const result = await fetchActiveListings({ seller, pageSize: MY_LISTINGS_LIMIT, skipCache: true });
+      setListings(result.nfts);
+    } catch (error) {
+      console.error('Failed to load your listings:', error);
+      setListings([]);
+    } finally {
+      setListingsLoading(false);
+    }
+  };
+
+  const reload = () => {
+    if (!address) return;
+    loadOwned(address);
+    loadListings(address);
+  };
+
+  useEffect(() => {
+    if (address) {
+      reload();
+    } else {
+      setOwned([]);
+      setListings([]);
+    }
+  }, [address]);
+
+  const handleCancel = async (listing: NFT) => {
+    if (!address || !listing.listing_id) return;
+
+    setCancellingId(listing.listing_id);
+    const result = await listingService.cancelListing({
+      listingId: listing.listing_id,
+      seller: address,
+      signAndSubmitTransaction,
+    });
+    setCancellingId(null);
+
+    if (result.success) {
+      message.success(`Cancelled the listing of ${listing.name}`);
+      reload();
+    } else {
+      message.error(result.error || 'Cancelling the listing failed');
+    }
+  };
+
+  if (!connected || !address) {
+    return (
+      <Card>
+        <Empty description="Connect your wallet to list your NFTs" />
+      </Card>
+    );
+  }
+
+  const ownedColumns = [
+    { title: 'NFT', key: 'nft', render: (_: unknown, record: OwnedNFT) => <NFTName nft={record} /> },
+    { title: 'Standard', dataIndex: 'token_standard', key: 'token_standard' },
+    { title: 'Amount', dataIndex: 'amount', key: 'amount' },
+    {
+      title: '',
+      key: 'list',
+      render: (_: unknown, record: OwnedNFT) => (
+        <Button type="primary" size="small" onClick={() => setListingNFT(record)}>
+          List
+        </Button>
+      ),
+    },
+  ];
+
+  const listingColumns = [
+    { title: 'NFT', key: 'nft', render: (_: unknown, record: NFT) => <NFTName nft={record} /> },
+    { title: 'Marketplace', dataIndex: 'marketplace', key: 'marketplace' },
+    { title: 'Price', key: 'price', render: (_: unknown, record: NFT) => `${record.price?.amount ?? '-'} APT` },
+    { title: 'All-in', key: 'all_in', render: (_: unknown, record: NFT) => <PriceBreakdownTag nft={record} /> },
+    {
+      title: '',
+      key: 'actions',
+      render: (_: unknown, record: NFT) => {
+        const supported = isListingSupported(record.marketplace_id || '');
+        const actions = (
+          <Space>
+            <Button size="small" disabled={!supported} onClick={() => setRepricing(record)}>
+              Reprice
+            </Button>
+            <Popconfirm
+              title="Cancel this listing?"
+              onConfirm={() => handleCancel(record)}
+              okText="Cancel listing"
+              cancelText="Keep"
+              disabled={!supported}
+            >
+              <Button danger size="small" disabled={!supported} loading={cancellingId === record.listing_id}>
+                Cancel
+              </Button>
+            </Popconfirm>
+          </Space>
+        );
+        return supported
+          ? actions
+          : <Tooltip title={`Manage this listing on ${record.marketplace}`}>{actions}</Tooltip>;
+      },
+    },
+  ];
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Card title="My NFTs">
+        <Tabs
+          items={[
+            {
+              key: 'owned',
+              label: `Owned (${owned.length})`,
+              children: (
+                <Table<OwnedNFT>
+                  dataSource={owned}
+                  columns={ownedColumns}
+                  rowKey="id"
+                  loading={ownedLoading}
+                  size="small"
+                  locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No NFTs in this wallet" /> }}
+                />
+              ),
+            },
+            {
+              key: 'listed',
+              label: `Listed (${listings.length})`,
+              children: (
+                <Table<NFT>
+                  dataSource={listings}
+                  columns={listingColumns}
+                  rowKey={(record) => record.listing_id || record.id}
+                  loading={listingsLoading}
+                  size="small"
+                  locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No active listings" /> }}
+                />
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <ListNFTModal nft={listingNFT} onClose={() => setListingNFT(null)} onListed={reload} />
+      <RepriceListingModal
+        listing={repricing}
+        onClose={() => setRepricing(null)}
+        onRepriced={(result) => result.success && reload()}
+      />
+    </div>
+  );
+};
+
+export default MyNFTs;
@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Empty, Card } from 'antd';
+import { ArrowLeftOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { fetchOffersByBuyer } from '../lib/ApiConfig';
+import { MarketplaceOffer, PurchaseResult } from '../types';
+import OffersTable from './OffersTable';
+
+/**
+ * The connected account's active token and collection offers
+ */
+const MyOffers: React.FC = () => {
+  const { account, connected } = useWallet();
+  const [offers, setOffers] = useState<MarketplaceOffer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const address = account?.address;
+
+  const loadOffers = async (buyer: string) => {
+    setLoading(true);
+    setOffers(await fetchOffersByBuyer(buyer));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (address) {
+      loadOffers(address);
+    } else {
+      setOffers([]);
+    }
+  }, [address]);
+
+  // Drop cancelled offers from the list
+  const handleCancelled = (result: PurchaseResult) => {
+    if (result.success && address) {
+      loadOffers(address);
+    }
+  };
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      {!connected || !address ? (
+        <Card>
+          <Empty description="Connect your wallet to see your offers" />
+        </Card>
+      ) : (
+        <OffersTable title="My Offers" offers={offers} loading={loading} showTarget onCancelled={handleCancelled} />
+      )}
+    </div>
+  );
+};
+
+export default MyOffers;
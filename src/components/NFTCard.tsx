@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { Card, Badge, Typography, Tag, Space, Tooltip, Skeleton } from 'antd';
+import { Card, Badge, Typography, Tag, Space, Tooltip, Skeleton, Button, message } from 'antd';
 import { Link } from 'react-router-dom';
 import { NFT } from '../types';
-import { ExclamationCircleOutlined, WarningOutlined } from '@ant-design/icons';
+import { getBaseMarketplaceName } from '../lib/api';
+import { ExclamationCircleOutlined, WarningOutlined, ShoppingCartOutlined, CheckOutlined, FireOutlined } from '@ant-design/icons';
+import { useCart } from './CartProvider';
+import PriceBreakdownTag from './PriceBreakdownTag';
+import WatchButton from './WatchButton';
 
 const { Meta } = Card;
 const { Text } = Typography;
@@ -28,6 +32,8 @@ const NFTCard: React.FC<NFTCardProps> = ({ nft }) => {
   const hasIncompleteMetadata = nft.hasCompleteMetadata === false;
   const [imageError, setImageError] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const { addToCart, removeFromCart, isInCart } = useCart();
+  const inCart = isInCart(nft.listing_id);
   
   // Safely handle NFT name
   const safeName = sanitizeText(nft.name) || 'Unnamed NFT';
@@ -59,9 +65,31 @@ const NFTCard: React.FC<NFTCardProps> = ({ nft }) => {
   const handleImageLoad = () => {
     setImageLoaded(true);
   };
+
+  const handleCartToggle = () => {
+    if (!nft.listing_id) return;
+    
+    if (inCart) {
+      removeFromCart(nft.listing_id);
+    } else if (addToCart(nft)) {
+      message.success(`Added ${nft.name} to cart`);
+    } else {
+      message.info(`Another listing of ${nft.name} is already in the cart`);
+    }
+  };
   
   return (
-    <Badge.Ribbon text={sanitizeText(nft.marketplace)} color={getMarketplaceColor(nft.marketplace)}>
+    <Badge.Ribbon
+      text={
+        <Link
+          to={`/marketplace/${encodeURIComponent(getBaseMarketplaceName(nft.marketplace_id || nft.marketplace))}`}
+          style={{ color: 'inherit' }}
+        >
+          {sanitizeText(nft.marketplace)}
+        </Link>
+      }
+      color={getMarketplaceColor(nft.marketplace)}
+    >
       <Card
         className="nft-card"
         cover={
@@ -127,17 +155,45 @@ const NFTCard: React.FC<NFTCardProps> = ({ nft }) => {
                   }} 
                 />
               )}
+              {nft.deal && (
+                <Tooltip title={nft.deal.reason}>
+                  <Tag
+                    color="volcano"
+                    icon={<FireOutlined />}
+                    style={{ position: 'absolute', top: 8, left: 8, margin: 0 }}
+                  >
+                    {`Deal -${nft.deal.discount_pct}%`}
+                  </Tag>
+                </Tooltip>
+              )}
             </Link>
           </div>
         }
         actions={[
           <div key="price">
-            {nft.price ? (
-              <Text strong>{`${nft.price.amount} ${sanitizeText(nft.price.currency)}`}</Text>
-            ) : (
-              <Text type="secondary">Not for sale</Text>
-            )}
+            <PriceBreakdownTag nft={nft} />
           </div>,
+          <WatchButton
+            key="watch"
+            item={{
+              kind: 'token',
+              id: nft.id,
+              name: nft.name || 'Unnamed NFT',
+              collection_id: nft.collection_id,
+              collection_name: nft.collection_name,
+              image_url: nft.image_url,
+            }}
+          />,
+          ...(nft.price && nft.listing_id ? [
+            <Tooltip key="cart" title={inCart ? 'Remove from cart' : 'Add to cart'}>
+              <Button
+                type={inCart ? 'primary' : 'text'}
+                size="small"
+                icon={inCart ? <CheckOutlined /> : <ShoppingCartOutlined />}
+                onClick={handleCartToggle}
+              />
+            </Tooltip>,
+          ] : []),
         ]}
       >
         <Meta 
@@ -153,7 +209,25 @@ const NFTCard: React.FC<NFTCardProps> = ({ nft }) => {
           } 
           description={
             <Space direction="vertical" size="small">
-              <Text type="secondary">{`Collection: ${safeCollectionName}`}</Text>
+              {nft.collection_id ? (
+                <Text type="secondary">
+                  Collection: <Link to={`/collection/${encodeURIComponent(nft.collection_id)}`}>{safeCollectionName}</Link>
+                </Text>
+              ) : (
+                <Text type="secondary">{`Collection: ${safeCollectionName}`}</Text>
+              )}
+              {nft.rarity_rank !== undefined && (
+                <Tooltip
+                  title={`Rarity score ${nft.rarity_score?.toFixed(2)} · statistical rank #${nft.rarity_statistical_rank}`}
+                >
+                  <Tag color="gold">{`Rarity #${nft.rarity_rank}${nft.rarity_total ? ` / ${nft.rarity_total}` : ''}`}</Tag>
+                </Tooltip>
+              )}
+              {nft.listing_count !== undefined && nft.listing_count > 1 && (
+                <Tooltip title={`Cheapest of ${nft.listing_count} listings across marketplaces`}>
+                  <Tag color="green">{`Best of ${nft.listing_count} listings`}</Tag>
+                </Tooltip>
+              )}
               {nft.last_sold_at && (
                 <Text type="secondary">
                   Last sold: {new Date(nft.last_sold_at).toLocaleDateString()}
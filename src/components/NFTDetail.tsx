@@ -3,7 +3,18 @@ import { useParams, Link } from 'react-router-dom';
 import { Row, Col, Card, Typography, Descriptions, Tag, Spin, Button, Table, Empty, message } from 'antd';
 import { ArrowLeftOutlined } from '@ant-design/icons';
 import { fetchNFTDetails } from '../lib/api';
-import { NFT } from '../types';
+import { rarityService, fetchTokenActivity, fetchTokenOffers } from '../lib/ApiConfig';
+import { findLastSale } from '../lib/TokenActivity';
+import { calculatePriceBreakdown } from '../lib/MarketplaceFees';
+import { MarketplaceOffer, NFT, PurchaseResult, TokenActivity } from '../types';
+import BuyNowButton from './BuyNowButton';
+import TokenActivityTimeline from './TokenActivityTimeline';
+import ListingComparison from './ListingComparison';
+import PriceHistoryChart from './PriceHistoryChart';
+import MakeOfferButton from './MakeOfferButton';
+import WatchButton from './WatchButton';
+import CreateAlertButton from './CreateAlertButton';
+import OffersTable from './OffersTable';
 
 const { Title, Text } = Typography;
 
@@ -11,31 +22,81 @@ const NFTDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [nft, setNft] = useState<NFT | null>(null);
   const [loading, setLoading] = useState(true);
+  const [activity, setActivity] = useState<TokenActivity[]>([]);
+  const [activityLoading, setActivityLoading] = useState(true);
+  const [offers, setOffers] = useState<MarketplaceOffer[]>([]);
+  const [offersLoading, setOffersLoading] = useState(true);
 
-  useEffect(() => {
-    const loadNFTDetails = async () => {
-      if (!id) return;
+  // Load the token's timeline and fill in its last sale from it
+  const loadActivity = async (tokenDataId: string) => {
+    setActivityLoading(true);
+    const result = await fetchTokenActivity(tokenDataId);
+    setActivity(result);
+    setActivityLoading(false);
+
+    const lastSale = findLastSale(result);
+    if (lastSale) {
+      setNft((current) => (current?.id === tokenDataId ? {
+        ...current,
+        last_sold_at: new Date(lastSale.timestamp).toISOString(),
+        lastPrice: { amount: lastSale.price_apt as number, currency: 'APT' },
+      } : current));
+    }
+  };
+
+  // Offers on this token plus bids on its whole collection
+  const loadOffers = async (tokenDataId: string, collectionId?: string) => {
+    setOffersLoading(true);
+    setOffers(await fetchTokenOffers(tokenDataId, collectionId));
+    setOffersLoading(false);
+  };
+
+  const loadNFTDetails = async () => {
+    if (!id) return;
+    
+    setLoading(true);
+    try {
+      const data = await fetchNFTDetails(id);
       
-      setLoading(true);
-      try {
-        const data = await fetchNFTDetails(id);
-        
-        if (data) {
-          setNft(data);
-        } else {
-          message.error('NFT not found');
-        }
-      } catch (error) {
-        console.error('Failed to load NFT details:', error);
-        message.error('Failed to load NFT details');
-      } finally {
-        setLoading(false);
+      if (data) {
+        setNft(data);
+        // Rarity needs the whole collection, so fill it in once it is ready
+        rarityService.applyRarity([data]).then(([ranked]) => {
+          if (ranked.rarity_rank !== undefined) {
+            setNft((current) => (current?.id === ranked.id ? { ...current, ...ranked } : current));
+          }
+        });
+        loadActivity(data.id);
+        loadOffers(data.id, data.collection_id);
+      } else {
+        message.error('NFT not found');
       }
-    };
+    } catch (error) {
+      console.error('Failed to load NFT details:', error);
+      message.error('Failed to load NFT details');
+    } finally {
+      setLoading(false);
+    }
+  };
 
+  useEffect(() => {
     loadNFTDetails();
   }, [id]);
 
+  // Reload after a successful purchase so the listing and owner are up to date
+  const handlePurchased = (result: PurchaseResult) => {
+    if (result.success) {
+      loadNFTDetails();
+    }
+  };
+
+  // Refresh the offers once an offer was placed or cancelled
+  const handleOffersChanged = (result: PurchaseResult) => {
+    if (result.success && nft) {
+      loadOffers(nft.id, nft.collection_id);
+    }
+  };
+
   if (loading) {
     return (
       <div style={{ textAlign: 'center', padding: '50px' }}>
@@ -57,6 +118,10 @@ const NFTDetail: React.FC = () => {
     );
   }
 
+  const priceBreakdown = nft.price
+    ? calculatePriceBreakdown(nft.price.amount, nft.marketplace_id || '', nft.royalty_bps || 0)
+    : null;
+
   // Generate property data for the table
   const propertyData = nft.token_properties 
     ? Object.entries(nft.token_properties).map(([key, value]) => ({
@@ -95,15 +160,44 @@ const NFTDetail: React.FC = () => {
             )}
             
             <Descriptions column={1} bordered style={{ marginTop: 16 }}>
-              <Descriptions.Item label="Collection">{nft.collection_name}</Descriptions.Item>
+              <Descriptions.Item label="Collection">
+                {nft.collection_id ? (
+                  <Link to={`/collection/${encodeURIComponent(nft.collection_id)}`}>{nft.collection_name}</Link>
+                ) : nft.collection_name}
+              </Descriptions.Item>
+              {nft.rarity_rank !== undefined && (
+                <Descriptions.Item label="Rarity">
+                  <Tag color="gold">{`#${nft.rarity_rank}${nft.rarity_total ? ` of ${nft.rarity_total}` : ''}`}</Tag>
+                  <Text type="secondary">
+                    {`Score ${nft.rarity_score?.toFixed(2)} · statistical rank #${nft.rarity_statistical_rank}`}
+                  </Text>
+                </Descriptions.Item>
+              )}
               <Descriptions.Item label="Seller">{nft.owner_address}</Descriptions.Item>
               {nft.price && (
                 <Descriptions.Item label="Price">
                   {`${nft.price.amount} ${nft.price.currency}`}
                 </Descriptions.Item>
               )}
+              {priceBreakdown && (
+                <Descriptions.Item label="All-in Cost">
+                  <Text strong>{`${Number(priceBreakdown.buyer_cost_apt.toFixed(4))} APT`}</Text>
+                  {priceBreakdown.taker_fee_apt > 0 && (
+                    <Text type="secondary">{` (incl. ${Number(priceBreakdown.taker_fee_apt.toFixed(4))} APT fee)`}</Text>
+                  )}
+                </Descriptions.Item>
+              )}
+              {priceBreakdown && (
+                <Descriptions.Item label="Seller Receives">
+                  {`${Number(priceBreakdown.seller_net_apt.toFixed(4))} APT`}
+                  <Text type="secondary">
+                    {` after ${Number(priceBreakdown.maker_fee_apt.toFixed(4))} APT marketplace fee and ${(priceBreakdown.royalty_bps / 100).toFixed(2)}% creator royalty`}
+                  </Text>
+                </Descriptions.Item>
+              )}
               {nft.last_sold_at && (
                 <Descriptions.Item label="Last Sold">
+                  {nft.lastPrice && <Text strong>{`${nft.lastPrice.amount.toFixed(2)} ${nft.lastPrice.currency} · `}</Text>}
                   {new Date(nft.last_sold_at).toLocaleString()}
                 </Descriptions.Item>
               )}
@@ -111,10 +205,52 @@ const NFTDetail: React.FC = () => {
                 {new Date(nft.created_at).toLocaleString()}
               </Descriptions.Item>
             </Descriptions>
+
+            <div style={{ marginTop: 16 }}>
+              <BuyNowButton nft={nft} onPurchased={handlePurchased} />
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <MakeOfferButton kind="token" tokenDataId={nft.id} name={nft.name} onOfferMade={handleOffersChanged} />
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <WatchButton
+                item={{
+                  kind: 'token',
+                  id: nft.id,
+                  name: nft.name,
+                  collection_id: nft.collection_id,
+                  collection_name: nft.collection_name,
+                  image_url: nft.image_url,
+                }}
+                size="middle"
+                showLabel
+              />
+            </div>
+            <div style={{ marginTop: 8 }}>
+              <CreateAlertButton tokenDataId={nft.id} tokenName={nft.name} />
+            </div>
           </Card>
         </Col>
       </Row>
       
+      {nft.listings && nft.listings.length > 1 && (
+        <div style={{ marginTop: 24 }}>
+          <ListingComparison nft={nft} onPurchased={handlePurchased} />
+        </div>
+      )}
+
+      <div style={{ marginTop: 24 }}>
+        <OffersTable title="Offers" offers={offers} loading={offersLoading} onCancelled={handleOffersChanged} />
+      </div>
+
+      <div style={{ marginTop: 24 }}>
+        <PriceHistoryChart tokenDataId={nft.id} title="Sale History" />
+      </div>
+
+      <div style={{ marginTop: 24 }}>
+        <TokenActivityTimeline activity={activity} loading={activityLoading} />
+      </div>
+
       {propertyData.length > 0 && (
         <Card title="Properties" style={{ marginTop: 24 }}>
           <Table 
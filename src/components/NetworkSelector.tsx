@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Select } from 'antd';
+import { GlobalOutlined } from '@ant-design/icons';
+import { switchNetwork } from '../lib/ApiConfig';
+import { AppNetwork, NETWORK_PROFILES, getActiveNetwork, subscribeToNetwork } from '../lib/NetworkProfiles';
+
+const { Option } = Select;
+
+/**
+ * Track the network the app is currently using
+ * Re-renders the caller whenever the network is switched
+ */
+export function useActiveNetwork(): AppNetwork {
+  const [network, setNetwork] = useState<AppNetwork>(getActiveNetwork());
+
+  useEffect(() => subscribeToNetwork(setNetwork), []);
+
+  return network;
+}
+
+const NetworkSelector: React.FC = () => {
+  const activeNetwork = useActiveNetwork();
+
+  return (
+    <Select
+      value={activeNetwork}
+      onChange={(value: AppNetwork) => switchNetwork(value)}
+      style={{ width: 130 }}
+      suffixIcon={<GlobalOutlined />}
+    >
+      {Object.values(NETWORK_PROFILES).map((profile) => (
+        <Option key={profile.name} value={profile.name}>
+          {profile.label}
+        </Option>
+      ))}
+    </Select>
+  );
+};
+
+export default NetworkSelector;
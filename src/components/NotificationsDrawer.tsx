@@ -0,0 +1,134 @@
+import React from 'react';
+import { Drawer, List, Button, Typography, Tabs, Switch, Space, Empty, Alert, Badge, Tooltip } from 'antd';
+import { DeleteOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { describeAlertRule } from '../lib/AlertRules';
+import { AlertNotification, AlertRule } from '../types';
+import { useAlerts } from './AlertsProvider';
+import CreateAlertButton from './CreateAlertButton';
+
+const { Text } = Typography;
+
+/**
+ * Notification history and alert rules, opened from the header bell
+ */
+const NotificationsDrawer: React.FC = () => {
+  const {
+    rules,
+    notifications,
+    unreadCount,
+    isDrawerOpen,
+    closeDrawer,
+    updateRule,
+    removeRule,
+    markAllRead,
+    clearNotifications,
+    browserPermission,
+    requestBrowserPermission,
+  } = useAlerts();
+
+  // Closing the drawer marks what was shown as read
+  const handleClose = () => {
+    if (unreadCount > 0) markAllRead();
+    closeDrawer();
+  };
+
+  const renderNotification = (item: AlertNotification) => (
+    <List.Item>
+      <List.Item.Meta
+        title={
+          <Space>
+            {!item.read && <Badge status="processing" />}
+            {item.link ? <Link to={item.link} onClick={handleClose}>{item.title}</Link> : item.title}
+          </Space>
+        }
+        description={
+          <Space direction="vertical" size={0}>
+            <Text>{item.message}</Text>
+            <Text type="secondary">{new Date(item.timestamp).toLocaleString()}</Text>
+          </Space>
+        }
+      />
+    </List.Item>
+  );
+
+  const renderRule = (rule: AlertRule) => (
+    <List.Item
+      actions={[
+        <Switch
+          key="enabled"
+          size="small"
+          checked={rule.enabled}
+          onChange={(enabled) => updateRule(rule.id, { enabled })}
+        />,
+        <Tooltip key="remove" title="Delete rule">
+          <Button type="text" size="small" icon={<DeleteOutlined />} onClick={() => removeRule(rule.id)} />
+        </Tooltip>,
+      ]}
+    >
+      <Text type={rule.enabled ? undefined : 'secondary'}>{describeAlertRule(rule)}</Text>
+    </List.Item>
+  );
+
+  return (
+    <Drawer title="Notifications" placement="right" width={420} open={isDrawerOpen} onClose={handleClose}>
+      {browserPermission === 'default' && rules.length > 0 && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="Get alerts while this tab is in the background"
+          action={<Button size="small" onClick={requestBrowserPermission}>Enable</Button>}
+        />
+      )}
+
+      <Tabs
+        items={[
+          {
+            key: 'notifications',
+            label: `Notifications${unreadCount > 0 ? ` (${unreadCount})` : ''}`,
+            children: (
+              <>
+                <Space style={{ marginBottom: 8 }}>
+                  <Button size="small" onClick={markAllRead} disabled={unreadCount === 0}>
+                    Mark all read
+                  </Button>
+                  <Button size="small" onClick={clearNotifications} disabled={notifications.length === 0}>
+                    Clear
+                  </Button>
+                </Space>
+                <List
+                  dataSource={notifications}
+                  renderItem={renderNotification}
+                  locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No notifications yet" /> }}
+                />
+              </>
+            ),
+          },
+          {
+            key: 'rules',
+            label: `Alert rules (${rules.length})`,
+            children: (
+              <>
+                <Space direction="vertical" style={{ width: '100%', marginBottom: 8 }}>
+                  <Text type="secondary">
+                    Create collection and token alerts from their pages. Enabled rules are checked every minute while the
+                    app is open.
+                  </Text>
+                  <CreateAlertButton size="small" />
+                </Space>
+                <List
+                  dataSource={rules}
+                  renderItem={renderRule}
+                  locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No alert rules" /> }}
+                />
+              </>
+            ),
+          },
+        ]}
+      />
+    </Drawer>
+  );
+};
+
+export default NotificationsDrawer;
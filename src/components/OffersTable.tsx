@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Table, Tag, Typography, Button, Popconfirm, Empty, message } from 'antd';
+import { TagsOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { offerService } from '../lib/ApiConfig';
+import { MarketplaceOffer, PurchaseResult } from '../types';
+
+const { Text } = Typography;
+
+interface OffersTableProps {
+  title: string;
+  offers: MarketplaceOffer[];
+  loading: boolean;
+  showTarget?: boolean;  // Show which token or collection each offer is for
+  onCancelled?: (result: PurchaseResult) => void;
+}
+
+// Shorten an address for the table, e.g. 0x1234...abcd
+const shortAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+/**
+ * Active offers, with a cancel button on the connected account's own offers
+ */
+const OffersTable: React.FC<OffersTableProps> = ({ title, offers, loading, showTarget, onCancelled }) => {
+  const { account, signAndSubmitTransaction } = useWallet();
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const handleCancel = async (offer: MarketplaceOffer) => {
+    setCancellingId(offer.offer_id);
+    const result = await offerService.cancelOffer({ offer, signAndSubmitTransaction });
+    setCancellingId(null);
+
+    if (result.success) {
+      message.success('Offer cancelled');
+    } else {
+      message.error(result.error || 'Cancelling the offer failed');
+    }
+    onCancelled?.(result);
+  };
+
+  const isOwnOffer = (offer: MarketplaceOffer): boolean =>
+    !!account && account.address.toLowerCase() === offer.buyer.toLowerCase();
+
+  const columns = [
+    ...(showTarget ? [{
+      title: 'Item',
+      key: 'target',
+      render: (_: unknown, record: MarketplaceOffer) => record.kind === 'token' && record.token_data_id ? (
+        <Link to={`/nft/${encodeURIComponent(record.token_data_id)}`}>{record.token_name || shortAddress(record.token_data_id)}</Link>
+      ) : record.collection_id ? (
+        <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>
+          {record.collection_name || shortAddress(record.collection_id)}
+        </Link>
+      ) : '-',
+    }] : []),
+    {
+      title: 'Type',
+      dataIndex: 'kind',
+      key: 'kind',
+      render: (kind: MarketplaceOffer['kind']) => (
+        <Tag color={kind === 'token' ? 'blue' : 'purple'}>{kind === 'token' ? 'Token' : 'Collection'}</Tag>
+      ),
+    },
+    {
+      title: 'Price',
+      dataIndex: 'price_apt',
+      key: 'price_apt',
+      render: (price: number) => <Text strong>{`${Number(price.toFixed(4))} APT`}</Text>,
+    },
+    {
+      title: 'Quantity',
+      dataIndex: 'token_amount',
+      key: 'token_amount',
+    },
+    {
+      title: 'Marketplace',
+      dataIndex: 'marketplace',
+      key: 'marketplace',
+    },
+    {
+      title: 'Buyer',
+      dataIndex: 'buyer',
+      key: 'buyer',
+      render: (address: string, record: MarketplaceOffer) => (
+        <span>
+          <Text copyable={{ text: address }}>{shortAddress(address)}</Text>
+          {isOwnOffer(record) && <Tag style={{ marginLeft: 8 }}>You</Tag>}
+        </span>
+      ),
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expires_at',
+      key: 'expires_at',
+      render: (expiresAt?: number) => expiresAt ? new Date(expiresAt).toLocaleString() : '-',
+    },
+    {
+      title: '',
+      key: 'cancel',
+      render: (_: unknown, record: MarketplaceOffer) => isOwnOffer(record) && (
+        <Popconfirm title="Cancel this offer?" onConfirm={() => handleCancel(record)} okText="Cancel offer" cancelText="Keep">
+          <Button danger size="small" loading={cancellingId === record.offer_id}>
+            Cancel
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Card title={<span><TagsOutlined style={{ marginRight: 8 }} />{`${title} (${offers.length})`}</span>}>
+      <Table<MarketplaceOffer>
+        dataSource={offers}
+        columns={columns}
+        rowKey={(record) => `${record.kind}-${record.offer_id}`}
+        loading={loading}
+        pagination={offers.length > 10 ? { pageSize: 10 } : false}
+        size="small"
+        locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No active offers" /> }}
+      />
+    </Card>
+  );
+};
+
+export default OffersTable;
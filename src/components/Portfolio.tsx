@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Row, Col, Card, Statistic, Table, Tag, Avatar, Space, Typography, Select, Spin, Empty, Button, Alert } from 'antd';
+import { ArrowLeftOutlined, WalletOutlined, DollarOutlined, AppstoreOutlined, TagOutlined } from '@ant-design/icons';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { fetchPortfolio, fetchPortfolioHistory, getBaseMarketplaceName } from '../lib/api';
+import { fetchAptUsdPrice } from '../lib/PriceFeed';
+import { Portfolio as PortfolioData, PortfolioCollection, PortfolioHolding, PortfolioValuePoint, TimePeriod } from '../types';
+import ProfitAndLossPanel from './ProfitAndLossPanel';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+// Short periods show times, longer ones show dates
+const formatTick = (timestamp: number, timePeriod: TimePeriod): string => {
+  const date = new Date(timestamp);
+  return timePeriod === '7d' || timePeriod === '30d'
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * The connected account's NFTs valued at collection floors
+ */
+const Portfolio: React.FC = () => {
+  const { account, connected } = useWallet();
+  const address = account?.address;
+  const [portfolio, setPortfolio] = useState<PortfolioData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [aptUsdPrice, setAptUsdPrice] = useState<number | null>(null);
+  const [timePeriod, setTimePeriod] = useState<TimePeriod>('7d');
+  const [history, setHistory] = useState<PortfolioValuePoint[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  useEffect(() => {
+    if (!address) {
+      setPortfolio(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPortfolio = async () => {
+      setLoading(true);
+      try {
+        const [result, usd] = await Promise.all([fetchPortfolio(address), fetchAptUsdPrice()]);
+        if (!cancelled) {
+          setPortfolio(result);
+          setAptUsdPrice(usd);
+        }
+      } catch (error) {
+        console.error('Failed to load portfolio:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadPortfolio();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  // The value chart follows the loaded portfolio and the chosen period
+  useEffect(() => {
+    if (!portfolio) {
+      setHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    fetchPortfolioHistory(portfolio, timePeriod).then((points) => {
+      if (!cancelled) {
+        setHistory(points);
+        setHistoryLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolio, timePeriod]);
+
+  if (!connected || !address) {
+    return (
+      <Card>
+        <Empty description="Connect your wallet to see your portfolio" />
+      </Card>
+    );
+  }
+
+  if (loading || !portfolio) {
+    return (
+      <div style={{ textAlign: 'center', padding: '50px' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  const holdingColumns = [
+    {
+      title: 'NFT',
+      key: 'nft',
+      render: (_: unknown, record: PortfolioHolding) => (
+        <Space>
+          <Avatar shape="square" size={40} src={record.image_url} />
+          <Link to={`/nft/${encodeURIComponent(record.id)}`}>{record.name}</Link>
+        </Space>
+      ),
+    },
+    { title: 'Amount', dataIndex: 'amount', key: 'amount' },
+    {
+      title: 'Value',
+      dataIndex: 'value_apt',
+      key: 'value_apt',
+      render: (value?: number) => value !== undefined ? formatApt(value) : <Text type="secondary">No floor</Text>,
+    },
+    {
+      title: 'Listed',
+      key: 'listed',
+      render: (_: unknown, record: PortfolioHolding) => record.owner_listings.length === 0
+        ? <Text type="secondary">Not listed</Text>
+        : (
+          <Space wrap size={4}>
+            {record.owner_listings.map((listing) => (
+              <Tag key={listing.listing_id} color="blue">
+                <Link to={`/marketplace/${encodeURIComponent(getBaseMarketplaceName(listing.marketplace_id))}`}>
+                  {`${listing.marketplace} · ${formatApt(listing.price_apt)}`}
+                </Link>
+              </Tag>
+            ))}
+          </Space>
+        ),
+    },
+  ];
+
+  const collectionColumns = [
+    {
+      title: 'Collection',
+      dataIndex: 'collection_name',
+      key: 'collection_name',
+      render: (name: string, record: PortfolioCollection) => record.collection_id
+        ? <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>{name}</Link>
+        : name,
+    },
+    { title: 'Tokens', dataIndex: 'token_count', key: 'token_count' },
+    {
+      title: 'Floor',
+      dataIndex: 'floor_price_apt',
+      key: 'floor_price_apt',
+      render: (floor?: number) => floor !== undefined ? formatApt(floor) : <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'Value',
+      dataIndex: 'value_apt',
+      key: 'value_apt',
+      render: (value: number, record: PortfolioCollection) => (
+        record.floor_price_apt !== undefined ? <Text strong>{formatApt(value)}</Text> : <Text type="secondary">-</Text>
+      ),
+    },
+    {
+      title: 'Listed',
+      key: 'listed',
+      render: (_: unknown, record: PortfolioCollection) =>
+        record.holdings.filter((holding) => holding.owner_listings.length > 0).length,
+    },
+  ];
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Row gutter={[24, 24]} className="stat-cards">
+        <Col xs={24} sm={12} md={6}>
+          <Card>
+            <Statistic
+              title="Portfolio Value"
+              value={portfolio.total_value_apt}
+              precision={2}
+              suffix="APT"
+              prefix={<WalletOutlined />}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Card>
+            <Statistic
+              title="Value in USD"
+              value={aptUsdPrice !== null ? portfolio.total_value_apt * aptUsdPrice : '-'}
+              precision={aptUsdPrice !== null ? 2 : undefined}
+              prefix={<DollarOutlined />}
+            />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Card>
+            <Statistic title="NFTs" value={portfolio.token_count} prefix={<AppstoreOutlined />} />
+          </Card>
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Card>
+            <Statistic title="Listed" value={portfolio.listed_count} prefix={<TagOutlined />} />
+          </Card>
+        </Col>
+      </Row>
+
+      {portfolio.unvalued_count > 0 && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginTop: 24 }}
+          message={`${portfolio.unvalued_count} NFT${portfolio.unvalued_count === 1 ? '' : 's'} in collections with no active listings are not included in the value.`}
+        />
+      )}
+
+      <Card
+        title="Portfolio Value"
+        style={{ marginTop: 24 }}
+        extra={
+          <Select value={timePeriod} onChange={setTimePeriod} style={{ width: 100 }}>
+            <Option value="24h">24h</Option>
+            <Option value="7d">7 days</Option>
+            <Option value="30d">30 days</Option>
+          </Select>
+        }
+      >
+        {historyLoading ? (
+          <div style={{ textAlign: 'center', padding: '24px' }}>
+            <Spin />
+          </div>
+        ) : history.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No floor history for your collections" />
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={280}>
+              <AreaChart data={history} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(value) => formatTick(value, timePeriod)}
+                />
+                <YAxis tickFormatter={(value) => `${Number(value.toFixed(2))}`} />
+                <Tooltip
+                  labelFormatter={(value) => new Date(value as number).toLocaleString()}
+                  formatter={(value) => [formatApt(Number(value)), 'Value']}
+                />
+                <Area type="monotone" dataKey="value_apt" stroke="#1677ff" fill="#1677ff" fillOpacity={0.15} />
+              </AreaChart>
+            </ResponsiveContainer>
+            <Text type="secondary">
+              Current holdings valued at each collection's lowest recent sale; the last point uses today's listed floor.
+            </Text>
+          </>
+        )}
+      </Card>
+
+      <Card title="Collections" style={{ marginTop: 24 }}>
+        <Table<PortfolioCollection>
+          dataSource={portfolio.collections}
+          columns={collectionColumns}
+          rowKey={(record) => record.collection_id || record.collection_name}
+          size="small"
+          expandable={{
+            expandedRowRender: (record) => (
+              <Table<PortfolioHolding>
+                dataSource={record.holdings}
+                columns={holdingColumns}
+                rowKey="id"
+                pagination={false}
+                size="small"
+              />
+            ),
+          }}
+          locale={{ emptyText: <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No NFTs in this wallet" /> }}
+        />
+      </Card>
+
+      <ProfitAndLossPanel portfolio={portfolio} aptUsdPrice={aptUsdPrice} />
+    </div>
+  );
+};
+
+export default Portfolio;
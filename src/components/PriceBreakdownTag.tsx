@@ -0,0 +1,40 @@
+import React from 'react';
+import { Tooltip, Typography } from 'antd';
+import { calculatePriceBreakdown } from '../lib/MarketplaceFees';
+import { NFT } from '../types';
+
+const { Text } = Typography;
+
+interface PriceBreakdownTagProps {
+  nft: NFT;
+}
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+/**
+ * Listing price with the buyer's all-in cost and the seller's net proceeds on hover
+ */
+const PriceBreakdownTag: React.FC<PriceBreakdownTagProps> = ({ nft }) => {
+  if (!nft.price) {
+    return <Text type="secondary">Not for sale</Text>;
+  }
+
+  const breakdown = calculatePriceBreakdown(nft.price.amount, nft.marketplace_id || '', nft.royalty_bps || 0);
+
+  return (
+    <Tooltip
+      title={
+        <div>
+          <div>{`All-in cost: ${formatApt(breakdown.buyer_cost_apt)}`}</div>
+          <div>{`Marketplace fee: ${formatApt(breakdown.maker_fee_apt + breakdown.taker_fee_apt)}`}</div>
+          <div>{`Creator royalty: ${formatApt(breakdown.royalty_apt)} (${(breakdown.royalty_bps / 100).toFixed(2)}%)`}</div>
+          <div>{`Seller receives: ${formatApt(breakdown.seller_net_apt)}`}</div>
+        </div>
+      }
+    >
+      <Text strong>{formatApt(breakdown.buyer_cost_apt)}</Text>
+    </Tooltip>
+  );
+};
+
+export default PriceBreakdownTag;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Card, Select, Spin, Empty, Typography, Alert } from 'antd';
+import { LineChartOutlined } from '@ant-design/icons';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { fetchPriceHistory } from '../lib/ApiConfig';
+import { PriceHistory, TimePeriod } from '../types';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+interface PriceHistoryChartProps {
+  tokenDataId?: string;
+  collectionId?: string;
+  title?: string;
+  defaultTimePeriod?: TimePeriod;
+}
+
+// Short periods show times, longer ones show dates
+const formatTick = (timestamp: number, timePeriod: TimePeriod): string => {
+  const date = new Date(timestamp);
+  return timePeriod === '7d' || timePeriod === '30d'
+    ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Sales, rolling floor and volume of a token or collection over a time period
+ */
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({
+  tokenDataId,
+  collectionId,
+  title = 'Price History',
+  defaultTimePeriod = '7d',
+}) => {
+  const [timePeriod, setTimePeriod] = useState<TimePeriod>(defaultTimePeriod);
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      const result = await fetchPriceHistory({ tokenDataId, collectionId }, timePeriod);
+      if (!cancelled) {
+        setHistory(result);
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenDataId, collectionId, timePeriod]);
+
+  return (
+    <Card
+      title={<span><LineChartOutlined style={{ marginRight: 8 }} />{title}</span>}
+      extra={
+        <Select style={{ width: 120 }} value={timePeriod} onChange={setTimePeriod}>
+          <Option value="1h">1 Hour</Option>
+          <Option value="6h">6 Hours</Option>
+          <Option value="24h">24 Hours</Option>
+          <Option value="7d">7 Days</Option>
+          <Option value="30d">30 Days</Option>
+        </Select>
+      }
+    >
+      {loading || !history ? (
+        <div style={{ textAlign: 'center', padding: '50px' }}>
+          <Spin />
+        </div>
+      ) : history.sales.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No sales in this period" />
+      ) : (
+        <>
+          {history.truncated && (
+            <Alert
+              type="info"
+              showIcon
+              style={{ marginBottom: 16 }}
+              message={`Showing the latest ${history.sales.length} sales; older sales in this period are not charted.`}
+            />
+          )}
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={history.buckets} margin={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={[history.start, history.end]}
+                tickFormatter={(value: number) => formatTick(value, timePeriod)}
+              />
+              <YAxis yAxisId="price" tickFormatter={(value: number) => `${value}`} label={{ value: 'APT', angle: -90, position: 'insideLeft' }} />
+              <YAxis yAxisId="volume" orientation="right" tickFormatter={(value: number) => `${value}`} />
+              <Tooltip
+                labelFormatter={(value: number) => new Date(value).toLocaleString()}
+                formatter={(value: number, name: string) => [`${Number(value).toFixed(2)} APT`, name]}
+              />
+              <Legend />
+              <Bar yAxisId="volume" dataKey="volume_apt" name="Volume" fill="#d6e4ff" barSize={8} />
+              <Line
+                yAxisId="price"
+                type="stepAfter"
+                dataKey="floor_price_apt"
+                name="Rolling Floor"
+                stroke="#fa8c16"
+                dot={false}
+                connectNulls
+              />
+              <Scatter yAxisId="price" data={history.sales} dataKey="price_apt" name="Sale" fill="#1677ff" />
+            </ComposedChart>
+          </ResponsiveContainer>
+          <Text type="secondary">
+            {`${history.sales.length} sale(s), ${history.buckets.reduce((sum, bucket) => sum + bucket.volume_apt, 0).toFixed(2)} APT volume`}
+          </Text>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Row, Col, Statistic, Radio, Tabs, Table, Select, Button, Space, Tag, Typography, Alert, Spin } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import { fetchWalletTradeHistory } from '../lib/api';
+import { buildTaxReportCsv, computeProfitAndLoss, taxYears } from '../lib/ProfitAndLoss';
+import { CostBasisMethod, OpenLot, Portfolio, RealizedLot, WalletTradeHistory } from '../types';
+
+const { Text } = Typography;
+
+interface ProfitAndLossPanelProps {
+  portfolio: Portfolio;
+  aptUsdPrice: number | null;
+}
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+const formatUsd = (amount: number | undefined): string =>
+  amount !== undefined ? `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-';
+const formatDate = (timestamp: number | undefined): string =>
+  timestamp !== undefined ? new Date(timestamp).toLocaleDateString() : '-';
+
+// Gains in green, losses in red
+const Gain: React.FC<{ value: number | undefined; format: (value: number) => string }> = ({ value, format }) =>
+  value === undefined
+    ? <Text type="secondary">-</Text>
+    : <Text type={value < 0 ? 'danger' : 'success'}>{format(value)}</Text>;
+
+const TokenLink: React.FC<{ id: string; name?: string }> = ({ id, name }) => (
+  <Link to={`/nft/${encodeURIComponent(id)}`}>{name || `${id.slice(0, 8)}...`}</Link>
+);
+
+/**
+ * Realized and unrealized profit and loss of a wallet, with a CSV export per tax year
+ */
+const ProfitAndLossPanel: React.FC<ProfitAndLossPanelProps> = ({ portfolio, aptUsdPrice }) => {
+  const [history, setHistory] = useState<WalletTradeHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [method, setMethod] = useState<CostBasisMethod>('fifo');
+  const [year, setYear] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchWalletTradeHistory(portfolio.owner)
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((error) => {
+        console.error('Failed to load wallet trades:', error);
+        if (!cancelled) setHistory(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolio.owner]);
+
+  const pnl = useMemo(
+    () => (history ? computeProfitAndLoss(history, method, portfolio, aptUsdPrice) : null),
+    [history, method, portfolio, aptUsdPrice]
+  );
+  const years = pnl ? taxYears(pnl) : [];
+  const selectedYear = year !== undefined && years.includes(year) ? year : years[0];
+
+  const handleExport = () => {
+    // A report missing the latest trades would understate or misstate the year's gains
+    if (!pnl || selectedYear === undefined || history?.truncated) return;
+
+    const csv = buildTaxReportCsv(pnl, selectedYear);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `nft-pnl-${selectedYear}-${method}-${portfolio.owner.slice(0, 8)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <Card title="Profit & Loss" style={{ marginTop: 24 }}>
+        <div style={{ textAlign: 'center', padding: '24px' }}>
+          <Spin />
+        </div>
+      </Card>
+    );
+  }
+
+  if (!pnl || !history) {
+    return null;
+  }
+
+  const realizedColumns = [
+    { title: 'Sold', dataIndex: 'sold_at', key: 'sold_at', render: formatDate },
+    {
+      title: 'Token',
+      key: 'token',
+      render: (_: unknown, record: RealizedLot) => (
+        <Space size={4}>
+          <TokenLink id={record.token_data_id} name={record.token_name} />
+          {record.basis_missing && <Tag color="orange">No purchase found</Tag>}
+        </Space>
+      ),
+    },
+    { title: 'Acquired', dataIndex: 'acquired_at', key: 'acquired_at', render: formatDate },
+    { title: 'Cost', dataIndex: 'cost_apt', key: 'cost_apt', render: formatApt },
+    { title: 'Proceeds', dataIndex: 'proceeds_apt', key: 'proceeds_apt', render: formatApt },
+    { title: 'Gain (APT)', dataIndex: 'gain_apt', key: 'gain_apt', render: (value: number) => <Gain value={value} format={formatApt} /> },
+    { title: 'Gain (USD)', dataIndex: 'gain_usd', key: 'gain_usd', render: (value?: number) => <Gain value={value} format={formatUsd} /> },
+  ];
+
+  const openColumns = [
+    { title: 'Acquired', dataIndex: 'acquired_at', key: 'acquired_at', render: formatDate },
+    { title: 'Token', key: 'token', render: (_: unknown, record: OpenLot) => <TokenLink id={record.token_data_id} name={record.token_name} /> },
+    { title: 'Collection', dataIndex: 'collection_name', key: 'collection_name' },
+    { title: 'Cost', dataIndex: 'cost_apt', key: 'cost_apt', render: formatApt },
+    {
+      title: 'Floor',
+      dataIndex: 'value_apt',
+      key: 'value_apt',
+      render: (value?: number) => (value !== undefined ? formatApt(value) : <Text type="secondary">No floor</Text>),
+    },
+    { title: 'Gain (APT)', dataIndex: 'gain_apt', key: 'gain_apt', render: (value?: number) => <Gain value={value} format={formatApt} /> },
+    { title: 'Gain (USD)', dataIndex: 'gain_usd', key: 'gain_usd', render: (value?: number) => <Gain value={value} format={formatUsd} /> },
+  ];
+
+  return (
+    <Card
+      title="Profit & Loss"
+      style={{ marginTop: 24 }}
+      extra={
+        <Radio.Group value={method} onChange={(event) => setMethod(event.target.value)} optionType="button" size="small">
+          <Radio.Button value="fifo">FIFO</Radio.Button>
+          <Radio.Button value="specific_id">Specific ID</Radio.Button>
+        </Radio.Group>
+      }
+    >
+      {history.truncated && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="This wallet has more trades than were loaded; the oldest trades are included and later ones are missing, so the tax report cannot be exported."
+        />
+      )}
+
+      <Row gutter={[24, 24]}>
+        <Col xs={24} sm={12} md={6}>
+          <Statistic title="Realized (APT)" value={pnl.realized_gain_apt} precision={2} suffix="APT" />
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Statistic
+            title="Realized (USD)"
+            value={pnl.realized_gain_usd !== undefined ? pnl.realized_gain_usd : '-'}
+            precision={pnl.realized_gain_usd !== undefined ? 2 : undefined}
+            prefix={pnl.realized_gain_usd !== undefined ? '$' : undefined}
+          />
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Statistic title="Unrealized (APT)" value={pnl.unrealized_gain_apt} precision={2} suffix="APT" />
+        </Col>
+        <Col xs={24} sm={12} md={6}>
+          <Statistic
+            title="Unrealized (USD)"
+            value={pnl.unrealized_gain_usd !== undefined ? pnl.unrealized_gain_usd : '-'}
+            precision={pnl.unrealized_gain_usd !== undefined ? 2 : undefined}
+            prefix={pnl.unrealized_gain_usd !== undefined ? '$' : undefined}
+          />
+        </Col>
+      </Row>
+
+      <Text type="secondary" style={{ display: 'block', marginTop: 8 }}>
+        Costs include buyer fees and proceeds are net of seller fees and creator royalties. USD amounts use the APT rate on the
+        day of each trade; unrealized USD uses today's rate.
+      </Text>
+
+      <Tabs
+        style={{ marginTop: 16 }}
+        items={[
+          {
+            key: 'realized',
+            label: `Realized (${pnl.realized.length})`,
+            children: (
+              <Table<RealizedLot>
+                dataSource={[...pnl.realized].reverse()}
+                columns={realizedColumns}
+                rowKey={(record) => `${record.transaction_version}-${record.token_data_id}`}
+                size="small"
+              />
+            ),
+          },
+          {
+            key: 'open',
+            label: `Unrealized (${pnl.open.length})`,
+            children: (
+              <Table<OpenLot>
+                dataSource={pnl.open}
+                columns={openColumns}
+                rowKey={(record) => `${record.token_data_id}-${record.acquired_at}`}
+                size="small"
+              />
+            ),
+          },
+        ]}
+      />
+
+      <Space style={{ marginTop: 8 }}>
+        <Text>Tax year</Text>
+        <Select
+          value={selectedYear}
+          onChange={setYear}
+          options={years.map((value) => ({ label: String(value), value }))}
+          placeholder="No sales"
+          style={{ width: 110 }}
+          disabled={years.length === 0}
+        />
+        <Button icon={<DownloadOutlined />} onClick={handleExport} disabled={selectedYear === undefined || history.truncated}>
+          Export CSV
+        </Button>
+      </Space>
+    </Card>
+  );
+};
+
+export default ProfitAndLossPanel;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Table, Typography, Button, Space, Alert, Empty, Tag } from 'antd';
+import { LeftOutlined, RightOutlined } from '@ant-design/icons';
+import { fetchRecentSales } from '../lib/ApiConfig';
+import { getExplorerTransactionUrl } from '../lib/NetworkProfiles';
+import { MarketplaceSale } from '../types';
+
+const { Text } = Typography;
+
+interface RecentSalesProps {
+  // Same filters as the listings grid; prices in APT
+  marketplace?: string;
+  collection?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+const PAGE_SIZE = 20;
+
+// Shorten an address for the table, e.g. 0x1234...abcd
+const shortAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+const Address: React.FC<{ address?: string }> = ({ address }) =>
+  address ? <Text copyable={{ text: address }}>{shortAddress(address)}</Text> : <Text type="secondary">-</Text>;
+
+/**
+ * Sales across all marketplaces, newest first, paged by cursor
+ */
+const RecentSales: React.FC<RecentSalesProps> = ({ marketplace, collection, minPrice, maxPrice }) => {
+  const [sales, setSales] = useState<MarketplaceSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [malformedCount, setMalformedCount] = useState(0);
+  // Cursor of every page visited so far; the first page has none
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+
+  // Any filter change starts again from the newest sale
+  useEffect(() => {
+    setCursors([undefined]);
+    setPageIndex(0);
+  }, [marketplace, collection, minPrice, maxPrice]);
+
+  const cursor = cursors[pageIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSales = async () => {
+      setLoading(true);
+      const page = await fetchRecentSales({ marketplace, collection, minPrice, maxPrice, cursor, pageSize: PAGE_SIZE });
+      if (cancelled) return;
+
+      setSales(page.sales);
+      setNextCursor(page.next_cursor);
+      setMalformedCount(page.malformed?.length || 0);
+      setLoading(false);
+    };
+
+    loadSales();
+    return () => {
+      cancelled = true;
+    };
+  }, [marketplace, collection, minPrice, maxPrice, cursor]);
+
+  const handleOlder = () => {
+    if (!nextCursor) return;
+    setCursors((current) => [...current.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex(pageIndex + 1);
+  };
+
+  const handleNewer = () => {
+    setPageIndex(Math.max(0, pageIndex - 1));
+  };
+
+  const columns = [
+    {
+      title: 'Item',
+      key: 'token',
+      render: (_: unknown, record: MarketplaceSale) => (
+        <Link to={`/nft/${encodeURIComponent(record.token_data_id)}`}>
+          {record.token_name || shortAddress(record.token_data_id)}
+        </Link>
+      ),
+    },
+    {
+      title: 'Collection',
+      key: 'collection',
+      render: (_: unknown, record: MarketplaceSale) => record.collection_id ? (
+        <Link to={`/collection/${encodeURIComponent(record.collection_id)}`}>
+          {record.collection_name || shortAddress(record.collection_id)}
+        </Link>
+      ) : record.collection_name || '-',
+    },
+    {
+      title: 'Price',
+      dataIndex: 'price_apt',
+      key: 'price_apt',
+      render: (price: number) => <Text strong>{`${Number(price.toFixed(4))} APT`}</Text>,
+    },
+    {
+      title: 'Marketplace',
+      dataIndex: 'marketplace',
+      key: 'marketplace',
+      render: (name: string) => <Tag>{name}</Tag>,
+    },
+    {
+      title: 'Seller',
+      dataIndex: 'seller',
+      key: 'seller',
+      render: (address?: string) => <Address address={address} />,
+    },
+    {
+      title: 'Buyer',
+      dataIndex: 'buyer',
+      key: 'buyer',
+      render: (address?: string) => <Address address={address} />,
+    },
+    {
+      title: 'Time',
+      key: 'timestamp',
+      render: (_: unknown, record: MarketplaceSale) => (
+        <a href={getExplorerTransactionUrl(record.transaction_version)} target="_blank" rel="noopener noreferrer">
+          {new Date(record.timestamp).toLocaleString()}
+        </a>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      {malformedCount > 0 && (
+        <Alert
+          message={`${malformedCount} sale${malformedCount === 1 ? '' : 's'} skipped because the indexer returned incomplete data`}
+          type="info"
+          showIcon
+          closable
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      <Table<MarketplaceSale>
+        dataSource={sales}
+        columns={columns}
+        rowKey={(record) => `${record.transaction_version}-${record.event_index ?? ''}`}
+        loading={loading}
+        pagination={false}
+        size="small"
+        scroll={{ x: true }}
+        locale={{
+          emptyText: (
+            <Empty
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+              description="No sales found. Try adjusting your filters."
+            />
+          ),
+        }}
+      />
+      <Space style={{ width: '100%', justifyContent: 'center', marginTop: 24 }}>
+        <Button icon={<LeftOutlined />} onClick={handleNewer} disabled={loading || pageIndex === 0}>
+          Newer
+        </Button>
+        <Text type="secondary">{`Page ${pageIndex + 1}`}</Text>
+        <Button onClick={handleOlder} disabled={loading || !nextCursor}>
+          Older <RightOutlined />
+        </Button>
+      </Space>
+    </>
+  );
+};
+
+export default RecentSales;
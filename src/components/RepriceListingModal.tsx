@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, InputNumber, Alert, Steps, Typography, Space, message } from 'antd';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { listingService } from '../lib/ApiConfig';
+import { NFT, PurchaseResult, PurchaseStage } from '../types';
+import ListingProceeds from './ListingProceeds';
+
+const { Text } = Typography;
+
+interface RepriceListingModalProps {
+  listing: NFT | null;  // The seller's listing; the modal is open while set
+  onClose: () => void;
+  onRepriced?: (result: PurchaseResult) => void;
+}
+
+// Cancelling and relisting are two transactions, each signed and confirmed
+const REPRICE_STEPS = ['Check listing', 'Cancel listing', 'List at new price', 'Done'];
+
+/**
+ * Modal for changing the price of one of the connected account's listings
+ */
+const RepriceListingModal: React.FC<RepriceListingModalProps> = ({ listing, onClose, onRepriced }) => {
+  const { account, signAndSubmitTransaction } = useWallet();
+  const [price, setPrice] = useState<number | null>(null);
+  const [step, setStep] = useState(-1);
+  const [failed, setFailed] = useState(false);
+  const [result, setResult] = useState<PurchaseResult | null>(null);
+
+  useEffect(() => {
+    setPrice(listing?.price?.amount ?? null);
+    setStep(-1);
+    setFailed(false);
+    setResult(null);
+  }, [listing?.listing_id]);
+
+  const inProgress = step >= 0 && step < REPRICE_STEPS.length - 1 && !failed;
+
+  const handleClose = () => {
+    if (inProgress) return;
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!account || !listing?.listing_id || !price) return;
+
+    // Each confirmation moves on to the next transaction
+    let confirmations = 0;
+    setFailed(false);
+    setResult(null);
+    setStep(0);
+    const repriceResult = await listingService.repriceListing({
+      listingId: listing.listing_id,
+      seller: account.address,
+      price_apt: price,
+      signAndSubmitTransaction,
+      onStageChange: (stage: PurchaseStage) => {
+        if (stage === 'failed') {
+          setFailed(true);
+        } else if (stage === 'signing' && confirmations === 0) {
+          setStep(1);
+        } else if (stage === 'confirmed') {
+          confirmations += 1;
+          setStep(confirmations === 1 ? 2 : 3);
+        }
+      },
+    });
+
+    setResult(repriceResult);
+    if (repriceResult.success) {
+      message.success(`${listing.name} is now listed for ${price} APT`);
+    } else {
+      message.error(repriceResult.error || 'Repricing failed');
+    }
+    onRepriced?.(repriceResult);
+  };
+
+  return (
+    <Modal
+      title={listing ? `Reprice ${listing.name}` : 'Reprice listing'}
+      open={!!listing}
+      onCancel={handleClose}
+      closable={!inProgress}
+      maskClosable={!inProgress}
+      okText={result?.success ? 'Close' : 'Update price'}
+      onOk={result?.success ? handleClose : handleSubmit}
+      okButtonProps={{ loading: inProgress, disabled: !result?.success && (!price || price === listing?.price?.amount) }}
+      cancelButtonProps={{ disabled: inProgress }}
+      width={640}
+    >
+      {listing && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Text type="secondary">
+            {`Listed on ${listing.marketplace} for ${listing.price?.amount ?? '-'} APT. `}
+            The listing is cancelled and created again, so your wallet asks you to sign twice.
+          </Text>
+          <InputNumber
+            min={0.00000001}
+            step={0.1}
+            value={price}
+            onChange={(value) => setPrice(value)}
+            disabled={inProgress || !!result?.success}
+            addonAfter="APT"
+            style={{ width: '100%' }}
+          />
+          <ListingProceeds
+            tokenDataId={listing.id}
+            collectionId={listing.collection_id}
+            price={price ?? undefined}
+            marketplaces={[{ value: listing.marketplace_id || '', label: listing.marketplace }]}
+            onUseFloor={(floor) => setPrice(floor)}
+          />
+          {step >= 0 && (
+            <Steps
+              size="small"
+              current={step}
+              status={failed ? 'error' : step === REPRICE_STEPS.length - 1 ? 'finish' : 'process'}
+              items={REPRICE_STEPS.map((title) => ({ title }))}
+            />
+          )}
+          {result && !result.success && result.error && <Alert type="error" message={result.error} showIcon />}
+        </Space>
+      )}
+    </Modal>
+  );
+};
+
+export default RepriceListingModal;
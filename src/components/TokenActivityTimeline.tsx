@@ -0,0 +1,74 @@
+import React from 'react';
+import { Card, Timeline, Tag, Typography, Empty, Spin, Space } from 'antd';
+import { HistoryOutlined } from '@ant-design/icons';
+import { getExplorerTransactionUrl } from '../lib/NetworkProfiles';
+import { TokenActivity, TokenActivityKind } from '../types';
+
+const { Text } = Typography;
+
+interface TokenActivityTimelineProps {
+  activity: TokenActivity[];
+  loading: boolean;
+}
+
+const KIND_LABELS: Record<TokenActivityKind, { label: string; color: string }> = {
+  mint: { label: 'Mint', color: 'green' },
+  transfer: { label: 'Transfer', color: 'gray' },
+  list: { label: 'Listed', color: 'blue' },
+  delist: { label: 'Delisted', color: 'orange' },
+  sale: { label: 'Sale', color: 'gold' },
+  burn: { label: 'Burn', color: 'red' },
+};
+
+// Shorten an address for the timeline, e.g. 0x1234...abcd
+const shortAddress = (address: string): string =>
+  address.length > 14 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+
+const Address: React.FC<{ address?: string }> = ({ address }) =>
+  address ? <Text copyable={{ text: address }}>{shortAddress(address)}</Text> : <Text type="secondary">-</Text>;
+
+/**
+ * Provenance of a token: mints, transfers, listings, delistings and sales, newest first
+ */
+const TokenActivityTimeline: React.FC<TokenActivityTimelineProps> = ({ activity, loading }) => (
+  <Card title={<span><HistoryOutlined style={{ marginRight: 8 }} />Activity</span>}>
+    {loading ? (
+      <div style={{ textAlign: 'center', padding: '24px' }}>
+        <Spin />
+      </div>
+    ) : activity.length === 0 ? (
+      <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No activity found for this token" />
+    ) : (
+      <Timeline
+        items={activity.map((entry) => ({
+          key: `${entry.transaction_version}-${entry.event_index}-${entry.kind}`,
+          color: KIND_LABELS[entry.kind].color,
+          children: (
+            <Space direction="vertical" size={0}>
+              <Space wrap>
+                <Tag color={KIND_LABELS[entry.kind].color}>{KIND_LABELS[entry.kind].label}</Tag>
+                {entry.price_apt !== undefined && <Text strong>{`${entry.price_apt.toFixed(2)} APT`}</Text>}
+                {entry.marketplace && <Text type="secondary">{`on ${entry.marketplace}`}</Text>}
+              </Space>
+              <Space wrap size={4}>
+                <Text type="secondary">From</Text>
+                <Address address={entry.from_address} />
+                <Text type="secondary">to</Text>
+                <Address address={entry.to_address} />
+              </Space>
+              <Space wrap size={4}>
+                <Text type="secondary">{new Date(entry.timestamp).toLocaleString()}</Text>
+                <Text type="secondary">·</Text>
+                <a href={getExplorerTransactionUrl(entry.transaction_version)} target="_blank" rel="noopener noreferrer">
+                  {`Version ${entry.transaction_version}`}
+                </a>
+              </Space>
+            </Space>
+          ),
+        }))}
+      />
+    )}
+  </Card>
+);
+
+export default TokenActivityTimeline;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Card, Collapse, Checkbox, Spin, Empty, Button, Typography, Badge } from 'antd';
+import { FilterOutlined } from '@ant-design/icons';
+import { fetchCollectionTraits, findCollectionsByName } from '../lib/ApiConfig';
+import { compactTraitSelection } from '../lib/Traits';
+import { TraitSelection, TraitSummary } from '../types';
+
+const { Text } = Typography;
+
+interface TraitFilterPanelProps {
+  collection: string;
+  selection: TraitSelection;
+  onChange: (selection: TraitSelection) => void;
+}
+
+/**
+ * Trait types and values of a collection, with counts
+ * Checked values are passed up so the listings query can filter on them.
+ * Traits are only counted once the search names exactly one collection, so
+ * collections sharing part of a name are not mixed.
+ */
+const TraitFilterPanel: React.FC<TraitFilterPanelProps> = ({ collection, selection, onChange }) => {
+  const [traits, setTraits] = useState<TraitSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolved, setResolved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTraits = async () => {
+      setLoading(true);
+      const matches = await findCollectionsByName(collection, 2);
+      const result = matches.length === 1 ? await fetchCollectionTraits(matches[0].collection_id) : [];
+      if (!cancelled) {
+        setResolved(matches.length === 1);
+        setTraits(result);
+        setLoading(false);
+      }
+    };
+
+    loadTraits();
+    return () => {
+      cancelled = true;
+    };
+  }, [collection]);
+
+  const selectedCount = Object.values(selection).reduce((sum, values) => sum + values.length, 0);
+
+  const handleValuesChange = (traitType: string, values: string[]) => {
+    onChange(compactTraitSelection({ ...selection, [traitType]: values }));
+  };
+
+  return (
+    <Card
+      size="small"
+      title={<span><FilterOutlined style={{ marginRight: 8 }} />Traits</span>}
+      extra={selectedCount > 0 && (
+        <Button type="link" size="small" onClick={() => onChange({})}>
+          Clear ({selectedCount})
+        </Button>
+      )}
+    >
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '24px' }}>
+          <Spin />
+        </div>
+      ) : traits.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={resolved ? 'No traits found for this collection' : "Enter one collection's full name to filter by traits"}
+        />
+      ) : (
+        <Collapse
+          ghost
+          size="small"
+          defaultActiveKey={Object.keys(selection)}
+          items={traits.map((trait) => ({
+            key: trait.trait_type,
+            label: (
+              <span>
+                {trait.trait_type}{' '}
+                <Badge count={selection[trait.trait_type]?.length || 0} size="small" />
+              </span>
+            ),
+            extra: <Text type="secondary">{trait.values.length}</Text>,
+            children: (
+              <Checkbox.Group
+                value={selection[trait.trait_type] || []}
+                onChange={(values) => handleValuesChange(trait.trait_type, values as string[])}
+                style={{ display: 'flex', flexDirection: 'column', gap: 4, maxHeight: 240, overflowY: 'auto' }}
+              >
+                {trait.values.map(({ value, count }) => (
+                  <Checkbox key={value} value={value}>
+                    {value} <Text type="secondary">({count})</Text>
+                  </Checkbox>
+                ))}
+              </Checkbox.Group>
+            ),
+          }))}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default TraitFilterPanel;
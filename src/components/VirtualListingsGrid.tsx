@@ -0,0 +1,136 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Row, Col, Spin, Typography } from 'antd';
+import { NFT } from '../types';
+
+const { Text } = Typography;
+
+interface VirtualListingsGridProps {
+  items: NFT[];
+  renderItem: (nft: NFT) => React.ReactNode;
+  itemKey: (nft: NFT) => string;
+  itemClassName?: (nft: NFT) => string | undefined;
+  narrow?: boolean;  // Grid shares the row with a side panel, so large screens get one column less
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+// Space between rows and columns, as with the antd gutter used elsewhere
+const GAP = 16;
+// Row height assumed until the first row has been measured
+const ESTIMATED_ROW_HEIGHT = 480;
+// Rows rendered above and below the viewport
+const OVERSCAN_ROWS = 2;
+// Start loading more when this many rows are left below the viewport
+const LOAD_AHEAD_ROWS = 3;
+
+// Columns per row at the antd breakpoints the listings grid used (xs 24, sm 12, md 8, lg 6 or 8)
+function columnsFor(width: number, narrow: boolean): number {
+  if (width >= 992) return narrow ? 3 : 4;
+  if (width >= 768) return 3;
+  if (width >= 576) return 2;
+  return 1;
+}
+
+/**
+ * Listings grid that only renders the rows near the viewport and asks for
+ * more listings as the user scrolls towards the end
+ * Rows share one height, the tallest measured so far, so the scroll height
+ * can be computed without rendering every card.
+ */
+const VirtualListingsGrid: React.FC<VirtualListingsGridProps> = ({
+  items,
+  renderItem,
+  itemKey,
+  itemClassName,
+  narrow = false,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const firstRowRef = useRef<HTMLDivElement>(null);
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight, width: window.innerWidth });
+
+  // Track which part of the grid is on screen
+  useEffect(() => {
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      const container = containerRef.current;
+      if (!container) return;
+      setViewport({
+        top: -container.getBoundingClientRect().top,
+        height: window.innerHeight,
+        width: window.innerWidth,
+      });
+    };
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, []);
+
+  const columns = columnsFor(viewport.width, narrow);
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.max(0, Math.floor(viewport.top / rowHeight) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((viewport.top + viewport.height) / rowHeight) + OVERSCAN_ROWS);
+
+  // Grow the shared row height to fit the tallest row rendered
+  useLayoutEffect(() => {
+    const measured = firstRowRef.current?.offsetHeight;
+    if (measured && measured + GAP > rowHeight) {
+      setRowHeight(measured + GAP);
+    }
+  });
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastRow >= rowCount - LOAD_AHEAD_ROWS) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, lastRow, rowCount, onLoadMore]);
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row < lastRow; row++) {
+    const rowItems = items.slice(row * columns, (row + 1) * columns);
+    rows.push(
+      <div key={row} style={{ position: 'absolute', top: row * rowHeight, left: 0, right: 0 }}>
+        <div ref={row === firstRow ? firstRowRef : undefined}>
+          <Row gutter={GAP}>
+            {rowItems.map((nft) => (
+              <Col key={itemKey(nft)} span={24 / columns} className={itemClassName?.(nft)}>
+                {renderItem(nft)}
+              </Col>
+            ))}
+          </Row>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div ref={containerRef} style={{ position: 'relative', height: Math.max(0, rowCount * rowHeight - GAP) }}>
+        {rows}
+      </div>
+      <div style={{ textAlign: 'center', padding: '24px 0' }}>
+        {loadingMore ? (
+          <Spin />
+        ) : !hasMore && items.length > 0 ? (
+          <Text type="secondary">{`All ${items.length} listings loaded`}</Text>
+        ) : null}
+      </div>
+    </>
+  );
+};
+
+export default VirtualListingsGrid;
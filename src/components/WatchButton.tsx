@@ -0,0 +1,50 @@
+import React from 'react';
+import { Button, Tooltip, message } from 'antd';
+import { StarFilled, StarOutlined } from '@ant-design/icons';
+import { WatchlistItem } from '../types';
+import { useWatchlist } from './WatchlistProvider';
+
+interface WatchButtonProps {
+  item: Omit<WatchlistItem, 'added_at'>;
+  size?: 'small' | 'middle' | 'large';
+  showLabel?: boolean;  // Show "Watch"/"Watching" next to the star
+}
+
+/**
+ * Star toggling a token or collection on the watchlist
+ */
+const WatchButton: React.FC<WatchButtonProps> = ({ item, size = 'small', showLabel = false }) => {
+  const { isWatched, addToWatchlist, removeFromWatchlist } = useWatchlist();
+  const watched = isWatched(item.kind, item.id);
+
+  const handleToggle = async (event: React.MouseEvent) => {
+    // Buttons sit inside cards and table rows that navigate on click
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (watched) {
+      if (!(await removeFromWatchlist(item.kind, item.id))) {
+        message.error('Could not update the watchlist');
+      }
+    } else if (await addToWatchlist(item)) {
+      message.success(`Added ${item.name} to your watchlist`);
+    } else {
+      message.error('Could not update the watchlist');
+    }
+  };
+
+  return (
+    <Tooltip title={watched ? 'Remove from watchlist' : 'Add to watchlist'}>
+      <Button
+        type={showLabel ? 'default' : 'text'}
+        size={size}
+        icon={watched ? <StarFilled style={{ color: '#faad14' }} /> : <StarOutlined />}
+        onClick={handleToggle}
+      >
+        {showLabel ? (watched ? 'Watching' : 'Watch') : null}
+      </Button>
+    </Tooltip>
+  );
+};
+
+export default WatchButton;
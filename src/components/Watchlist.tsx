@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, Button, Card, Empty, Space, Table, Tag, Tooltip, Typography } from 'antd';
+import { ArrowLeftOutlined, DeleteOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { fetchWatchlistQuotes } from '../lib/ApiConfig';
+import { WatchlistItem, WatchlistQuote } from '../types';
+import { useWatchlist } from './WatchlistProvider';
+
+const { Text } = Typography;
+
+// How often the quotes are refreshed while the page is open
+const REFRESH_INTERVAL = 60 * 1000;
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+const quoteKey = (item: Pick<WatchlistItem, 'kind' | 'id'>): string => `${item.kind}:${item.id}`;
+
+const itemLink = (item: WatchlistItem): string =>
+  item.kind === 'token' ? `/nft/${encodeURIComponent(item.id)}` : `/collection/${encodeURIComponent(item.id)}`;
+
+/**
+ * Watched tokens and collections with their current prices
+ */
+const Watchlist: React.FC = () => {
+  const { connected } = useWallet();
+  const { items, loading: itemsLoading, removeFromWatchlist } = useWatchlist();
+  const [quotes, setQuotes] = useState<Record<string, WatchlistQuote>>({});
+  const [loading, setLoading] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+
+  const loadQuotes = useCallback(async () => {
+    if (items.length === 0) {
+      setQuotes({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await fetchWatchlistQuotes(items);
+      setQuotes(Object.fromEntries(result.map((quote) => [quoteKey(quote), quote])));
+      setUpdatedAt(Date.now());
+    } catch (error) {
+      console.error('Failed to load watchlist quotes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [items]);
+
+  // Quote the list whenever it changes, then keep the quotes fresh
+  useEffect(() => {
+    loadQuotes();
+    const timer = setInterval(loadQuotes, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadQuotes]);
+
+  const columns = [
+    {
+      title: 'Item',
+      key: 'item',
+      render: (_: unknown, record: WatchlistItem) => (
+        <Space>
+          <Avatar shape="square" size={40} src={record.image_url}>
+            {record.name.charAt(0)}
+          </Avatar>
+          <Space direction="vertical" size={0}>
+            <Link to={itemLink(record)}>{record.name}</Link>
+            {record.kind === 'token' && record.collection_name && (
+              <Text type="secondary">{record.collection_name}</Text>
+            )}
+          </Space>
+          <Tag>{record.kind === 'token' ? 'Token' : 'Collection'}</Tag>
+        </Space>
+      ),
+    },
+    {
+      title: 'Best Price',
+      key: 'best_price',
+      render: (_: unknown, record: WatchlistItem) => {
+        const quote = quotes[quoteKey(record)];
+        if (quote?.best_price_apt === undefined) return <Text type="secondary">-</Text>;
+        return (
+          <Space direction="vertical" size={0}>
+            <Text strong>{formatApt(quote.best_price_apt)}</Text>
+            {quote.best_marketplace && <Text type="secondary">{quote.best_marketplace}</Text>}
+          </Space>
+        );
+      },
+    },
+    {
+      title: 'Floor',
+      key: 'floor',
+      render: (_: unknown, record: WatchlistItem) => {
+        const floor = quotes[quoteKey(record)]?.floor_price_apt;
+        return floor !== undefined ? formatApt(floor) : <Text type="secondary">-</Text>;
+      },
+    },
+    {
+      title: (
+        <Tooltip title="Change of the collection's lowest sale over the last 24 hours">
+          24h Change
+        </Tooltip>
+      ),
+      key: 'change',
+      render: (_: unknown, record: WatchlistItem) => {
+        const change = quotes[quoteKey(record)]?.change_24h_pct;
+        if (change === undefined) return <Text type="secondary">-</Text>;
+        return <Text type={change < 0 ? 'danger' : 'success'}>{`${change > 0 ? '+' : ''}${change.toFixed(2)}%`}</Text>;
+      },
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      render: (_: unknown, record: WatchlistItem) => {
+        const quote = quotes[quoteKey(record)];
+        if (!quote) return <Text type="secondary">-</Text>;
+        if (!quote.listed) return <Tag>Not listed</Tag>;
+        return (
+          <Tag color="green">
+            {quote.listing_count !== undefined && quote.listing_count > 1 ? `Listed (${quote.listing_count})` : 'Listed'}
+          </Tag>
+        );
+      },
+    },
+    {
+      title: '',
+      key: 'remove',
+      render: (_: unknown, record: WatchlistItem) => (
+        <Tooltip title="Remove from watchlist">
+          <Button type="text" size="small" icon={<DeleteOutlined />} onClick={() => removeFromWatchlist(record.kind, record.id)} />
+        </Tooltip>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Link to="/">
+        <Button icon={<ArrowLeftOutlined />} style={{ marginBottom: 16 }}>
+          Back to Dashboard
+        </Button>
+      </Link>
+
+      <Card
+        title="Watchlist"
+        extra={
+          <Space>
+            {updatedAt !== null && <Text type="secondary">{`Updated ${new Date(updatedAt).toLocaleTimeString()}`}</Text>}
+            <Button icon={<ReloadOutlined />} onClick={loadQuotes} loading={loading} disabled={items.length === 0}>
+              Refresh
+            </Button>
+          </Space>
+        }
+      >
+        {!connected && items.length > 0 && (
+          <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+            This list is stored in this browser. Connect your wallet to keep a separate list for it.
+          </Text>
+        )}
+        <Table<WatchlistItem>
+          dataSource={items}
+          columns={columns}
+          rowKey={quoteKey}
+          loading={itemsLoading || (loading && Object.keys(quotes).length === 0)}
+          size="small"
+          locale={{
+            emptyText: (
+              <Empty
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+                description="Use the star on an NFT or collection to watch it"
+              />
+            ),
+          }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default Watchlist;
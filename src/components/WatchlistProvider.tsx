@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import { WatchlistItem, WatchlistKind } from '../types';
+import { getActiveNetwork, subscribeToNetwork } from '../lib/NetworkProfiles';
+import { loadWatchlist, removeWatchlistItem, saveWatchlistItem, watchlistScope } from '../lib/WatchlistStore';
+
+interface WatchlistContextState {
+  items: WatchlistItem[];
+  loading: boolean;
+  isWatched: (kind: WatchlistKind, id?: string) => boolean;
+  addToWatchlist: (item: Omit<WatchlistItem, 'added_at'>) => Promise<boolean>;
+  removeFromWatchlist: (kind: WatchlistKind, id: string) => Promise<boolean>;
+}
+
+const WatchlistContext = createContext<WatchlistContextState | null>(null);
+
+/**
+ * Holds the tokens and collections the user watches
+ * The list is stored in IndexedDB under the connected wallet's address, or a
+ * local list while no wallet is connected, separately for each network.
+ */
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { account } = useWallet();
+  const [network, setNetwork] = useState(getActiveNetwork());
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const scope = watchlistScope(account?.address, network);
+
+  useEffect(() => subscribeToNetwork(setNetwork), []);
+
+  // Load the list of the current wallet and network
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    loadWatchlist(scope).then((loaded) => {
+      if (!cancelled) {
+        setItems(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const isWatched = (kind: WatchlistKind, id?: string) =>
+    !!id && items.some((item) => item.kind === kind && item.id === id);
+
+  const addToWatchlist = async (item: Omit<WatchlistItem, 'added_at'>): Promise<boolean> => {
+    if (isWatched(item.kind, item.id)) return false;
+
+    const added: WatchlistItem = { ...item, added_at: Date.now() };
+    if (!(await saveWatchlistItem(scope, added))) return false;
+    setItems((current) => [...current, added]);
+    return true;
+  };
+
+  const removeFromWatchlist = async (kind: WatchlistKind, id: string): Promise<boolean> => {
+    if (!(await removeWatchlistItem(scope, kind, id))) return false;
+    setItems((current) => current.filter((item) => !(item.kind === kind && item.id === id)));
+    return true;
+  };
+
+  return (
+    <WatchlistContext.Provider value={{ items, loading, isWatched, addToWatchlist, removeFromWatchlist }}>
+      {children}
+    </WatchlistContext.Provider>
+  );
+};
+
+/**
+ * Access the watchlist from any component under WatchlistProvider
+ */
+export function useWatchlist(): WatchlistContextState {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
@@ -2,6 +2,9 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { CartProvider } from './components/CartProvider';
+import { WatchlistProvider } from './components/WatchlistProvider';
+import { AlertsProvider } from './components/AlertsProvider';
 import { Buffer } from 'buffer';
 import { PetraWallet } from "petra-plugin-wallet-adapter";
 import { BrowserRouter } from "react-router-dom";
@@ -32,7 +35,13 @@ root.render(
       }}
     >
       <BrowserRouter>
-        <App />
+        <CartProvider>
+          <WatchlistProvider>
+            <AlertsProvider>
+              <App />
+            </AlertsProvider>
+          </WatchlistProvider>
+        </CartProvider>
       </BrowserRouter>
     </AptosWalletAdapterProvider>
   </React.StrictMode>
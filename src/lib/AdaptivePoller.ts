@@ -0,0 +1,98 @@
+/**
+ * Poller whose interval adapts to how often something changes
+ * The interval drops back to the minimum after a poll that found changes and
+ * grows after each quiet poll. Polling pauses while the tab is hidden and
+ * resumes with an immediate poll when it becomes visible again.
+ */
+
+export interface AdaptivePollerOptions {
+  minInterval?: number;  // Milliseconds
+  maxInterval?: number;  // Milliseconds
+  backoff?: number;  // Interval multiplier after a quiet poll
+}
+
+export class AdaptivePoller {
+  private readonly poll: () => Promise<boolean>;
+  private readonly minInterval: number;
+  private readonly maxInterval: number;
+  private readonly backoff: number;
+  private interval: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private polling = false;
+
+  /**
+   * Creates a new AdaptivePoller
+   * @param poll - Runs one poll and resolves to whether it found changes
+   * @param options - Interval bounds and backoff
+   */
+  constructor(poll: () => Promise<boolean>, options: AdaptivePollerOptions = {}) {
+    this.poll = poll;
+    this.minInterval = options.minInterval ?? 10 * 1000;
+    this.maxInterval = options.maxInterval ?? 60 * 1000;
+    this.backoff = options.backoff ?? 1.5;
+    this.interval = this.minInterval;
+  }
+
+  /**
+   * Start polling with an immediate first poll
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.interval = this.minInterval;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.run();
+  }
+
+  /**
+   * Stop polling; a poll in flight finishes but schedules nothing
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.running || document.hidden) return;
+    this.timer = setTimeout(() => this.run(), this.interval);
+  }
+
+  private async run(): Promise<void> {
+    if (this.polling) return;
+
+    this.polling = true;
+    try {
+      const changed = await this.poll();
+      this.interval = changed ? this.minInterval : Math.min(this.interval * this.backoff, this.maxInterval);
+    } catch (error) {
+      console.error('Poll failed:', error);
+      this.interval = Math.min(this.interval * this.backoff, this.maxInterval);
+    } finally {
+      this.polling = false;
+      this.schedule();
+    }
+  }
+
+  // Arrow function so it can be added and removed as a listener
+  private readonly handleVisibilityChange = (): void => {
+    if (!this.running) return;
+
+    if (document.hidden) {
+      this.clearTimer();
+    } else {
+      // Catch up on what changed while the tab was hidden
+      this.run();
+    }
+  };
+}
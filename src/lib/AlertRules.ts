@@ -0,0 +1,155 @@
+import { AlertInputs, AlertMonitorState, AlertNotification, AlertRule } from '../types';
+
+/**
+ * Evaluation of alert rules against polled market data
+ * Floor, listed and volume conditions fire once when they start to hold and
+ * again only after they have cleared. New listings are found by comparing
+ * each collection's newest listings with the ones seen at earlier polls and
+ * are priced against the floor of the previous poll, before they arrived.
+ */
+
+// Listing IDs remembered per collection, enough to cover a few polls' windows
+const SEEN_LISTINGS_LIMIT = 200;
+
+export const EMPTY_ALERT_STATE: AlertMonitorState = { active: [], seen_listings: {}, floors: {} };
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+const collectionLink = (collectionId: string): string => `/collection/${encodeURIComponent(collectionId)}`;
+
+const collectionLabel = (rule: AlertRule): string => rule.collection_name || `${rule.collection_id?.slice(0, 8)}...`;
+
+/**
+ * One-line description of a rule
+ * @param rule - Alert rule
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'floor_below':
+      return `${collectionLabel(rule)} floor below ${rule.threshold} APT`;
+    case 'token_listed':
+      return `${rule.token_name || `${rule.token_data_id?.slice(0, 8)}...`} listed`;
+    case 'listing_below_floor':
+      return `New ${collectionLabel(rule)} listing ${rule.threshold}% below floor`;
+    case 'volume_spike':
+      return rule.collection_id
+        ? `${collectionLabel(rule)} 24h volume up ${rule.threshold}%`
+        : `Any collection's 24h volume up ${rule.threshold}%`;
+  }
+}
+
+/**
+ * Evaluate the enabled rules against fresh market data
+ * @param rules - Alert rules
+ * @param inputs - Data from fetchAlertInputs
+ * @param state - State returned by the previous evaluation
+ * @param now - Evaluation time in milliseconds
+ * @returns Notifications to fire, newest last, and the state for the next poll
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  inputs: AlertInputs,
+  state: AlertMonitorState,
+  now: number = Date.now()
+): { notifications: AlertNotification[]; state: AlertMonitorState } {
+  const previouslyActive = new Set(state.active);
+  const active = new Set<string>();
+  const notifications: AlertNotification[] = [];
+
+  const notify = (rule: AlertRule, key: string, title: string, message: string, link?: string) => {
+    notifications.push({ id: `${key}:${now}`, rule_id: rule.id, title, message, link, timestamp: now, read: false });
+  };
+
+  // Conditions notify when they start to hold, not at every poll while they do
+  const fireOnce = (rule: AlertRule, key: string, title: string, message: string, link?: string) => {
+    active.add(key);
+    if (!previouslyActive.has(key)) notify(rule, key, title, message, link);
+  };
+
+  rules.filter((rule) => rule.enabled).forEach((rule) => {
+    const threshold = rule.threshold ?? 0;
+
+    if (rule.kind === 'floor_below' && rule.collection_id) {
+      const floor = inputs.floors[rule.collection_id];
+      if (floor !== undefined && floor < threshold) {
+        fireOnce(
+          rule,
+          rule.id,
+          `${collectionLabel(rule)} floor dropped`,
+          `The floor is ${formatApt(floor)}, below ${formatApt(threshold)}.`,
+          collectionLink(rule.collection_id)
+        );
+      }
+    }
+
+    if (rule.kind === 'token_listed' && rule.token_data_id) {
+      // Token listings are loaded cheapest first
+      const cheapest = (inputs.token_listings[rule.token_data_id] || [])[0];
+      if (cheapest) {
+        const name = rule.token_name || cheapest.name;
+        fireOnce(
+          rule,
+          rule.id,
+          `${name} was listed`,
+          `Listed on ${cheapest.marketplace}${cheapest.price ? ` for ${formatApt(cheapest.price.amount)}` : ''}.`,
+          `/nft/${encodeURIComponent(rule.token_data_id)}`
+        );
+      }
+    }
+
+    if (rule.kind === 'listing_below_floor' && rule.collection_id) {
+      const seen = state.seen_listings[rule.collection_id];
+      const floor = state.floors[rule.collection_id];
+      // The first poll of a collection only records what is already listed
+      if (!seen || floor === undefined) return;
+
+      const seenIds = new Set(seen);
+      (inputs.new_listings[rule.collection_id] || []).forEach((listing) => {
+        if (!listing.listing_id || seenIds.has(listing.listing_id) || !listing.price) return;
+
+        const discount = (1 - listing.price.amount / floor) * 100;
+        if (discount >= threshold) {
+          notify(
+            rule,
+            `${rule.id}:${listing.listing_id}`,
+            `${listing.name} listed ${discount.toFixed(1)}% below floor`,
+            `${formatApt(listing.price.amount)} on ${listing.marketplace}; the floor was ${formatApt(floor)}.`,
+            `/nft/${encodeURIComponent(listing.id)}`
+          );
+        }
+      });
+    }
+
+    if (rule.kind === 'volume_spike') {
+      inputs.volume
+        .filter((row) => !rule.collection_id || row.collection_id === rule.collection_id)
+        .filter((row) => row.volume_change_percentage >= threshold)
+        .forEach((row) => {
+          fireOnce(
+            rule,
+            `${rule.id}:${row.collection_id}`,
+            `${row.collection_name} volume spike`,
+            `24h volume is up ${row.volume_change_percentage.toFixed(1)}% to ${formatApt(row.total_volume_apt)}.`,
+            collectionLink(row.collection_id)
+          );
+        });
+    }
+  });
+
+  // Remember listings across polls; a failed fetch returns none and forgets nothing
+  const seenListings = { ...state.seen_listings };
+  Object.entries(inputs.new_listings).forEach(([collectionId, listings]) => {
+    const ids = listings.map((listing) => listing.listing_id).filter((id): id is string => !!id);
+    const merged = [...new Set([...ids, ...(seenListings[collectionId] || [])])];
+    seenListings[collectionId] = merged.slice(0, SEEN_LISTINGS_LIMIT);
+  });
+
+  return {
+    notifications,
+    state: {
+      active: [...active],
+      seen_listings: seenListings,
+      floors: { ...state.floors, ...inputs.floors },
+    },
+  };
+}
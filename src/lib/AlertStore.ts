@@ -0,0 +1,86 @@
+import { AlertMonitorState, AlertNotification, AlertRule } from '../types';
+import { AppNetwork } from './NetworkProfiles';
+import { EMPTY_ALERT_STATE } from './AlertRules';
+
+/**
+ * Alert rules, notification history and monitor state in localStorage
+ * Everything is kept per network, since rules point at collections and
+ * tokens of a single network.
+ */
+
+// Notifications kept in the history drawer
+export const NOTIFICATION_HISTORY_LIMIT = 100;
+
+const storageKey = (network: AppNetwork, part: string): string => `nft-aggregator:alerts:${network}:${part}`;
+
+// localStorage can be unavailable (private mode, sandboxed iframes) or hold a stale shape
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing ${key}:`, error);
+  }
+}
+
+/**
+ * Load the alert rules of a network
+ * @param network - Network the rules belong to
+ */
+export function loadAlertRules(network: AppNetwork): AlertRule[] {
+  const rules = readJson<AlertRule[]>(storageKey(network, 'rules'), []);
+  return Array.isArray(rules) ? rules : [];
+}
+
+/**
+ * Store the alert rules of a network
+ * @param network - Network the rules belong to
+ * @param rules - All rules of the network
+ */
+export function saveAlertRules(network: AppNetwork, rules: AlertRule[]): void {
+  writeJson(storageKey(network, 'rules'), rules);
+}
+
+/**
+ * Load the notification history of a network, newest first
+ * @param network - Network the notifications belong to
+ */
+export function loadAlertNotifications(network: AppNetwork): AlertNotification[] {
+  const notifications = readJson<AlertNotification[]>(storageKey(network, 'notifications'), []);
+  return Array.isArray(notifications) ? notifications : [];
+}
+
+/**
+ * Store the notification history of a network, keeping the newest
+ * @param network - Network the notifications belong to
+ * @param notifications - Notifications, newest first
+ */
+export function saveAlertNotifications(network: AppNetwork, notifications: AlertNotification[]): void {
+  writeJson(storageKey(network, 'notifications'), notifications.slice(0, NOTIFICATION_HISTORY_LIMIT));
+}
+
+/**
+ * Load what the monitor remembered at its last poll on a network
+ * @param network - Network the state belongs to
+ */
+export function loadAlertMonitorState(network: AppNetwork): AlertMonitorState {
+  return { ...EMPTY_ALERT_STATE, ...readJson<Partial<AlertMonitorState>>(storageKey(network, 'state'), {}) };
+}
+
+/**
+ * Store the monitor state so conditions that already fired stay quiet after a reload
+ * @param network - Network the state belongs to
+ * @param state - State from evaluateAlertRules
+ */
+export function saveAlertMonitorState(network: AppNetwork, state: AlertMonitorState): void {
+  writeJson(storageKey(network, 'state'), state);
+}
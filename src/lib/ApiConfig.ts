@@ -1,5 +1,12 @@
 import { AptosClient } from './AptosClient';
 import { NFTService } from './NFTService';
+import { ListingService } from './ListingService';
+import { OfferService } from './OfferService';
+import { PurchaseService } from './PurchaseService';
+import { RarityService } from './RarityService';
+import { AppNetwork, getActiveNetwork, getNetworkProfile, setActiveNetwork } from './NetworkProfiles';
+import { CacheInvalidation } from './ResourceCache';
+import { ActiveListingsParams, RecentSalesParams, TimePeriod, WatchlistItem } from '../types';
 
 /**
  * This file provides configured instances of our API client classes.
@@ -10,29 +17,124 @@ import { NFTService } from './NFTService';
 // Using import.meta.env for Vite projects instead of process.env
 const DEFAULT_API_KEY = import.meta.env.VITE_APTOS_API_KEY || '';
 
+// API key currently used by every client
+let currentApiKey: string = DEFAULT_API_KEY;
+
+interface NetworkServices {
+  client: AptosClient;
+  nftService: NFTService;
+  purchaseService: PurchaseService;
+  offerService: OfferService;
+  listingService: ListingService;
+  rarityService: RarityService;
+}
+
+// Services are kept per network so they are reused when the user switches
+// back and forth; cached responses are keyed by network in ResourceCache
+const servicesByNetwork: Partial<Record<AppNetwork, NetworkServices>> = {};
+
+/**
+ * Get (or create) the services for a network
+ * @param name - Network to build the services for
+ */
+function getNetworkServices(name: AppNetwork): NetworkServices {
+  if (!servicesByNetwork[name]) {
+    const profile = getNetworkProfile(name);
+    const client = new AptosClient(currentApiKey, profile.network, {
+      nftIndexer: profile.nftIndexerEndpoint,
+      indexer: profile.indexerEndpoint,
+      analytics: profile.analyticsEndpoint,
+    });
+
+    const nftService = new NFTService(client);
+    const purchaseService = new PurchaseService(client);
+    const rarityService = new RarityService(nftService);
+    nftService.setRarityService(rarityService);
+    servicesByNetwork[name] = {
+      client,
+      nftService,
+      purchaseService,
+      offerService: new OfferService(client, nftService, purchaseService),
+      listingService: new ListingService(client, nftService, purchaseService),
+      rarityService,
+    };
+  }
+
+  return servicesByNetwork[name] as NetworkServices;
+}
+
+const initialServices = getNetworkServices(getActiveNetwork());
+
+// The exported singletons are facades: their state is copied from the active
+// network's services, so existing imports keep working after a switch
+const createFacade = <T extends object>(instance: T): T =>
+  Object.assign(Object.create(Object.getPrototypeOf(instance)), instance);
+
 // Create a singleton instance of AptosClient with API key
-export const aptosClient = new AptosClient(DEFAULT_API_KEY);
+export const aptosClient = createFacade(initialServices.client);
 
 // Create a singleton instance of NFTService that uses our client
-export const nftService = new NFTService(aptosClient);
+export const nftService = createFacade(initialServices.nftService);
+
+// Create a singleton instance of PurchaseService for the "Buy now" flow
+export const purchaseService = createFacade(initialServices.purchaseService);
+
+// Create a singleton instance of OfferService for token and collection offers
+export const offerService = createFacade(initialServices.offerService);
+
+// Create a singleton instance of ListingService for listing the user's own NFTs
+export const listingService = createFacade(initialServices.listingService);
+
+// Create a singleton instance of RarityService for rarity ranks and sorting
+export const rarityService = createFacade(initialServices.rarityService);
+
+/**
+ * Point the exported singletons at the services for a network
+ * @param name - Network whose services should back the singletons
+ */
+function applyNetworkServices(name: AppNetwork): void {
+  const services = getNetworkServices(name);
+
+  // Replace the exported objects' state with the network's instances
+  Object.assign(aptosClient, services.client);
+  Object.assign(nftService, services.nftService);
+  Object.assign(purchaseService, services.purchaseService);
+  Object.assign(offerService, services.offerService);
+  Object.assign(listingService, services.listingService);
+  Object.assign(rarityService, services.rarityService);
+}
+
+/**
+ * Switch every service to another network
+ * Clients are rebuilt with that network's endpoint profile and subscribers
+ * of the active network (e.g. the UI) are notified afterwards.
+ * @param name - The network to switch to
+ */
+export function switchNetwork(name: AppNetwork): void {
+  if (name === getActiveNetwork()) return;
+
+  applyNetworkServices(name);
+  setActiveNetwork(name);
+}
 
 /**
  * Update the API key for all services
  * @param apiKey - The new API key to use
  */
 export function updateApiKey(apiKey: string): void {
-  // Create new instances with the updated API key
-  const newClient = new AptosClient(apiKey);
-  
-  // Replace the exported objects with new instances
-  Object.assign(aptosClient, newClient);
-  Object.assign(nftService, new NFTService(newClient));
+  currentApiKey = apiKey;
+
+  // Drop the services built with the old key
+  (Object.keys(servicesByNetwork) as AppNetwork[]).forEach((name) => {
+    delete servicesByNetwork[name];
+  });
+  applyNetworkServices(getActiveNetwork());
   
   console.log('API key updated for all services');
 }
 
 // Direct exports from nftService to maintain compatibility with the original api.ts
-export const fetchActiveListings = (params?: any) => nftService.fetchActiveListings(params);
+export const fetchActiveListings = (params?: ActiveListingsParams) => nftService.fetchActiveListings(params);
 export const formatMarketplaceName = (marketplace: string): string => nftService.formatMarketplaceName(marketplace);
 export const convertIPFSUrl = (url: string): string => nftService.convertIpfsUrl(url);
 export const fetchNFTDetails = (nftId: string) => nftService.fetchNFTDetails(nftId);
@@ -40,4 +142,22 @@ export const formatAPTAmount = (octas: string | number): number => nftService.fo
 export const fetchCollectionsByVolume = (params?: any) => nftService.fetchCollectionsByVolume(params);
 export const fetchCollectionsBySales = (params?: any) => nftService.fetchCollectionsBySales(params);
 export const fetchCollectionsByFloorPrice = (params?: any) => nftService.fetchCollectionsByFloorPrice(params);
-export const invalidateListingsCache = (specificParams?: any): void => nftService.invalidateListingsCache(specificParams); 
\ No newline at end of file
+export const invalidateListingsCache = (target?: Omit<CacheInvalidation, 'resources'>): void => nftService.invalidateListingsCache(target);
+export const fetchTokenRoyalties = (tokenDataIds: string[]) => nftService.fetchTokenRoyalties(tokenDataIds);
+export const fetchRoyalties = (tokens: { id: string; collection_id?: string }[]) => nftService.fetchRoyalties(tokens);
+export const fetchCollectionTraits = (collectionId: string) => nftService.fetchCollectionTraits(collectionId);
+export const findCollectionsByName = (name: string, limit?: number) => nftService.findCollectionsByName(name, limit);
+export const fetchPriceHistory = (target: { tokenDataId?: string; collectionId?: string }, timePeriod?: TimePeriod) =>
+  nftService.fetchPriceHistory(target, timePeriod);
+export const fetchTokenActivity = (tokenDataId: string, limit?: number) => nftService.fetchTokenActivity(tokenDataId, limit);
+export const fetchWatchlistQuotes = (items: WatchlistItem[]) => nftService.fetchWatchlistQuotes(items);
+export const fetchRecentSales = (params: RecentSalesParams) => nftService.fetchRecentSales(params);
+
+// Direct exports from offerService for token offers and collection bids
+export const fetchTokenOffers = (tokenDataId: string, collectionId?: string) =>
+  offerService.fetchTokenOffers(tokenDataId, collectionId);
+export const fetchCollectionOffers = (collectionId: string) => offerService.fetchCollectionOffers(collectionId);
+export const fetchOffersByBuyer = (buyer: string) => offerService.fetchOffersByBuyer(buyer);
+
+// Direct exports from listingService for the user's own NFTs
+export const fetchOwnedNFTs = (owner: string) => listingService.fetchOwnedNFTs(owner);
@@ -10,6 +10,7 @@ export class AptosClient {
   private readonly indexerEndpoint: string;
   private readonly analyticsEndpoint: string;
   private readonly apiKey?: string;
+  private readonly network: Network;
 
   /**
    * Creates a new AptosClient instance
@@ -27,6 +28,7 @@ export class AptosClient {
   ) {
     // Store API key for later use
     this.apiKey = apiKey;
+    this.network = network;
     
     // Configure the Aptos provider
     const config = new AptosConfig({ network });
@@ -179,6 +181,13 @@ export class AptosClient {
     return this.provider;
   }
 
+  /**
+   * Get the Aptos network this client is connected to
+   */
+  getNetwork(): Network {
+    return this.network;
+  }
+
   /**
    * Get the NFT indexer endpoint URL
    */
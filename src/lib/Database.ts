@@ -0,0 +1,66 @@
+/**
+ * The app's IndexedDB database
+ * Stores are created here so every module opens the same version of the
+ * database; version 2 added the response cache next to the watchlist.
+ */
+
+const DB_NAME = 'nft-aggregator';
+const DB_VERSION = 2;
+
+export const WATCHLIST_STORE = 'watchlist';
+export const CACHE_STORE = 'cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, creating missing stores on first use
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WATCHLIST_STORE)) {
+          const store = db.createObjectStore(WATCHLIST_STORE, { keyPath: ['scope', 'kind', 'id'] });
+          store.createIndex('scope', 'scope');
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request in a transaction on one store
+ * @param storeName - Store to use
+ * @param mode - Transaction mode
+ * @param run - Builds the request from the store
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,170 @@
+import { CollectionDealInputs, DealThresholds, ListingDeal, NFT } from '../types';
+
+/**
+ * Deal finder: flags listings priced well below what comparable tokens list
+ * or sell for
+ * A listing is compared with the cheapest listing of any other token in the
+ * collection, with the cheapest other listing sharing each of its rare traits,
+ * and with the median of recent sales. The largest discount found becomes the
+ * listing's deal.
+ */
+
+export const DEFAULT_DEAL_THRESHOLDS: DealThresholds = {
+  floor_discount_pct: 15,
+  trait_discount_pct: 20,
+  rare_trait_max_pct: 5,
+  sales_discount_pct: 30,
+  min_sales: 5,
+};
+
+const THRESHOLDS_STORAGE_KEY = 'nft-aggregator:deal-thresholds';
+
+const formatApt = (amount: number): string => `${Number(amount.toFixed(4))} APT`;
+
+const formatPct = (pct: number): string => `${Number(pct.toFixed(1))}%`;
+
+const priceOf = (nft: NFT): number => nft.price?.amount ?? 0;
+
+const traitKey = (traitType: string, value: string): string => `${traitType}\u0000${value}`;
+
+/**
+ * Load the deal thresholds chosen by the user
+ * Missing or invalid values fall back to the defaults.
+ */
+export function loadDealThresholds(): DealThresholds {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(THRESHOLDS_STORAGE_KEY) || '{}');
+    const thresholds = { ...DEFAULT_DEAL_THRESHOLDS };
+    (Object.keys(thresholds) as (keyof DealThresholds)[]).forEach((key) => {
+      const value = stored?.[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        thresholds[key] = value;
+      }
+    });
+    return thresholds;
+  } catch (error) {
+    // localStorage can be unavailable (private mode, sandboxed iframes)
+    console.error('Error reading deal thresholds:', error);
+    return { ...DEFAULT_DEAL_THRESHOLDS };
+  }
+}
+
+/**
+ * Store the deal thresholds chosen by the user
+ * @param thresholds - Thresholds to keep
+ */
+export function saveDealThresholds(thresholds: DealThresholds): void {
+  try {
+    window.localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+  } catch (error) {
+    console.error('Error writing deal thresholds:', error);
+  }
+}
+
+/**
+ * Median of a list of numbers
+ * @param values - Values in any order
+ * @returns Median, or null for an empty list
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Cheapest listing of a token other than the given one; candidates are sorted cheapest first
+function cheapestOther(candidates: NFT[] | undefined, tokenDataId: string): number | null {
+  const other = candidates?.find((nft) => nft.id !== tokenDataId);
+  return other ? priceOf(other) : null;
+}
+
+const discountBelow = (price: number, reference: number): number => ((reference - price) / reference) * 100;
+
+/**
+ * Flag the deals among a collection's listings
+ * @param inputs - Listings, token traits and recent sales of one collection
+ * @param thresholds - Minimum discounts and what counts as a rare trait
+ * @returns Listings with a deal, largest discount first
+ */
+export function findCollectionDeals(
+  inputs: CollectionDealInputs,
+  thresholds: DealThresholds = DEFAULT_DEAL_THRESHOLDS
+): NFT[] {
+  const listings = inputs.listings
+    .filter((nft) => priceOf(nft) > 0)
+    .sort((a, b) => priceOf(a) - priceOf(b));
+
+  // Share of the collection holding each trait value
+  const traitShares = new Map<string, number>();
+  if (inputs.token_count > 0) {
+    inputs.traits.forEach((trait) => {
+      trait.values.forEach(({ value, count }) => {
+        traitShares.set(traitKey(trait.trait_type, value), (count / inputs.token_count) * 100);
+      });
+    });
+  }
+
+  const propertiesOf = (nft: NFT) => nft.token_properties || inputs.token_properties[nft.id];
+
+  // Cheapest listings of each rare trait across the whole collection
+  const listingsByRareTrait = new Map<string, NFT[]>();
+  inputs.trait_floors.forEach(({ trait_type, value, listings: traitListings }) => {
+    const key = traitKey(trait_type, value);
+    const share = traitShares.get(key);
+    if (share === undefined || share > thresholds.rare_trait_max_pct) return;
+    listingsByRareTrait.set(key, traitListings.filter((nft) => priceOf(nft) > 0));
+  });
+
+  const salesMedian = inputs.recent_sales_apt.length >= thresholds.min_sales ? median(inputs.recent_sales_apt) : null;
+
+  const deals: NFT[] = [];
+  listings.forEach((nft) => {
+    const price = priceOf(nft);
+    const candidates: ListingDeal[] = [];
+
+    const floor = cheapestOther(listings, nft.id);
+    if (floor !== null && discountBelow(price, floor) >= thresholds.floor_discount_pct) {
+      const discount = discountBelow(price, floor);
+      candidates.push({
+        kind: 'below_floor',
+        discount_pct: discount,
+        reference_price_apt: floor,
+        reason: `${formatPct(discount)} below the cheapest other listing (${formatApt(floor)})`,
+      });
+    }
+
+    Object.entries(propertiesOf(nft) || {}).forEach(([traitType, value]) => {
+      const key = traitKey(traitType, value);
+      const traitFloor = cheapestOther(listingsByRareTrait.get(key), nft.id);
+      if (traitFloor === null || discountBelow(price, traitFloor) < thresholds.trait_discount_pct) return;
+
+      const discount = discountBelow(price, traitFloor);
+      candidates.push({
+        kind: 'below_trait_floor',
+        discount_pct: discount,
+        reference_price_apt: traitFloor,
+        reason: `${formatPct(discount)} below the cheapest other "${traitType}: ${value}" listing (${formatApt(traitFloor)}); ` +
+          `${formatPct(traitShares.get(key) as number)} of the collection has this trait`,
+      });
+    });
+
+    if (salesMedian !== null && salesMedian > 0 && discountBelow(price, salesMedian) >= thresholds.sales_discount_pct) {
+      const discount = discountBelow(price, salesMedian);
+      candidates.push({
+        kind: 'below_recent_sales',
+        discount_pct: discount,
+        reference_price_apt: salesMedian,
+        reason: `${formatPct(discount)} below the median of ${inputs.recent_sales_apt.length} recent sales (${formatApt(salesMedian)})`,
+      });
+    }
+
+    if (candidates.length === 0) return;
+
+    const best = candidates.reduce((a, b) => (b.discount_pct > a.discount_pct ? b : a));
+    deals.push({ ...nft, deal: { ...best, discount_pct: Number(best.discount_pct.toFixed(1)) } });
+  });
+
+  return deals.sort((a, b) => (b.deal?.discount_pct ?? 0) - (a.deal?.discount_pct ?? 0));
+}
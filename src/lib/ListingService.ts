@@ -0,0 +1,313 @@
+import { ListingRequest, OwnedNFT, PurchasableListing, PurchaseResult, PurchaseStage } from '../types';
+import { AptosClient } from './AptosClient';
+import { NFTService } from './NFTService';
+import { PurchaseService, SignAndSubmitFn } from './PurchaseService';
+import { buildCancelListingPayload, buildListingPayload } from './MarketplaceContracts';
+import { invalidateListingsCache } from './ResourceCache';
+import { validateRows, validateTokenOwnershipRow } from './validation';
+
+// Most tokens loaded for the connected account
+const OWNED_NFTS_LIMIT = 200;
+
+/**
+ * ListingService - Handles listing the connected account's own NFTs
+ * Loads the tokens an account holds and creates, cancels or reprices
+ * fixed-price listings through the connected wallet.
+ */
+export class ListingService {
+  private readonly client: AptosClient;
+  private readonly nftService: NFTService;
+  private readonly purchaseService: PurchaseService;
+
+  /**
+   * Creates a new ListingService
+   * @param client - An initialized AptosClient instance
+   * @param nftService - NFTService used for images and fee schedules
+   * @param purchaseService - PurchaseService used to load listings and submit transactions
+   */
+  constructor(client: AptosClient, nftService: NFTService, purchaseService: PurchaseService) {
+    this.client = client;
+    this.nftService = nftService;
+    this.purchaseService = purchaseService;
+  }
+
+  /**
+   * Fetch the NFTs an account currently holds
+   * Tokens escrowed in a listing belong to the listing object and so are not included.
+   * @param owner - Account address
+   * @returns Held tokens, most recently received first
+   */
+  async fetchOwnedNFTs(owner: string): Promise<OwnedNFT[]> {
+    const query = `
+      query OwnedTokens($owner: String!, $limit: Int!) {
+        current_token_ownerships_v2(
+          where: {owner_address: {_eq: $owner}, amount: {_gt: "0"}}
+          order_by: {last_transaction_timestamp: desc}
+          limit: $limit
+        ) {
+          token_data_id
+          owner_address
+          amount
+          token_standard
+          property_version_v1
+          last_transaction_timestamp
+          current_token_data {
+            token_data_id
+            token_name
+            description
+            token_uri
+            collection_id
+            cdn_asset_uris {
+              cdn_image_uri
+              raw_image_uri
+              cdn_animation_uri
+              raw_animation_uri
+            }
+            current_collection {
+              collection_name
+              creator_address
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.queryGraphQL<{ current_token_ownerships_v2?: unknown[] }>(
+        query,
+        { owner, limit: OWNED_NFTS_LIMIT }
+      );
+      const { valid } = validateRows(data?.current_token_ownerships_v2, validateTokenOwnershipRow, 'current_token_ownerships_v2');
+
+      return await Promise.all(valid.map(async (row): Promise<OwnedNFT> => {
+        const tokenData = row.current_token_data;
+        const collection = tokenData?.current_collection;
+        const name = tokenData?.token_name || 'Unnamed NFT';
+
+        return {
+          id: row.token_data_id,
+          name,
+          description: tokenData?.description || undefined,
+          image_url: await this.nftService.getBestImageUrl(tokenData?.cdn_asset_uris, name, tokenData?.token_uri || undefined),
+          marketplace: '',
+          collection_name: collection?.collection_name || '',
+          collection_id: tokenData?.collection_id || undefined,
+          creator_address: collection?.creator_address || '',
+          owner_address: row.owner_address,
+          created_at: row.last_transaction_timestamp
+            ? new Date(this.nftService.parseIndexerTimestamp(row.last_transaction_timestamp)).toISOString()
+            : new Date().toISOString(),
+          token_uri: tokenData?.token_uri || undefined,
+          token_standard: row.token_standard === 'v1' ? 'v1' : 'v2',
+          property_version: row.property_version_v1 != null ? Number(row.property_version_v1) : 0,
+          amount: Number(row.amount),
+        };
+      }));
+    } catch (error) {
+      console.error(`Error fetching NFTs owned by ${owner}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Load one of the account's active listings, refusing listings by other sellers
+   * @param listingId - Listing to load
+   * @param seller - Connected account address
+   */
+  private async fetchOwnListing(listingId: string, seller: string): Promise<PurchasableListing> {
+    const listing = await this.purchaseService.fetchPurchasableListing(listingId);
+    if (!listing) {
+      throw new Error('This listing is no longer active');
+    }
+    if (listing.seller.toLowerCase() !== seller.toLowerCase()) {
+      throw new Error('Only the seller can change this listing');
+    }
+    return listing;
+  }
+
+  /**
+   * List a token at a fixed price on one marketplace
+   * @param params.request - Listing to create
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the transaction
+   */
+  async listToken(params: {
+    request: ListingRequest;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { request, signAndSubmitTransaction, onStageChange } = params;
+
+    try {
+      onStageChange?.('loading');
+      if (request.price_apt <= 0) {
+        throw new Error('The listing price must be greater than zero');
+      }
+
+      const feeSchedule = await this.nftService.fetchFeeScheduleAddress(request.marketplace);
+      if (!feeSchedule) {
+        throw new Error(`Could not find the fee schedule of ${request.marketplace}`);
+      }
+
+      const result = await this.purchaseService.submitTransaction(
+        { data: buildListingPayload(request, feeSchedule) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+      if (result.success) {
+        invalidateListingsCache({ token: request.token.id, marketplace: request.marketplace });
+      }
+      return result;
+    } catch (error) {
+      console.error('Error listing token:', error);
+      onStageChange?.('failed');
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * List a token on the first of several marketplaces that accepts it
+   * Listing moves the token out of the wallet into the listing object, so a
+   * token can only be listed on one marketplace at a time. Marketplaces are
+   * tried in order and the rest are skipped after the first success.
+   * @param params.token - Token to list
+   * @param params.marketplaces - Raw marketplace IDs, in order of preference
+   * @param params.price_apt - Price on every marketplace
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onItemStart - Optional callback before each marketplace is tried
+   * @param params.onItemResult - Optional callback with each tried marketplace's outcome
+   * @returns Outcome per tried marketplace ID; skipped marketplaces are omitted
+   */
+  async listTokenOnMarketplaces(params: {
+    token: ListingRequest['token'];
+    marketplaces: string[];
+    price_apt: number;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onItemStart?: (marketplace: string) => void;
+    onItemResult?: (marketplace: string, result: PurchaseResult) => void;
+  }): Promise<Record<string, PurchaseResult>> {
+    const { token, marketplaces, price_apt, signAndSubmitTransaction, onItemStart, onItemResult } = params;
+    const results: Record<string, PurchaseResult> = {};
+
+    for (const marketplace of marketplaces) {
+      onItemStart?.(marketplace);
+      const result = await this.listToken({ request: { marketplace, token, price_apt }, signAndSubmitTransaction });
+      results[marketplace] = result;
+      onItemResult?.(marketplace, result);
+      if (result.success) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Cancel one of the account's listings, returning the token to the seller
+   * @param params.listingId - Listing to cancel
+   * @param params.seller - Connected account address
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the transaction
+   */
+  async cancelListing(params: {
+    listingId: string;
+    seller: string;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { listingId, seller, signAndSubmitTransaction, onStageChange } = params;
+
+    try {
+      onStageChange?.('loading');
+      const listing = await this.fetchOwnListing(listingId, seller);
+
+      const result = await this.purchaseService.submitTransaction(
+        { data: buildCancelListingPayload(listing) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+      invalidateListingsCache({ token: listing.token_data_id, marketplace: listing.marketplace });
+      return result;
+    } catch (error) {
+      console.error('Error cancelling listing:', error);
+      onStageChange?.('failed');
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Change the price of one of the account's listings
+   * The framework has no price update, so the listing is cancelled and the
+   * token listed again on the same marketplace; the wallet asks for two
+   * signatures. If relisting fails the token is back in the seller's wallet.
+   * @param params.listingId - Listing to reprice
+   * @param params.seller - Connected account address
+   * @param params.price_apt - New price
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the new listing, or of the cancellation if that failed
+   */
+  async repriceListing(params: {
+    listingId: string;
+    seller: string;
+    price_apt: number;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { listingId, seller, price_apt, signAndSubmitTransaction, onStageChange } = params;
+
+    try {
+      onStageChange?.('loading');
+      if (price_apt <= 0) {
+        throw new Error('The listing price must be greater than zero');
+      }
+
+      const listing = await this.fetchOwnListing(listingId, seller);
+      if (listing.token_standard === 'v1' && (!listing.creator_address || !listing.collection_name || !listing.token_name)) {
+        throw new Error(`Listing ${listingId} is missing the creator, collection or token name needed to relist it`);
+      }
+
+      // Check before cancelling, so a missing fee schedule cannot leave the token unlisted
+      const feeSchedule = await this.nftService.fetchFeeScheduleAddress(listing.marketplace);
+      if (!feeSchedule) {
+        throw new Error(`Could not find the fee schedule of ${listing.marketplace}`);
+      }
+
+      const cancelled = await this.purchaseService.submitTransaction(
+        { data: buildCancelListingPayload(listing) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+      invalidateListingsCache({ token: listing.token_data_id, marketplace: listing.marketplace });
+      if (!cancelled.success) {
+        return cancelled;
+      }
+
+      const request: ListingRequest = {
+        marketplace: listing.marketplace,
+        price_apt,
+        token: {
+          id: listing.token_data_id,
+          name: listing.token_name || '',
+          collection_name: listing.collection_name || '',
+          creator_address: listing.creator_address || '',
+          token_standard: listing.token_standard === 'v1' ? 'v1' : 'v2',
+          property_version: listing.property_version || 0,
+        },
+      };
+      const relisted = await this.purchaseService.submitTransaction(
+        { data: buildListingPayload(request, feeSchedule) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+      invalidateListingsCache({ token: listing.token_data_id, marketplace: listing.marketplace });
+      return relisted.success
+        ? relisted
+        : { ...relisted, error: `The listing was cancelled but relisting failed: ${relisted.error}` };
+    } catch (error) {
+      console.error('Error repricing listing:', error);
+      onStageChange?.('failed');
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { InputEntryFunctionData } from "@aptos-labs/ts-sdk";
+import { ListingRequest, MarketplaceOffer, OfferRequest, PurchasableListing } from '../types';
+import { aptToOctas } from './QueryBuilder';
+
+/**
+ * On-chain entry points for each marketplace the aggregator indexes.
+ * Keys are the raw marketplace IDs returned by the NFT indexer (the same values
+ * that end up in MarketplaceConfig.rawValues), so new versions of a marketplace
+ * need their own entry here.
+ */
+
+// Coin type used to pay for every listing the aggregator shows
+const APTOS_COIN = '0x1::aptos_coin::AptosCoin';
+
+interface MarketplaceContract {
+  // Module address used when the listing row does not carry its own contract_address
+  address: string;
+  // Builds the entry function payload that fills the given listing
+  buildPurchase: (listing: PurchasableListing, moduleAddress: string) => InputEntryFunctionData;
+}
+
+// Token v1 listings are addressed by (creator, collection, name, property version)
+const requireTokenV1Fields = (listing: PurchasableListing) => {
+  if (!listing.creator_address || !listing.collection_name || !listing.token_name) {
+    throw new Error(`Listing ${listing.listing_id} is missing the creator, collection or token name needed for a v1 purchase`);
+  }
+  return {
+    creator: listing.creator_address,
+    collection: listing.collection_name,
+    name: listing.token_name,
+    propertyVersion: listing.property_version || 0,
+  };
+};
+
+// Listings created through the Aptos Labs token marketplace framework (coin_listing module)
+const coinListingPurchase = (listing: PurchasableListing, moduleAddress: string): InputEntryFunctionData => ({
+  function: `${moduleAddress}::coin_listing::purchase`,
+  typeArguments: [APTOS_COIN],
+  functionArguments: [listing.listing_id],
+});
+
+const MARKETPLACE_CONTRACTS: Record<string, MarketplaceContract> = {
+  tradeport_v1: {
+    address: '0xe11c12ec495f3989c35e1c6a0af414451223305b579291fc8f3d9d0575a23c26',
+    buildPurchase: (listing, moduleAddress) => {
+      const token = requireTokenV1Fields(listing);
+      return {
+        function: `${moduleAddress}::listings::buy`,
+        functionArguments: [
+          token.creator,
+          token.collection,
+          token.name,
+          token.propertyVersion,
+          listing.price,
+        ],
+      };
+    },
+  },
+  tradeport_v2: {
+    address: '0xe11c12ec495f3989c35e1c6a0af414451223305b579291fc8f3d9d0575a23c26',
+    buildPurchase: (listing, moduleAddress) => ({
+      function: `${moduleAddress}::listings_v2::buy`,
+      functionArguments: [listing.listing_id],
+    }),
+  },
+  bluemove: {
+    address: '0xd1fd99c1944b84d1670a2536417e997864ad12303d19eac725891691b04d614e',
+    buildPurchase: (listing, moduleAddress) => {
+      const token = requireTokenV1Fields(listing);
+      return {
+        function: `${moduleAddress}::marketplaceV2::batch_buy_script`,
+        functionArguments: [
+          [token.creator],
+          [token.collection],
+          [token.name],
+          [token.propertyVersion],
+          [listing.price],
+          [listing.token_amount || 1],
+        ],
+      };
+    },
+  },
+  wapal: {
+    address: '0x584b50b999c78ade62f8359c91b5165ff390338d45f8e55969a04e65d76258c9',
+    buildPurchase: coinListingPurchase,
+  },
+  rarible: {
+    address: '0x465a0051e8535859d4794f0af24dbf35c5349bedadab26404b20b825035ee790',
+    buildPurchase: coinListingPurchase,
+  },
+};
+
+/**
+ * Look up a per-marketplace entry by raw marketplace ID
+ * Falls back to the base name (e.g. "bluemove_v2" -> "bluemove") when the
+ * exact version is not listed.
+ * @param table - Entries keyed on raw or base marketplace IDs
+ * @param marketplace - Raw marketplace ID from the indexer
+ */
+export function lookupByMarketplaceId<T>(table: Record<string, T>, marketplace: string): T | undefined {
+  if (!marketplace) return undefined;
+
+  const rawId = marketplace.toLowerCase();
+  if (table[rawId]) {
+    return table[rawId];
+  }
+
+  const baseName = rawId
+    .replace(/_v\d+$/i, '')  // Remove _v1, _v2, etc.
+    .replace(/_\d+$/i, '');  // Remove _1, _2, etc.
+  return table[baseName];
+}
+
+const resolveMarketplaceContract = (marketplace: string) =>
+  lookupByMarketplaceId(MARKETPLACE_CONTRACTS, marketplace);
+
+/**
+ * Check whether the aggregator knows how to buy from a marketplace
+ * @param marketplace - Raw marketplace ID from the indexer
+ */
+export function isPurchaseSupported(marketplace: string): boolean {
+  return !!resolveMarketplaceContract(marketplace);
+}
+
+/**
+ * Build the marketplace-specific entry function payload that buys a listing
+ * @param listing - Active listing to purchase
+ * @returns Entry function data ready for simulation or wallet submission
+ */
+export function buildPurchasePayload(listing: PurchasableListing): InputEntryFunctionData {
+  const contract = resolveMarketplaceContract(listing.marketplace);
+  if (!contract) {
+    throw new Error(`Buying from marketplace "${listing.marketplace}" is not supported yet`);
+  }
+
+  // Prefer the module address recorded on the listing itself so that
+  // redeployed contracts keep working without a code change
+  const moduleAddress = (listing.contract_address || contract.address).split('::')[0];
+  return contract.buildPurchase(listing, moduleAddress);
+}
+
+/**
+ * Offers are placed and listings created only through marketplaces built on
+ * the Aptos Labs token marketplace framework (coin_listing, token_offer and
+ * collection_offer modules), which take the fee schedule as an argument.
+ */
+const FRAMEWORK_CONTRACTS: Record<string, { address: string }> = {
+  wapal: { address: MARKETPLACE_CONTRACTS.wapal.address },
+  rarible: { address: MARKETPLACE_CONTRACTS.rarible.address },
+};
+
+/**
+ * Check whether the aggregator knows how to place offers on a marketplace
+ * @param marketplace - Raw marketplace ID from the indexer
+ */
+export function isOfferSupported(marketplace: string): boolean {
+  return !!lookupByMarketplaceId(FRAMEWORK_CONTRACTS, marketplace);
+}
+
+/**
+ * Build the entry function payload that places an offer
+ * @param request - Offer to place
+ * @param feeSchedule - Address of the marketplace's fee schedule object
+ * @returns Entry function data ready for wallet submission
+ */
+export function buildOfferPayload(request: OfferRequest, feeSchedule: string): InputEntryFunctionData {
+  const contract = lookupByMarketplaceId(FRAMEWORK_CONTRACTS, request.marketplace);
+  if (!contract) {
+    throw new Error(`Offers on marketplace "${request.marketplace}" are not supported yet`);
+  }
+
+  const price = aptToOctas(request.price_apt);
+  // The framework expects the expiration in seconds
+  const expiration = Math.floor(request.expires_at / 1000);
+
+  if (request.kind === 'token') {
+    if (!request.token_data_id) {
+      throw new Error('A token offer needs a token');
+    }
+    return {
+      function: `${contract.address}::token_offer::init_for_tokenv2_entry`,
+      typeArguments: [APTOS_COIN],
+      functionArguments: [request.token_data_id, feeSchedule, price, expiration],
+    };
+  }
+
+  if (!request.collection_id) {
+    throw new Error('A collection offer needs a collection');
+  }
+  return {
+    function: `${contract.address}::collection_offer::init_for_tokenv2_entry`,
+    typeArguments: [APTOS_COIN],
+    functionArguments: [request.collection_id, feeSchedule, price, request.token_amount || 1, expiration],
+  };
+}
+
+/**
+ * Build the entry function payload that cancels an offer
+ * @param offer - Active offer made by the connected account
+ * @returns Entry function data ready for wallet submission
+ */
+export function buildCancelOfferPayload(offer: MarketplaceOffer): InputEntryFunctionData {
+  const contract = lookupByMarketplaceId(FRAMEWORK_CONTRACTS, offer.marketplace_id);
+  if (!contract) {
+    throw new Error(`Offers on marketplace "${offer.marketplace_id}" are not supported yet`);
+  }
+
+  // Prefer the module address recorded on the offer, as for listings
+  const moduleAddress = (offer.contract_address || contract.address).split('::')[0];
+  const module = offer.kind === 'token' ? 'token_offer' : 'collection_offer';
+  return {
+    function: `${moduleAddress}::${module}::cancel`,
+    typeArguments: [APTOS_COIN],
+    functionArguments: [offer.offer_id],
+  };
+}
+
+/**
+ * Check whether the aggregator knows how to create listings on a marketplace
+ * @param marketplace - Raw marketplace ID from the indexer
+ */
+export function isListingSupported(marketplace: string): boolean {
+  return !!lookupByMarketplaceId(FRAMEWORK_CONTRACTS, marketplace);
+}
+
+/**
+ * Build the entry function payload that lists a token at a fixed price
+ * @param request - Listing to create
+ * @param feeSchedule - Address of the marketplace's fee schedule object
+ * @returns Entry function data ready for wallet submission
+ */
+export function buildListingPayload(request: ListingRequest, feeSchedule: string): InputEntryFunctionData {
+  const contract = lookupByMarketplaceId(FRAMEWORK_CONTRACTS, request.marketplace);
+  if (!contract) {
+    throw new Error(`Listing on marketplace "${request.marketplace}" is not supported yet`);
+  }
+
+  const price = aptToOctas(request.price_apt);
+  // Listings start immediately; the framework takes the start time in seconds
+  const startTime = Math.floor(Date.now() / 1000);
+  const { token } = request;
+
+  if (token.token_standard === 'v1') {
+    return {
+      function: `${contract.address}::coin_listing::init_fixed_price_for_tokenv1`,
+      typeArguments: [APTOS_COIN],
+      functionArguments: [
+        token.creator_address,
+        token.collection_name,
+        token.name,
+        token.property_version,
+        feeSchedule,
+        startTime,
+        price,
+      ],
+    };
+  }
+
+  return {
+    function: `${contract.address}::coin_listing::init_fixed_price`,
+    typeArguments: [APTOS_COIN],
+    functionArguments: [token.id, feeSchedule, startTime, price],
+  };
+}
+
+/**
+ * Build the entry function payload that cancels a listing
+ * @param listing - Active listing created by the connected account
+ * @returns Entry function data ready for wallet submission
+ */
+export function buildCancelListingPayload(
+  listing: Pick<PurchasableListing, 'listing_id' | 'marketplace' | 'contract_address'>
+): InputEntryFunctionData {
+  const contract = lookupByMarketplaceId(FRAMEWORK_CONTRACTS, listing.marketplace);
+  if (!contract) {
+    throw new Error(`Cancelling listings on marketplace "${listing.marketplace}" is not supported yet`);
+  }
+
+  const moduleAddress = (listing.contract_address || contract.address).split('::')[0];
+  return {
+    function: `${moduleAddress}::coin_listing::end_fixed_price`,
+    typeArguments: [APTOS_COIN],
+    functionArguments: [listing.listing_id],
+  };
+}
@@ -0,0 +1,141 @@
+import { CartItem, CartSummary, MarketplaceFeeSchedule, PriceBreakdown } from '../types';
+import { lookupByMarketplaceId } from './MarketplaceContracts';
+
+/**
+ * Fee schedules for each marketplace, keyed on raw or base marketplace IDs.
+ * Aptos marketplaces take their fee out of the seller's proceeds, so the
+ * buyer normally pays exactly the listing price.
+ */
+const DEFAULT_MARKETPLACE_FEES: Record<string, MarketplaceFeeSchedule> = {
+  tradeport: { taker_fee_bps: 0, maker_fee_bps: 150 },
+  bluemove: { taker_fee_bps: 0, maker_fee_bps: 250 },
+  wapal: { taker_fee_bps: 0, maker_fee_bps: 200 },
+  rarible: { taker_fee_bps: 0, maker_fee_bps: 100 },
+  topaz: { taker_fee_bps: 0, maker_fee_bps: 250 },
+};
+
+// Used for marketplaces we have no schedule for
+const DEFAULT_FEE_SCHEDULE: MarketplaceFeeSchedule = { taker_fee_bps: 0, maker_fee_bps: 0 };
+
+/**
+ * Parse fee overrides from VITE_MARKETPLACE_FEES
+ * Expects JSON keyed on raw marketplace IDs (the values in MarketplaceConfig.rawValues),
+ * e.g. {"tradeport_v2": {"taker_fee_bps": 0, "maker_fee_bps": 200}}
+ */
+function parseFeeOverrides(value: string | undefined): Record<string, MarketplaceFeeSchedule> {
+  if (!value) return {};
+
+  try {
+    const parsed = JSON.parse(value);
+    const overrides: Record<string, MarketplaceFeeSchedule> = {};
+    Object.entries(parsed as Record<string, Partial<MarketplaceFeeSchedule>>).forEach(([marketplace, schedule]) => {
+      overrides[marketplace.toLowerCase()] = {
+        taker_fee_bps: Number(schedule?.taker_fee_bps) || 0,
+        maker_fee_bps: Number(schedule?.maker_fee_bps) || 0,
+      };
+    });
+    return overrides;
+  } catch (error) {
+    console.error('Ignoring invalid VITE_MARKETPLACE_FEES:', error);
+    return {};
+  }
+}
+
+const marketplaceFees: Record<string, MarketplaceFeeSchedule> = {
+  ...DEFAULT_MARKETPLACE_FEES,
+  ...parseFeeOverrides(import.meta.env.VITE_MARKETPLACE_FEES),
+};
+
+/**
+ * Get the fee schedule for a marketplace
+ * @param marketplace - Raw marketplace ID from the indexer
+ */
+export function getMarketplaceFeeSchedule(marketplace: string): MarketplaceFeeSchedule {
+  return lookupByMarketplaceId(marketplaceFees, marketplace) || DEFAULT_FEE_SCHEDULE;
+}
+
+/**
+ * Set the fee schedule of a marketplace, e.g. when a marketplace changes its fees
+ * @param marketplace - Raw marketplace ID, or a base name to cover every version
+ * @param schedule - Fees in basis points
+ */
+export function setMarketplaceFeeSchedule(marketplace: string, schedule: MarketplaceFeeSchedule): void {
+  marketplaceFees[marketplace.toLowerCase()] = schedule;
+}
+
+/**
+ * Whether buyers pay the same fee on every given marketplace, so listing
+ * price order is also all-in price order
+ * @param marketplaces - Raw marketplace IDs, or every marketplace if undefined
+ */
+export function hasUniformTakerFee(marketplaces?: string[]): boolean {
+  const schedules = marketplaces
+    ? marketplaces.map((marketplace) => getMarketplaceFeeSchedule(marketplace))
+    : [...Object.values(marketplaceFees), DEFAULT_FEE_SCHEDULE];
+  return new Set(schedules.map((schedule) => schedule.taker_fee_bps)).size <= 1;
+}
+
+/**
+ * Split a listing price into what the buyer pays and what the seller receives
+ * @param price - Listing price in APT
+ * @param marketplace - Raw marketplace ID from the indexer
+ * @param royaltyBps - Creator royalty in basis points
+ */
+export function calculatePriceBreakdown(price: number, marketplace: string, royaltyBps: number = 0): PriceBreakdown {
+  const fees = getMarketplaceFeeSchedule(marketplace);
+  const takerFee = (price * fees.taker_fee_bps) / 10000;
+  const makerFee = (price * fees.maker_fee_bps) / 10000;
+  const royalty = (price * royaltyBps) / 10000;
+
+  return {
+    price_apt: price,
+    taker_fee_apt: takerFee,
+    maker_fee_apt: makerFee,
+    royalty_apt: royalty,
+    royalty_bps: royaltyBps,
+    buyer_cost_apt: price + takerFee,
+    seller_net_apt: Math.max(price - makerFee - royalty, 0),
+  };
+}
+
+/**
+ * Amount a buyer pays for a listing, including the marketplace's taker fee
+ * @param price - Listing price in APT
+ * @param marketplace - Raw marketplace ID from the indexer
+ * @returns Cost in APT
+ */
+export function calculateBuyerCost(price: number, marketplace: string): number {
+  return calculatePriceBreakdown(price, marketplace).buyer_cost_apt;
+}
+
+/**
+ * Calculate the price breakdown of the items in the cart
+ * @param items - Cart items
+ * @param royaltiesBps - Creator royalty per token data ID, in basis points
+ * @returns Totals in APT
+ */
+export function calculateCartSummary(items: CartItem[], royaltiesBps: Record<string, number> = {}): CartSummary {
+  return items.reduce<CartSummary>((summary, item) => {
+    const breakdown = calculatePriceBreakdown(
+      item.nft.price?.amount || 0,
+      item.nft.marketplace_id || '',
+      royaltiesBps[item.nft.id] ?? item.nft.royalty_bps ?? 0
+    );
+
+    return {
+      item_count: summary.item_count + 1,
+      subtotal: summary.subtotal + breakdown.price_apt,
+      marketplace_fees: summary.marketplace_fees + breakdown.taker_fee_apt,
+      seller_fees: summary.seller_fees + breakdown.maker_fee_apt,
+      royalties: summary.royalties + breakdown.royalty_apt,
+      total: summary.total + breakdown.buyer_cost_apt,
+    };
+  }, {
+    item_count: 0,
+    subtotal: 0,
+    marketplace_fees: 0,
+    seller_fees: 0,
+    royalties: 0,
+    total: 0,
+  });
+}
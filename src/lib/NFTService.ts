@@ -1,5 +1,103 @@
-import { NFT, MarketplaceConfig, AggregatorStats, CollectionRankingOptions } from '../types';
+import {
+  NFT,
+  CollectionRankingOptions,
+  CdnAssetUris,
+  ActiveListingsResponse,
+  NFTDetailsResponse,
+  IndexerTokenData,
+  ListingsPage,
+  ActiveListingsParams,
+  CollectionRankingRow,
+  TraitSelection,
+  TraitSummary,
+  TimePeriod,
+  PriceHistory,
+  PriceHistorySale,
+  TokenActivity,
+  TokenListing,
+  IndexerListingRow,
+  IndexerMarketplaceActivityRow,
+  WalletTrade,
+  WatchlistItem,
+  WatchlistQuote,
+  ListingsDelta,
+  MarketplaceSale,
+  RecentSalesParams,
+  SalesPage,
+  MalformedRow,
+} from '../types';
 import { AptosClient } from './AptosClient';
+import {
+  ListingsFilterBuilder,
+  listingsOrderBy,
+  containsInsensitive,
+  equalsInsensitive,
+  marketplaceComparison,
+  aptToOctas,
+  encodeListingsCursor,
+} from './QueryBuilder';
+import { summarizeTraits, traitLabel } from './Traits';
+import { buildPriceHistory, periodStart } from './PriceHistory';
+import { calculateBuyerCost, calculatePriceBreakdown, hasUniformTakerFee } from './MarketplaceFees';
+import { RarityService } from './RarityService';
+import { SALE_EVENT_TYPES, TIMELINE_EVENT_TYPES, normalizeTokenActivity } from './TokenActivity';
+import { CacheInvalidation, invalidateListingsCache, listingsScope, resourceCache } from './ResourceCache';
+import {
+  validateRows,
+  validateListingRow,
+  validateTokenData,
+  validateCollectionRow,
+  validateRankingRow,
+  validateActivityRow,
+  validateTokenActivityRow,
+} from './validation';
+
+// Listing fields needed to build a card
+const LISTING_CARD_FIELDS = `
+  token_name
+  token_data_id
+  seller
+  price
+  marketplace
+  listing_id
+  last_transaction_version
+  last_transaction_timestamp
+  collection_id
+  collection_data {
+    collection_name
+    uri
+    creator_address
+  }
+  current_token_data {
+    token_uri
+    token_name
+    description
+    token_properties
+    cdn_asset_uris {
+      cdn_image_uri
+      asset_uri
+      cdn_animation_uri
+      raw_animation_uri
+      raw_image_uri
+      cdn_json_uri
+    }
+  }
+`;
+
+// Listings of a client-side sorted or collapsed query, in display order
+interface ListingsWindow {
+  rows: IndexerListingRow[];
+  listing_counts: Record<string, number>;  // Listings per token when duplicates are collapsed
+  malformed: MalformedRow[];
+  total: number;  // Listings matching the filters
+  truncated: boolean;  // More listings match than were read
+}
+
+interface TokenRoyaltyRow {
+  token_data_id: string;
+  royalty_points_numerator: string | number;
+  royalty_points_denominator: string | number;
+}
 
 /**
  * NFTService - A service class for handling NFT-related operations
@@ -7,13 +105,24 @@ import { AptosClient } from './AptosClient';
  */
 export class NFTService {
   private readonly client: AptosClient;
-  private readonly metadataCache: Record<string, any> = {};
-  private readonly listingsCache: Record<string, {
-    timestamp: number;
-    data: { nfts: NFT[]; total: number };
-    params: string;
-  }> = {};
-  private readonly CACHE_EXPIRATION = 5 * 60 * 1000; // 5 minutes
+  private rarityService?: RarityService;
+  // Maximum number of sales loaded for a price history
+  private readonly PRICE_HISTORY_LIMIT = 1000;
+  // Maximum number of marketplace trades loaded for a wallet
+  private readonly WALLET_TRADES_LIMIT = 20000;
+  // Trades read per request while paging through a wallet's history
+  private readonly WALLET_TRADES_PAGE = 1000;
+  // Number of listings read when sorting or collapsing client-side (rarity,
+  // all-in price, duplicate listings), which the indexer cannot do
+  private readonly CLIENT_SIDE_WINDOW = 1000;
+  // Number of listings read for those modes within one collection
+  private readonly COLLECTION_WINDOW = 5000;
+  // Listings read per request while filling a window
+  private readonly WINDOW_BATCH = 500;
+  // Changed listings read per request by a live poll
+  private readonly LIVE_LISTINGS_LIMIT = 50;
+  // Requests one live poll makes at most; the rest is picked up by the next poll
+  private readonly LIVE_LISTINGS_MAX_PAGES = 10;
 
   /**
    * Creates a new NFTService
@@ -94,6 +203,33 @@ export class NFTService {
     return url;
   }
 
+  /**
+   * Find the fee schedule object a framework marketplace uses
+   * Taken from the marketplace's most recent listing, since framework
+   * marketplaces record it on every listing and offer.
+   * @param marketplace - Raw marketplace ID
+   * @returns Fee schedule address, or null if the marketplace has no listings
+   */
+  async fetchFeeScheduleAddress(marketplace: string): Promise<string | null> {
+    const query = `
+      query MarketplaceFeeSchedule($marketplace: String!) {
+        current_nft_marketplace_listings(
+          where: {marketplace: {_eq: $marketplace}, fee_schedule_id: {_is_null: false}}
+          order_by: {last_transaction_version: desc}
+          limit: 1
+        ) {
+          fee_schedule_id
+        }
+      }
+    `;
+
+    const data = await this.client.queryGraphQL<{
+      current_nft_marketplace_listings?: { fee_schedule_id?: string | null }[];
+    }>(query, { marketplace }, this.client.getNftIndexerEndpoint());
+
+    return data?.current_nft_marketplace_listings?.[0]?.fee_schedule_id || null;
+  }
+
   /**
    * Get the best available image URL from CDN asset URIs
    * @param cdnAssetUris - CDN asset URIs object
@@ -101,7 +237,7 @@ export class NFTService {
    * @param token_uri - Optional token URI
    * @returns Best available image URL
    */
-  async getBestImageUrl(cdnAssetUris: any, tokenName: string = 'NFT', token_uri?: string): Promise<string> {
+  async getBestImageUrl(cdnAssetUris: CdnAssetUris | null | undefined, tokenName: string = 'NFT', token_uri?: string): Promise<string> {
     if (!cdnAssetUris) return '';
     
     // First try the CDN image URI if available (second priority)
@@ -300,137 +436,86 @@ export class NFTService {
 
   /**
    * Fetch active NFT listings from marketplaces
+   * Rarity order, all-in order across fee levels and duplicate collapsing
+   * are done client-side: those modes read a window of matching listings,
+   * cached once for all its pages, and page through it by offset. Other
+   * cursors are keysets on the sort column and listing_id, so deep pages cost
+   * the same as the first.
    * @param params - Optional parameters for filtering and pagination
    * @returns Active NFT listings
    */
-  async fetchActiveListings(params: {
-    page?: number; 
-    pageSize?: number; 
-    collection?: string; 
-    marketplace?: string;
-    sortOrder?: string;
-    orderByClause?: string;
-    hideIncompleteMetadata?: boolean;
-    skipCache?: boolean;
-  } = {}): Promise<{ nfts: NFT[]; total: number }> {
+  async fetchActiveListings(params: ActiveListingsParams = {}): Promise<ListingsPage> {
     const { 
       page = 1, 
       pageSize = 10, 
       collection = undefined, 
+      collectionId = undefined,
       marketplace = undefined,
+      seller = undefined,
+      tokenDataId = undefined,
+      traits = undefined,
+      minPrice = undefined,
+      maxPrice = undefined,
       sortOrder = 'timestamp_desc',
-      orderByClause = 'last_transaction_timestamp',
       hideIncompleteMetadata = false,
-      skipCache = false
+      withRarity = false,
+      collapseDuplicates = false,
+      cursor = undefined,
+      skipCache = false,
+      onRefresh = undefined
     } = params;
 
     // Create a cache key from the params
-    const cacheParams = { page, pageSize, collection, marketplace, sortOrder, hideIncompleteMetadata };
-    const cacheKey = JSON.stringify(cacheParams);
-
-    // Check if we have a valid cache entry and not explicitly skipping cache
-    if (!skipCache && this.listingsCache[cacheKey]) {
-      const cacheEntry = this.listingsCache[cacheKey];
-      const now = Date.now();
-      // Check if cache entry is still valid (not expired)
-      if (now - cacheEntry.timestamp < this.CACHE_EXPIRATION) {
-        console.log(`Using cached listings for key: ${cacheKey}, age: ${(now - cacheEntry.timestamp) / 1000}s`);
-        return cacheEntry.data;
-      } else {
-        console.log(`Cache expired for key: ${cacheKey}, fetching fresh data`);
-      }
-    }
-
-    // Map dashboard sort options to GraphQL format
-    let orderPart = '';
-
-    // Map sort parameters from UI to GraphQL format
-    if (sortOrder) {
-      if (sortOrder === 'timestamp_desc') {
-        orderPart = 'order_by: {last_transaction_timestamp: desc}';
-      } else if (sortOrder === 'timestamp_asc') {
-        orderPart = 'order_by: {last_transaction_timestamp: asc}';
-      } else if (sortOrder === 'price_desc') {
-        orderPart = 'order_by: {price: desc}';
-      } else if (sortOrder === 'price_asc') {
-        orderPart = 'order_by: {price: asc}';
-      } else if (sortOrder === 'version_desc') {
-        orderPart = 'order_by: {last_transaction_version: desc}';
-      } else if (sortOrder === 'version_asc') {
-        orderPart = 'order_by: {last_transaction_version: asc}';
-      } else {
-        // Default fallback
-        orderPart = 'order_by: {last_transaction_timestamp: desc}';
-      }
-    } else {
-      // Default if no sort order specified
-      orderPart = 'order_by: {last_transaction_timestamp: desc}';
-    }
+    const cacheParams = {
+      page, pageSize, collection, collectionId, marketplace, seller, tokenDataId, traits, minPrice, maxPrice, sortOrder,
+      hideIncompleteMetadata, withRarity, collapseDuplicates, cursor,
+    };
+    const scope = listingsScope({ collectionId, tokenDataId, marketplace });
 
-    // Calculate appropriate limit based on filters applied
-    const queryLimit = marketplace ? pageSize * 5 : hideIncompleteMetadata ? pageSize * 3 : pageSize;
-    const queryOffset = (hideIncompleteMetadata || marketplace) ? 0 : (page - 1) * pageSize;
+    const isRaritySort = sortOrder === 'rarity_asc' || sortOrder === 'rarity_desc';
+    // When buyers pay the same fee everywhere, the indexer's price order is all-in order
+    const isAllInSort = (sortOrder === 'all_in_asc' || sortOrder === 'all_in_desc')
+      && !hasUniformTakerFee(marketplace ? marketplace.split(',').filter(Boolean) : undefined);
+    const isWindowed = isRaritySort || isAllInSort || collapseDuplicates;
+    // Windowed cursors are offsets into the window
+    const windowCursor = isWindowed && cursor ? parseInt(cursor, 10) : NaN;
+    const offset = Number.isFinite(windowCursor) ? windowCursor : cursor ? 0 : (page - 1) * pageSize;
+    // A collection's listings are read in full where possible, so rarity ranks the whole collection
+    const windowSize = collection || collectionId ? this.COLLECTION_WINDOW : this.CLIENT_SIDE_WINDOW;
     
-    // Handle marketplace parameter based on the marketplace
-    let marketplaceFilter = '';
-    if (marketplace) {
-      if (marketplace.toLowerCase() === 'topaz') {
-        marketplaceFilter = `marketplace: {_eq: "topaz"}`;
-      } else if (marketplace.toLowerCase().includes('tradeport')) {
-        marketplaceFilter = `marketplace: {_in: ["tradeport_v1", "tradeport_v2"]}`;
-      } else {
-        marketplaceFilter = `marketplace: {_ilike: "${marketplace}"}`;
-      }
-    }
+    // Filters and sorting are passed as variables, never pasted into the query
+    // Incomplete metadata is filtered by the indexer, so pages stay full and the count is right
+    const filters = () => new ListingsFilterBuilder()
+      .active()
+      .marketplace(marketplace)
+      .collectionName(collection)
+      .collectionId(collectionId)
+      .seller(seller)
+      .tokenDataId(tokenDataId)
+      .traits(traits)
+      .priceRange(minPrice, maxPrice)
+      .completeMetadata(hideIncompleteMetadata);
+    const countWhere = filters().build();
     
     const smallQuery = `
-      query ActiveListingsSimple {
+      query ActiveListingsSimple(
+        $where: current_nft_marketplace_listings_bool_exp!
+        $count_where: current_nft_marketplace_listings_bool_exp!
+        $order_by: [current_nft_marketplace_listings_order_by!]
+        $limit: Int!
+        $offset: Int!
+      ) {
         current_nft_marketplace_listings(
-          limit: ${queryLimit}
-          offset: ${queryOffset}
-          where: {
-            is_deleted: {_eq: false}
-            ${marketplaceFilter ? marketplaceFilter : ''}
-            ${collection ? `, collection_data: {collection_name: {_ilike: "%${collection}%"}}` : ''}
-          }
-          ${orderPart}
+          limit: $limit
+          offset: $offset
+          where: $where
+          order_by: $order_by
         ) {
-          token_name
-          token_data_id
-          seller
-          price
-          marketplace
-          listing_id
-          last_transaction_timestamp
-          collection_id
-          collection_data {
-            collection_name
-            uri
-            creator_address
-          }
-          current_token_data {
-            token_uri
-            token_name
-            description
-            cdn_asset_uris {
-              cdn_image_uri
-              asset_uri
-              cdn_animation_uri
-              raw_animation_uri
-              raw_image_uri
-              cdn_json_uri
-            }
-          }
+          ${LISTING_CARD_FIELDS}
         }
         
-        # Get the total count for pagination
-        current_nft_marketplace_listings_aggregate(
-          where: {
-            is_deleted: {_eq: false}
-            ${marketplaceFilter ? marketplaceFilter : ''}
-            ${collection ? `, collection_data: {collection_name: {_ilike: "%${collection}%"}}` : ''}
-          }
-        ) {
+        # Get the total count for pagination, ignoring the cursor
+        current_nft_marketplace_listings_aggregate(where: $count_where) {
           aggregate {
             count
           }
@@ -438,120 +523,152 @@ export class NFTService {
       }
     `;
 
-    try {
-      // Use our AptosClient to execute the GraphQL query
-      const responseData = await this.client.queryGraphQL<any>(smallQuery, {}, this.client.getNftIndexerEndpoint());
+    // Read one page of listings after a keyset cursor
+    const queryListings = async (after: string | undefined, limit: number, queryOffset: number) => {
+      const data = await this.client.queryGraphQL<ActiveListingsResponse>(
+        smallQuery,
+        {
+          where: filters().after(sortOrder, after).build(),
+          count_where: countWhere,
+          order_by: listingsOrderBy(sortOrder),
+          limit,
+          offset: queryOffset,
+        },
+        this.client.getNftIndexerEndpoint()
+      );
       
-      // Check if data property exists in the response
-      if (!responseData || !responseData.data) {
-        return { nfts: [], total: 0 };
+      // Thrown rather than returned, so the empty page is not cached
+      if (!data || !data.current_nft_marketplace_listings) {
+        throw new Error('Invalid response structure from NFT Indexer API');
       }
       
-      // Access the data property from the response
-      const data = responseData.data;
-      
-      if (!data.current_nft_marketplace_listings) {
-        return { nfts: [], total: 0 };
+      // Rows missing required fields are reported rather than shown as "Unknown"
+      const { valid, malformed } = validateRows(
+        data.current_nft_marketplace_listings,
+        validateListingRow,
+        'current_nft_marketplace_listings'
+      );
+      return {
+        valid,
+        malformed,
+        read: data.current_nft_marketplace_listings.length,
+        // Get the total listings count for pagination
+        total: data.current_nft_marketplace_listings_aggregate?.aggregate?.count ?? valid.length,
+      };
+    };
+
+    // Read the window in keyset batches, then sort or collapse it
+    const loadWindow = async (): Promise<ListingsWindow> => {
+      let rows: IndexerListingRow[] = [];
+      const malformed: MalformedRow[] = [];
+      let read = 0;
+      let total = 0;
+      let after: string | undefined;
+
+      while (read < windowSize) {
+        const limit = Math.min(this.WINDOW_BATCH, windowSize - read);
+        const batch = await queryListings(after, limit, 0);
+        rows.push(...batch.valid);
+        malformed.push(...batch.malformed);
+        read += batch.read;
+        total = batch.total;
+
+        const lastRow = batch.valid[batch.valid.length - 1];
+        after = lastRow ? encodeListingsCursor(sortOrder, lastRow) : undefined;
+        if (batch.read < limit || !after) break;
       }
-      
-      const listings = data.current_nft_marketplace_listings || [];
-      // Get the total listings count for pagination
-      const totalCount = data.current_nft_marketplace_listings_aggregate?.aggregate?.count || listings.length;
-      
-      // Transform the data to match our NFT type and filter out items with no token name
-      const nftsPromises = listings
-        .filter((listing: any) => {
-          // For Topaz, be more lenient and keep all listings
-          if (listing.marketplace && listing.marketplace.toLowerCase().includes('topaz')) {
-            return true;
-          }
-          
-          // For other marketplaces, check token name as usual
-          return !!(listing.token_name || 
-                    (listing.current_token_data && listing.current_token_data.token_name));
-        })
-        .map(async (listing: any): Promise<NFT> => {
-          const tokenData = listing.current_token_data || {};
-          const collectionData = listing.collection_data || {};
-          
-          // Get the best available image URL using our helper
-          let imageUrl = '';
-          if (tokenData.cdn_asset_uris) {
-            try {
-              imageUrl = await this.getBestImageUrl(
-                tokenData.cdn_asset_uris, 
-                listing.token_name || tokenData.token_name,
-                tokenData.token_uri
-              );
-            } catch (error) {
-              // If image URL fetching fails, continue with a placeholder
-            }
-          }
-          
-          // If we don't have any usable URL, generate a placeholder
-          if (!imageUrl) {
-            const placeholderId = listing.token_name || Math.random().toString(36).substring(7);
-            imageUrl = `https://placehold.co/500x500/eee/999?text=${encodeURIComponent(placeholderId)}`;
+
+      rows = rows.filter((listing) => this.isDisplayableListing(listing));
+
+      let listingCounts: Record<string, number> = {};
+      if (collapseDuplicates) {
+        ({ rows, listingCounts } = this.collapseDuplicateListings(rows));
+      }
+
+      if (isRaritySort) {
+        const ranked = await this.rarity().lookupRarity(
+          rows.map((listing) => ({ id: listing.token_data_id, collection_id: listing.collection_id }))
+        );
+        const rankOf = (id: string) => ranked[id]?.rarity.rank;
+
+        // Rarest first for rarity_desc; unranked tokens always go last
+        rows = [...rows].sort((a, b) => {
+          const rankA = rankOf(a.token_data_id);
+          const rankB = rankOf(b.token_data_id);
+          if (rankA === undefined || rankB === undefined) {
+            return (rankA === undefined ? 1 : 0) - (rankB === undefined ? 1 : 0);
           }
-          
-          // Check if metadata is complete
-          const hasCompleteName = !!(listing.token_name || tokenData.token_name);
-          const hasDescription = !!tokenData.description;
-          const hasImage = !!imageUrl;
-          const hasCompleteMetadata = (hasCompleteName && hasDescription && hasImage);
-          
-          return {
-            id: listing.token_data_id || `listing-${listing.listing_id}`,
-            name: listing.token_name || tokenData.token_name || `NFT #${listing.listing_id || 'Unknown'}`,
-            description: tokenData.description || collectionData.description || 'No description available',
-            image_url: imageUrl,
-            marketplace: this.formatMarketplaceName(listing.marketplace || 'Unknown'),
-            collection_name: collectionData.collection_name || 'Unknown Collection',
-            creator_address: collectionData.creator_address || '',
-            owner_address: listing.seller || '',
-            price: {
-              amount: listing.price ? parseFloat(listing.price) / 100000000 : 0, // Convert from octas to APT
-              currency: 'APT',
-            },
-            token_properties: this.parseTokenProperties(tokenData.token_properties),
-            created_at: listing.last_transaction_timestamp ? new Date(listing.last_transaction_timestamp).toISOString() : new Date().toISOString(),
-            listing_id: listing.listing_id || '',
-            collection_id: tokenData.collection_id || listing.collection_id || '',
-            token_uri: tokenData.token_uri || collectionData.uri || '',
-            hasCompleteMetadata: hasCompleteMetadata,
-          };
+          return sortOrder === 'rarity_desc' ? rankA - rankB : rankB - rankA;
         });
-      
-      // Wait for all NFT processing to complete
-      const nfts = await Promise.all(nftsPromises);
-      
-      // Filter out NFTs with incomplete metadata if requested
-      const filteredNfts = hideIncompleteMetadata 
-        ? nfts.filter((nft: NFT) => nft.hasCompleteMetadata) 
-        : nfts;
-      
-      // If we're hiding incomplete metadata, we need to handle pagination manually
-      let paginatedNfts = filteredNfts;
-      if (hideIncompleteMetadata) {
-        // Apply pagination manually
-        const startIndex = (page - 1) * pageSize;
-        paginatedNfts = filteredNfts.slice(startIndex, startIndex + pageSize);
       }
 
+      if (isAllInSort) {
+        // Stable sort, so listings with the same all-in price keep the indexer's order
+        const buyerCost = (listing: IndexerListingRow) =>
+          calculateBuyerCost(this.formatAPTAmount(listing.price), listing.marketplace);
+        rows = [...rows].sort((a, b) =>
+          sortOrder === 'all_in_asc' ? buyerCost(a) - buyerCost(b) : buyerCost(b) - buyerCost(a)
+        );
+      }
+
+      return { rows, listing_counts: listingCounts, malformed, total, truncated: read < total };
+    };
+
+    const loadListings = async ({ refreshing }: { refreshing: boolean }): Promise<ListingsPage> => {
+      let rows: IndexerListingRow[];
+      let listingCounts: Record<string, number> = {};
+      let pageInfo: Omit<ListingsPage, 'nfts'>;
+
+      if (isWindowed) {
+        // Every page of the query shares the window, so its key leaves out the page
+        const window = await resourceCache.get(
+          'listings',
+          { ...cacheParams, page: undefined, cursor: undefined, window: true },
+          loadWindow,
+          // A page being refreshed must not be rebuilt from a stale window
+          { scope, skipCache: skipCache || refreshing }
+        );
+        rows = window.rows.slice(offset, offset + pageSize);
+        listingCounts = window.listing_counts;
+        pageInfo = {
+          // Only the window can be paged through; truncated tells the caller there is more
+          total: window.rows.length,
+          next_cursor: offset + pageSize < window.rows.length ? String(offset + pageSize) : undefined,
+          malformed: window.malformed,
+          truncated: window.truncated,
+          window_size: windowSize,
+        };
+      } else {
+        const result = await queryListings(cursor, pageSize, cursor ? 0 : offset);
+        // The next keyset starts after the last row read, even if it is not displayed
+        const lastRow = result.valid[result.valid.length - 1];
+        rows = result.valid.filter((listing) => this.isDisplayableListing(listing));
+        pageInfo = {
+          total: result.total || result.valid.length,
+          next_cursor: lastRow && result.read >= pageSize ? encodeListingsCursor(sortOrder, lastRow) : undefined,
+          malformed: result.malformed,
+        };
+      }
+
+      // Transform the data to match our NFT type
+      let nfts = await Promise.all(rows.map(async (listing): Promise<NFT> => ({
+        ...await this.toListingNFT(listing),
+        listing_count: listingCounts[listing.token_data_id],
+      })));
+
+      if (withRarity || isRaritySort) {
+        nfts = await this.rarity().applyRarity(nfts);
+      }
+
+      // Royalties are needed to show what each seller receives
+      nfts = await this.applyRoyalties(nfts);
+
       // Return without processing NFT image URLs - just use what we have
-      const result = {
-        nfts: paginatedNfts,
-        total: hideIncompleteMetadata ? filteredNfts.length : totalCount, 
-      };
-      
-      // Store in cache with current timestamp
-      this.listingsCache[cacheKey] = {
-        timestamp: Date.now(),
-        data: result,
-        params: cacheKey
-      };
-      
-      return result;
+      return { nfts, ...pageInfo };
+    };
+
+    try {
+      return await resourceCache.get('listings', cacheParams, loadListings, { scope, skipCache, onRefresh });
     } catch (error) {
       console.error('Error fetching active listings:', error);
       return { nfts: [], total: 0 };
@@ -559,36 +676,400 @@ export class NFTService {
   }
 
   /**
-   * Manual cache invalidation for fetchActiveListings
-   * @param specificParams - Optional specific params to invalidate, or all cache if undefined
+   * Keep one listing per token, the cheapest for the buyer
+   * Each token stays at the position of its first listing, so the sort order holds.
+   * @param listings - Listing rows in display order
+   * @returns The kept rows and the number of listings per token
    */
-  invalidateListingsCache(specificParams?: any): void {
-    if (specificParams) {
-      // Invalidate specific cache entry
-      const cacheKey = JSON.stringify(specificParams);
-      if (this.listingsCache[cacheKey]) {
-        delete this.listingsCache[cacheKey];
-        console.log(`Invalidated listings cache for key: ${cacheKey}`);
+  private collapseDuplicateListings(listings: IndexerListingRow[]): {
+    rows: IndexerListingRow[];
+    listingCounts: Record<string, number>;
+  } {
+    const best: Record<string, IndexerListingRow> = {};
+    const listingCounts: Record<string, number> = {};
+    const order: string[] = [];
+    const buyerCost = (listing: IndexerListingRow) =>
+      calculateBuyerCost(this.formatAPTAmount(listing.price), listing.marketplace);
+
+    listings.forEach((listing) => {
+      const tokenId = listing.token_data_id;
+      if (!best[tokenId]) {
+        order.push(tokenId);
+        best[tokenId] = listing;
+      } else if (buyerCost(listing) < buyerCost(best[tokenId])) {
+        best[tokenId] = listing;
       }
-    } else {
-      // Invalidate all cache entries
-      Object.keys(this.listingsCache).forEach(key => {
-        delete this.listingsCache[key];
-      });
-      console.log('Invalidated all listings cache entries');
+      listingCounts[tokenId] = (listingCounts[tokenId] || 0) + 1;
+    });
+
+    return { rows: order.map((tokenId) => best[tokenId]), listingCounts };
+  }
+
+  /**
+   * Use a rarity service for rarity sorting and ranks on listings
+   * Set after construction, since the rarity service loads tokens through this service.
+   * @param rarityService - Rarity service of the same network
+   */
+  setRarityService(rarityService: RarityService): void {
+    this.rarityService = rarityService;
+  }
+
+  private rarity(): RarityService {
+    if (!this.rarityService) {
+      throw new Error('NFTService has no rarity service');
+    }
+    return this.rarityService;
+  }
+
+  /**
+   * Fetch what changed in a listings view since the last poll
+   * New and repriced listings are found by transaction version; displayed
+   * listings that are no longer active were sold or cancelled. Changes are
+   * paged up to a cap, and the version returned only covers what was read.
+   * Without a version nothing is added and the latest version is returned as
+   * the baseline for the next poll.
+   * @param params - Filters of the view, the version to poll from and the displayed listing IDs
+   * @returns - Added listings, removed listing IDs and the version to poll from next
+   */
+  async pollListingChanges(params: {
+    marketplace?: string;
+    collection?: string;
+    collectionId?: string;
+    seller?: string;
+    traits?: TraitSelection;
+    minPrice?: number;  // In APT
+    maxPrice?: number;  // In APT
+    sinceVersion?: string;
+    displayedListingIds: string[];
+  }): Promise<ListingsDelta> {
+    const { sinceVersion, displayedListingIds } = params;
+    const changedSince = (after?: IndexerListingRow) => {
+      const filters = new ListingsFilterBuilder()
+        .active()
+        .marketplace(params.marketplace)
+        .collectionName(params.collection)
+        .collectionId(params.collectionId)
+        .seller(params.seller)
+        .traits(params.traits)
+        .priceRange(params.minPrice, params.maxPrice)
+        .sinceVersion(sinceVersion);
+      // Keyset position after the last row read, in (version, listing_id) order
+      return after
+        ? filters.where({
+          _or: [
+            { last_transaction_version: { _gt: String(after.last_transaction_version) } },
+            { last_transaction_version: { _eq: String(after.last_transaction_version) }, listing_id: { _gt: after.listing_id } },
+          ],
+        }).build()
+        : filters.build();
+    };
+    const displayed = (listingIds: string[]) => new ListingsFilterBuilder()
+      .active()
+      .where({ listing_id: { _in: listingIds } })
+      .build();
+
+    const query = `
+      query ListingChanges(
+        $where: current_nft_marketplace_listings_bool_exp!
+        $displayed: current_nft_marketplace_listings_bool_exp!
+        $order_by: [current_nft_marketplace_listings_order_by!]
+        $limit: Int!
+      ) {
+        changed: current_nft_marketplace_listings(where: $where, order_by: $order_by, limit: $limit) {
+          ${LISTING_CARD_FIELDS}
+        }
+        still_active: current_nft_marketplace_listings(where: $displayed) {
+          listing_id
+        }
+      }
+    `;
+    const queryChanges = (variables: Record<string, unknown>) => this.client.queryGraphQL<{
+      changed?: unknown[];
+      still_active?: { listing_id: string }[];
+    }>(query, variables, this.client.getNftIndexerEndpoint());
+
+    try {
+      // The baseline only needs the newest version
+      if (sinceVersion === undefined) {
+        const data = await queryChanges({
+          where: changedSince(),
+          displayed: displayed(displayedListingIds),
+          order_by: [{ last_transaction_version: 'desc' }, { listing_id: 'asc' }],
+          limit: 1,
+        });
+        const { valid } = validateRows(data?.changed, validateListingRow, 'current_nft_marketplace_listings');
+        const stillActive = new Set((data?.still_active || []).map((row) => row.listing_id));
+        return {
+          added: [],
+          removed_listing_ids: displayedListingIds.filter((listingId) => !stillActive.has(listingId)),
+          latest_version: valid[0]?.last_transaction_version != null ? String(valid[0].last_transaction_version) : undefined,
+        };
+      }
+
+      // Changes are read oldest first, so a poll that stops early can resume from where it stopped
+      const changed: IndexerListingRow[] = [];
+      let stillActive = new Set<string>();
+      let latestVersion = sinceVersion;
+      let last: IndexerListingRow | undefined;
+      for (let page = 0; page < this.LIVE_LISTINGS_MAX_PAGES; page++) {
+        const data = await queryChanges({
+          where: changedSince(last),
+          displayed: displayed(page === 0 ? displayedListingIds : []),
+          order_by: [{ last_transaction_version: 'asc' }, { listing_id: 'asc' }],
+          limit: this.LIVE_LISTINGS_LIMIT,
+        });
+        if (page === 0) {
+          stillActive = new Set((data?.still_active || []).map((row) => row.listing_id));
+        }
+
+        const rows = data?.changed || [];
+        const { valid } = validateRows(rows, validateListingRow, 'current_nft_marketplace_listings');
+        changed.push(...valid);
+        last = valid[valid.length - 1] ?? last;
+
+        if (rows.length < this.LIVE_LISTINGS_LIMIT) {
+          latestVersion = last?.last_transaction_version != null ? String(last.last_transaction_version) : sinceVersion;
+          break;
+        }
+        // Rows of the last version may continue on the next page, so the next poll reads that version again
+        if (last?.last_transaction_version != null) {
+          latestVersion = (BigInt(last.last_transaction_version) - BigInt(1)).toString();
+        }
+      }
+
+      const removedListingIds = displayedListingIds.filter((listingId) => !stillActive.has(listingId));
+      const added = await this.applyRoyalties(await Promise.all(
+        changed
+          .reverse()
+          .filter((listing) => this.isDisplayableListing(listing))
+          .map((listing) => this.toListingNFT(listing))
+      ));
+      return { added, removed_listing_ids: removedListingIds, latest_version: latestVersion };
+    } catch (error) {
+      console.error('Error polling listing changes:', error);
+      return { added: [], removed_listing_ids: [], latest_version: sinceVersion };
+    }
+  }
+
+  /**
+   * Whether a listing row has enough data to be shown as a card
+   * @param listing - Validated listing row
+   */
+  private isDisplayableListing(listing: IndexerListingRow): boolean {
+    // For Topaz, be more lenient and keep all listings
+    if (listing.marketplace.toLowerCase().includes('topaz')) {
+      return true;
+    }
+    
+    // For other marketplaces, check token name as usual
+    return !!(listing.token_name || listing.current_token_data?.token_name);
+  }
+
+  /**
+   * Convert a listing row to the NFT shown on a card
+   * @param listing - Validated listing row
+   * @returns - NFT with its listing price, without royalties
+   */
+  private async toListingNFT(listing: IndexerListingRow): Promise<NFT> {
+    const tokenData = listing.current_token_data || {};
+    const collectionData = listing.collection_data;
+    
+    // Get the best available image URL using our helper
+    let imageUrl = '';
+    if (tokenData.cdn_asset_uris) {
+      try {
+        imageUrl = await this.getBestImageUrl(
+          tokenData.cdn_asset_uris, 
+          listing.token_name || tokenData.token_name || undefined,
+          tokenData.token_uri || undefined
+        );
+      } catch (error) {
+        // If image URL fetching fails, continue with a placeholder
+      }
+    }
+    
+    // If we don't have any usable URL, generate a placeholder
+    if (!imageUrl) {
+      const placeholderId = listing.token_name || listing.listing_id;
+      imageUrl = `https://placehold.co/500x500/eee/999?text=${encodeURIComponent(placeholderId)}`;
+    }
+    
+    // Check if metadata is complete
+    const hasCompleteName = !!(listing.token_name || tokenData.token_name);
+    const hasDescription = !!tokenData.description;
+    const hasImage = !!imageUrl;
+    const hasCompleteMetadata = (hasCompleteName && hasDescription && hasImage);
+    
+    return {
+      id: listing.token_data_id,
+      name: listing.token_name || tokenData.token_name || `NFT #${listing.listing_id}`,
+      description: tokenData.description || collectionData.description || 'No description available',
+      image_url: imageUrl,
+      marketplace: this.formatMarketplaceName(listing.marketplace),
+      marketplace_id: listing.marketplace,
+      collection_name: collectionData.collection_name,
+      creator_address: collectionData.creator_address || '',
+      owner_address: listing.seller,
+      price: {
+        amount: this.formatAPTAmount(listing.price),
+        currency: 'APT',
+      },
+      token_properties: this.parseTokenProperties(tokenData.token_properties),
+      created_at: listing.last_transaction_timestamp ? new Date(this.parseIndexerTimestamp(listing.last_transaction_timestamp)).toISOString() : new Date().toISOString(),
+      listing_id: listing.listing_id,
+      collection_id: tokenData.collection_id || listing.collection_id || '',
+      token_uri: tokenData.token_uri || collectionData.uri || '',
+      hasCompleteMetadata: hasCompleteMetadata,
+    };
+  }
+
+  /**
+   * Fetch trait types, values and counts for a collection
+   * Counts are taken over every token of the collection, not only the listed ones.
+   * @param collectionId - Collection ID
+   * @returns Trait summaries, empty if the collection has no properties
+   */
+  async fetchCollectionTraits(collectionId: string): Promise<TraitSummary[]> {
+    const loadTraits = async (): Promise<TraitSummary[]> => {
+      const tokens = await this.fetchCollectionTokens(collectionId);
+      return summarizeTraits(tokens.map((token) => this.parseTokenPropertyValues(token.token_properties)));
+    };
+
+    try {
+      return await resourceCache.get('traits', { collectionId }, loadTraits, { scope: { collections: [collectionId] } });
+    } catch (error) {
+      console.error(`Error fetching traits for collection ${collectionId}:`, error);
+      return [];
     }
   }
 
   /**
-   * Parse token properties from string to object
-   * @param properties - Token properties as string
+   * Find the collections whose name is exactly the given one, ignoring case
+   * Names are not unique on chain, so callers decide what to do with several matches.
+   * @param name - Collection name
+   * @param limit - Maximum number of collections to return
+   * @returns Matching collection IDs and names, empty on error
+   */
+  async findCollectionsByName(name: string, limit: number = 10): Promise<{ collection_id: string; collection_name: string }[]> {
+    const query = `
+      query CollectionsByName($where: current_collections_v2_bool_exp!, $limit: Int!) {
+        current_collections_v2(where: $where, limit: $limit) {
+          collection_id
+          collection_name
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.queryGraphQL<{ current_collections_v2?: unknown[] }>(
+        query,
+        { where: { collection_name: equalsInsensitive(name) }, limit },
+        this.client.getNftIndexerEndpoint()
+      );
+
+      const { valid } = validateRows(data?.current_collections_v2, validateCollectionRow, 'current_collections_v2');
+      return valid.map(({ collection_id, collection_name }) => ({ collection_id, collection_name }));
+    } catch (error) {
+      console.error(`Error finding collections named ${name}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the parsed properties of every token in a collection
+   * @param collectionId - Collection ID
+   * @param maxTokens - Stop after this many tokens; the whole collection when undefined
+   * @returns Token data IDs with their properties
+   */
+  async fetchCollectionTokenProperties(
+    collectionId: string,
+    maxTokens?: number
+  ): Promise<{ token_data_id: string; properties?: Record<string, string> }[]> {
+    const tokens = await this.fetchCollectionTokens(collectionId, maxTokens);
+    return tokens.map((token) => ({
+      token_data_id: token.token_data_id,
+      properties: this.parseTokenProperties(token.token_properties),
+    }));
+  }
+
+  /**
+   * Fetch the token data rows of a collection with their properties
+   * Pages through the indexer by token data ID until it runs out of tokens,
+   * or until the optional cap is reached.
+   * @param collectionId - Collection ID
+   * @param maxTokens - Stop after this many tokens; the whole collection when undefined
+   */
+  private async fetchCollectionTokens(collectionId: string, maxTokens: number = Infinity): Promise<IndexerTokenData[]> {
+    const pageSize = 1000;
+    const query = `
+      query CollectionTokenProperties($collection_id: String!, $after: String!, $limit: Int!) {
+        current_token_datas_v2(
+          where: {collection_id: {_eq: $collection_id}, token_data_id: {_gt: $after}}
+          order_by: {token_data_id: asc}
+          limit: $limit
+        ) {
+          token_data_id
+          token_properties
+        }
+      }
+    `;
+
+    const tokens: IndexerTokenData[] = [];
+    // Keyset paging, so tokens minted meanwhile cannot shift later pages
+    let after = '';
+
+    while (tokens.length < maxTokens) {
+      const limit = Math.min(pageSize, maxTokens - tokens.length);
+      const data = await this.client.queryGraphQL<{ current_token_datas_v2?: unknown[] }>(
+        query,
+        { collection_id: collectionId, after, limit },
+        this.client.getNftIndexerEndpoint()
+      );
+
+      const rows = data?.current_token_datas_v2 || [];
+      const { valid } = validateRows(rows, validateTokenData, 'current_token_datas_v2');
+      tokens.push(...valid);
+
+      const last = valid[valid.length - 1];
+      if (rows.length < limit || !last) break;
+      after = last.token_data_id;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Drop cached listings pages
+   * @param target - Collection, token, marketplace or query params to drop, or every page if undefined
+   */
+  invalidateListingsCache(target?: Omit<CacheInvalidation, 'resources'>): void {
+    invalidateListingsCache(target);
+  }
+
+  /**
+   * Parse token properties into a flat map of trait labels
+   * @param properties - Token properties as a jsonb object or JSON string
    * @returns Parsed token properties or undefined
    */
-  parseTokenProperties(properties: string | null | undefined): Record<string, string> | undefined {
+  parseTokenProperties(properties: IndexerTokenData['token_properties']): Record<string, string> | undefined {
+    const values = this.parseTokenPropertyValues(properties);
+    return values
+      ? Object.fromEntries(Object.entries(values).map(([key, value]) => [key, traitLabel(value)]))
+      : undefined;
+  }
+
+  /**
+   * Parse token properties, keeping each value's JSON type
+   * @param properties - Token properties as a jsonb object or JSON string
+   * @returns Parsed token properties or undefined
+   */
+  parseTokenPropertyValues(properties: IndexerTokenData['token_properties']): Record<string, unknown> | undefined {
     if (!properties) return undefined;
-    
+
     try {
-      return JSON.parse(properties);
+      const parsed: unknown = typeof properties === 'string' ? JSON.parse(properties) : properties;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return undefined;
+      return parsed as Record<string, unknown>;
     } catch (error) {
       console.error('Error parsing token properties:', error);
       return undefined;
@@ -601,8 +1082,19 @@ export class NFTService {
    * @returns - Amount in APT as a number
    */
   formatAPTAmount(octas: string | number): number {
-    const amount = typeof octas === 'string' ? BigInt(octas) : BigInt(Math.floor(Number(octas)));
-    return Number(amount) / 100000000; // 8 decimal places for APT
+    // Decimals from the analytics API are floored; anything that is not a number counts as 0
+    const amount = Math.floor(Number(octas));
+    return Number.isFinite(amount) ? amount / 100000000 : 0; // 8 decimal places for APT
+  }
+
+  /**
+   * Parse an indexer timestamp into milliseconds since epoch
+   * @param timestamp - Timestamp from the indexer, in UTC but without a zone suffix
+   * @returns - Milliseconds since epoch
+   */
+  parseIndexerTimestamp(timestamp: string): number {
+    const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(timestamp);
+    return new Date(hasZone ? timestamp : `${timestamp}Z`).getTime();
   }
 
   /**
@@ -613,8 +1105,8 @@ export class NFTService {
   async fetchNFTDetails(nftId: string): Promise<NFT | null> {
     try {
       const query = `
-        query GetNFTDetailsByTokenId {
-          current_token_datas_v2(where: {token_data_id: {_eq: "${nftId}"}}) {
+        query GetNFTDetailsByTokenId($token_data_id: String!) {
+          current_token_datas_v2(where: {token_data_id: {_eq: $token_data_id}}) {
             token_data_id
             token_name
             token_uri
@@ -634,25 +1126,51 @@ export class NFTService {
               cdn_json_uri
             }
           }
-          current_nft_marketplace_listings(where: {token_data_id: {_eq: "${nftId}"}, is_deleted: {_eq: false}}, limit: 1) {
+          current_nft_marketplace_listings(
+            where: {token_data_id: {_eq: $token_data_id}, is_deleted: {_eq: false}}
+            order_by: {price: asc}
+          ) {
             listing_id
+            token_data_id
             price
             marketplace
             seller
             last_transaction_timestamp
             collection_data {
               collection_name
+              creator_address
             }
           }
         }
       `;
       
-      const response = await this.client.queryGraphQL<any>(query, {}, this.client.getNftIndexerEndpoint());
+      const response = await this.client.queryGraphQL<NFTDetailsResponse>(
+        query,
+        { token_data_id: nftId },
+        this.client.getNftIndexerEndpoint()
+      );
+      
+      const { valid: tokens } = validateRows(
+        response?.current_token_datas_v2,
+        validateTokenData,
+        'current_token_datas_v2'
+      );
+      const { valid: listings } = validateRows(
+        response?.current_nft_marketplace_listings ?? [],
+        validateListingRow,
+        'current_nft_marketplace_listings'
+      );
       
-      if (response && response.current_token_datas_v2 && response.current_token_datas_v2.length > 0) {
-        const tokenData = response.current_token_datas_v2[0];
-        const listing = response.current_nft_marketplace_listings?.[0];
-        const collectionName = listing?.collection_data?.collection_name || '';
+      if (tokens.length > 0) {
+        const tokenData = tokens[0];
+        // The token can be listed on several marketplaces; show the cheapest for the buyer
+        const royalties = await this.fetchRoyalties([
+          { id: tokenData.token_data_id, collection_id: tokenData.collection_id || undefined },
+        ]);
+        const royaltyBps = royalties[tokenData.token_data_id] ?? 0;
+        const tokenListings = this.toTokenListings(listings, royaltyBps);
+        const listing = listings.find((row) => row.listing_id === tokenListings[0]?.listing_id);
+        const collectionName = listings[0]?.collection_data.collection_name || '';
         
         // Get the best image URL
         let imageUrl = '';
@@ -661,7 +1179,7 @@ export class NFTService {
             imageUrl = await this.getBestImageUrl(
               tokenData.cdn_asset_uris,
               tokenData.token_name || 'NFT',
-              tokenData.token_uri
+              tokenData.token_uri || undefined
             );
           } catch (error) {
             // If image URL fetching fails, continue with a placeholder
@@ -680,19 +1198,24 @@ export class NFTService {
           description: tokenData.description || '',
           image_url: imageUrl,
           marketplace: this.formatMarketplaceName(listing ? listing.marketplace : ''),
+          marketplace_id: listing ? listing.marketplace : undefined,
           collection_name: collectionName,
-          creator_address: tokenData.creator_address || '',
+          creator_address: listing?.collection_data.creator_address || '',
           owner_address: listing ? listing.seller : '',
           price: listing ? {
             amount: this.formatAPTAmount(listing.price),
             currency: 'APT'
           } : undefined,
           token_properties: this.parseTokenProperties(tokenData.token_properties),
-          created_at: new Date(tokenData.last_transaction_timestamp).toISOString(),
-          listing_id: listing ? listing.listing_id : '',
-          collection_id: tokenData.collection_id,
-          token_uri: tokenData.token_uri,
-          hasCompleteMetadata: !!(tokenData.token_name && tokenData.description && imageUrl)
+          created_at: tokenData.last_transaction_timestamp ? new Date(this.parseIndexerTimestamp(tokenData.last_transaction_timestamp)).toISOString() : new Date().toISOString(),
+          supply: tokenData.supply != null ? String(tokenData.supply) : undefined,
+          maximum: tokenData.maximum != null ? String(tokenData.maximum) : undefined,
+          listing_id: listing ? listing.listing_id : undefined,
+          collection_id: tokenData.collection_id || undefined,
+          token_uri: tokenData.token_uri || undefined,
+          hasCompleteMetadata: !!(tokenData.token_name && tokenData.description && imageUrl),
+          listings: tokenListings,
+          royalty_bps: royaltyBps,
         };
       }
       
@@ -703,12 +1226,710 @@ export class NFTService {
     }
   }
 
+  /**
+   * Convert a token's listing rows, cheapest for the buyer first
+   * @param listings - Validated listing rows of one token
+   * @param royaltyBps - Creator royalty of the token in basis points
+   * @returns - Listings with fee-inclusive prices
+   */
+  private toTokenListings(listings: IndexerListingRow[], royaltyBps: number = 0): TokenListing[] {
+    return listings
+      .map((listing): TokenListing => {
+        const breakdown = calculatePriceBreakdown(this.formatAPTAmount(listing.price), listing.marketplace, royaltyBps);
+        return {
+          listing_id: listing.listing_id,
+          marketplace: this.formatMarketplaceName(listing.marketplace),
+          marketplace_id: listing.marketplace,
+          seller: listing.seller,
+          price_apt: breakdown.price_apt,
+          buyer_cost_apt: breakdown.buyer_cost_apt,
+          seller_net_apt: breakdown.seller_net_apt,
+          listed_at: listing.last_transaction_timestamp || undefined,
+        };
+      })
+      .sort((a, b) => a.buyer_cost_apt - b.buyer_cost_apt);
+  }
+
+  /**
+   * Fetch creator royalties for a set of tokens
+   * @param tokenDataIds - Token data IDs to look up
+   * @returns Royalty in basis points keyed by token data ID (tokens without a royalty are omitted)
+   */
+  async fetchTokenRoyalties(tokenDataIds: string[]): Promise<Record<string, number>> {
+    if (tokenDataIds.length === 0) return {};
+
+    try {
+      const query = `
+        query GetTokenRoyalties($token_data_ids: [String!]) {
+          current_token_royalty_v1(where: {token_data_id: {_in: $token_data_ids}}) {
+            token_data_id
+            royalty_points_numerator
+            royalty_points_denominator
+          }
+        }
+      `;
+
+      const response = await this.client.queryGraphQL<{ current_token_royalty_v1?: TokenRoyaltyRow[] }>(
+        query,
+        { token_data_ids: tokenDataIds }
+      );
+      const royalties: Record<string, number> = {};
+
+      (response?.current_token_royalty_v1 || []).forEach((royalty) => {
+        const numerator = Number(royalty.royalty_points_numerator);
+        const denominator = Number(royalty.royalty_points_denominator);
+        if (denominator > 0) {
+          royalties[royalty.token_data_id] = (numerator / denominator) * 10000;
+        }
+      });
+
+      return royalties;
+    } catch (error) {
+      console.error('Error fetching token royalties:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Fetch the sales of a token or collection as price chart series
+   * @param target - Token data ID or collection ID to chart
+   * @param timePeriod - Period to chart, ending now
+   * @returns Sales, volume buckets and a rolling floor, empty if the query fails
+   */
+  async fetchPriceHistory(
+    target: { tokenDataId?: string; collectionId?: string },
+    timePeriod: TimePeriod = '7d'
+  ): Promise<PriceHistory> {
+    const now = Date.now();
+
+    try {
+      const where: Record<string, unknown> = {
+        event_type: { _in: SALE_EVENT_TYPES },
+        transaction_timestamp: { _gte: new Date(periodStart(timePeriod, now)).toISOString() },
+      };
+      if (target.tokenDataId) {
+        where.token_data_id = { _eq: target.tokenDataId };
+      } else if (target.collectionId) {
+        where.collection_id = { _eq: target.collectionId };
+      } else {
+        throw new Error('A token data ID or collection ID is required');
+      }
+
+      const query = `
+        query PriceHistory($where: nft_marketplace_activities_bool_exp!, $limit: Int!) {
+          nft_marketplace_activities(
+            where: $where
+            order_by: {transaction_timestamp: desc}
+            limit: $limit
+          ) {
+            transaction_version
+            event_type
+            marketplace
+            token_data_id
+            token_name
+            price
+            transaction_timestamp
+          }
+        }
+      `;
+
+      const data = await this.client.queryGraphQL<{ nft_marketplace_activities?: unknown[] }>(
+        query,
+        { where, limit: this.PRICE_HISTORY_LIMIT },
+        this.client.getNftIndexerEndpoint()
+      );
+
+      const { valid } = validateRows(data?.nft_marketplace_activities, validateActivityRow, 'nft_marketplace_activities');
+      const sales: PriceHistorySale[] = valid
+        .filter((row) => row.price != null && row.token_data_id)
+        .map((row) => ({
+          timestamp: this.parseIndexerTimestamp(row.transaction_timestamp),
+          price_apt: this.formatAPTAmount(row.price as string | number),
+          token_data_id: row.token_data_id as string,
+          token_name: row.token_name || undefined,
+          marketplace: this.formatMarketplaceName(row.marketplace),
+          transaction_version: String(row.transaction_version),
+        }));
+
+      return buildPriceHistory(sales, timePeriod, now, valid.length >= this.PRICE_HISTORY_LIMIT);
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      return buildPriceHistory([], timePeriod, now);
+    }
+  }
+
+  /**
+   * Fetch the marketplace purchases and sales made by a wallet
+   * Pages through the whole history, up to WALLET_TRADES_LIMIT trades.
+   * @param address - Wallet address
+   * @returns Trades oldest first, and whether the wallet has more than were loaded
+   */
+  async fetchWalletTrades(address: string): Promise<{ trades: WalletTrade[]; truncated: boolean }> {
+    const query = `
+      query WalletTrades($where: nft_marketplace_activities_bool_exp!, $limit: Int!) {
+        nft_marketplace_activities(
+          where: $where
+          order_by: [{transaction_version: asc}, {event_index: asc}]
+          limit: $limit
+        ) {
+          transaction_version
+          event_index
+          event_type
+          marketplace
+          token_data_id
+          token_name
+          collection_id
+          collection_name
+          price
+          seller
+          buyer
+          transaction_timestamp
+        }
+      }
+    `;
+
+    try {
+      // Pages are keyed on (transaction_version, event_index), so trades indexed meanwhile cannot shift them
+      const conditions: Record<string, unknown>[] = [
+        { event_type: { _in: SALE_EVENT_TYPES } },
+        { _or: [{ buyer: { _eq: address } }, { seller: { _eq: address } }] },
+      ];
+      const valid: IndexerMarketplaceActivityRow[] = [];
+      let after: Record<string, unknown> | undefined;
+      let truncated = false;
+      let more = true;
+      while (more) {
+        const limit = Math.min(this.WALLET_TRADES_PAGE, this.WALLET_TRADES_LIMIT - valid.length);
+        const data = await this.client.queryGraphQL<{ nft_marketplace_activities?: unknown[] }>(
+          query,
+          // One row past the page tells a history of exactly the limit from a longer one
+          { where: { _and: after ? [...conditions, after] : conditions }, limit: limit + 1 },
+          this.client.getNftIndexerEndpoint()
+        );
+
+        const rows = data?.nft_marketplace_activities || [];
+        const hasMore = rows.length > limit;
+        const { valid: page } = validateRows(rows.slice(0, limit), validateActivityRow, 'nft_marketplace_activities');
+        valid.push(...page);
+
+        const last = page[page.length - 1];
+        more = hasMore && !!last && valid.length < this.WALLET_TRADES_LIMIT;
+        truncated = hasMore && !more;
+        if (!more) break;
+
+        after = {
+          _or: [
+            { transaction_version: { _gt: last.transaction_version } },
+            { transaction_version: { _eq: last.transaction_version }, event_index: { _gt: last.event_index ?? -1 } },
+          ],
+        };
+      }
+
+      const owner = address.toLowerCase();
+      const trades: WalletTrade[] = [];
+      valid
+        .filter((row) => row.price != null && row.token_data_id)
+        .forEach((row) => {
+          const trade = {
+            token_data_id: row.token_data_id as string,
+            token_name: row.token_name || undefined,
+            collection_id: row.collection_id || undefined,
+            collection_name: row.collection_name || undefined,
+            marketplace: this.formatMarketplaceName(row.marketplace),
+            marketplace_id: row.marketplace,
+            price_apt: this.formatAPTAmount(row.price as string | number),
+            timestamp: this.parseIndexerTimestamp(row.transaction_timestamp),
+            transaction_version: String(row.transaction_version),
+          };
+          // A wallet trading with itself sells its old lot and buys a new one
+          if (row.seller?.toLowerCase() === owner) trades.push({ ...trade, side: 'sell' });
+          if (row.buyer?.toLowerCase() === owner) trades.push({ ...trade, side: 'buy' });
+        });
+
+      return { trades, truncated };
+    } catch (error) {
+      console.error(`Error fetching trades of ${address}:`, error);
+      return { trades: [], truncated: false };
+    }
+  }
+
+  /**
+   * Fetch a page of sales across all marketplaces, newest first
+   * Pages are keyed on (transaction_version, event_index) so sales landing
+   * while the user pages back do not shift later pages.
+   * @param params - Filters matching the listings grid, plus the cursor of the page to load
+   * @returns Sales and the cursor of the next page, empty if the query fails
+   */
+  async fetchRecentSales(params: RecentSalesParams): Promise<SalesPage> {
+    const { marketplace, collection, minPrice, maxPrice, cursor, pageSize = 20 } = params;
+
+    const conditions: Record<string, unknown>[] = [{ event_type: { _in: SALE_EVENT_TYPES } }];
+    if (marketplace) {
+      conditions.push({ marketplace: marketplaceComparison(marketplace) });
+    }
+    if (collection) {
+      conditions.push({ collection_name: containsInsensitive(collection) });
+    }
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      const price: Record<string, string> = {};
+      if (minPrice !== undefined) price._gte = aptToOctas(minPrice);
+      if (maxPrice !== undefined) price._lte = aptToOctas(maxPrice);
+      conditions.push({ price });
+    }
+
+    const position = cursor ? this.parseSalesCursor(cursor) : null;
+    if (position) {
+      conditions.push({
+        _or: [
+          { transaction_version: { _lt: position.version } },
+          { transaction_version: { _eq: position.version }, event_index: { _lt: position.eventIndex } },
+        ],
+      });
+    }
+
+    const query = `
+      query RecentSales($where: nft_marketplace_activities_bool_exp!, $limit: Int!) {
+        nft_marketplace_activities(
+          where: $where
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: $limit
+        ) {
+          transaction_version
+          event_index
+          event_type
+          marketplace
+          token_data_id
+          token_name
+          collection_id
+          collection_name
+          price
+          seller
+          buyer
+          transaction_timestamp
+        }
+      }
+    `;
+
+    try {
+      // One extra row tells whether there is another page
+      const data = await this.client.queryGraphQL<{ nft_marketplace_activities?: unknown[] }>(
+        query,
+        { where: { _and: conditions }, limit: pageSize + 1 },
+        this.client.getNftIndexerEndpoint()
+      );
+
+      const rows = data?.nft_marketplace_activities;
+      const hasMore = Array.isArray(rows) && rows.length > pageSize;
+      const { valid, malformed } = validateRows(
+        Array.isArray(rows) ? rows.slice(0, pageSize) : rows,
+        validateActivityRow,
+        'nft_marketplace_activities'
+      );
+
+      const sales: MarketplaceSale[] = valid
+        .filter((row) => row.price != null && row.token_data_id)
+        .map((row) => ({
+          transaction_version: String(row.transaction_version),
+          event_index: row.event_index != null ? String(row.event_index) : undefined,
+          token_data_id: row.token_data_id as string,
+          token_name: row.token_name || undefined,
+          collection_id: row.collection_id || undefined,
+          collection_name: row.collection_name || undefined,
+          marketplace: this.formatMarketplaceName(row.marketplace),
+          marketplace_id: row.marketplace,
+          price_apt: this.formatAPTAmount(row.price as string | number),
+          buyer: row.buyer || undefined,
+          seller: row.seller || undefined,
+          timestamp: this.parseIndexerTimestamp(row.transaction_timestamp),
+        }));
+
+      // The cursor comes from the last row read, even if it was not displayable
+      const last = valid[valid.length - 1];
+      return {
+        sales,
+        next_cursor: hasMore && last ? `${last.transaction_version}:${last.event_index ?? 0}` : undefined,
+        malformed,
+      };
+    } catch (error) {
+      console.error('Error fetching recent sales:', error);
+      return { sales: [] };
+    }
+  }
+
+  // Cursors are "<transaction_version>:<event_index>"; anything else starts from the newest sale
+  private parseSalesCursor(cursor: string): { version: string; eventIndex: string } | null {
+    const match = /^(\d+):(\d+)$/.exec(cursor);
+    return match ? { version: match[1], eventIndex: match[2] } : null;
+  }
+
+  /**
+   * Fetch the provenance timeline of a token
+   * @param tokenDataId - Token data ID
+   * @param limit - Maximum number of events loaded from each source
+   * @returns Mints, transfers, listings, delistings and sales, newest first
+   */
+  async fetchTokenActivity(tokenDataId: string, limit: number = 200): Promise<TokenActivity[]> {
+    const tokenQuery = `
+      query TokenActivity($token_data_id: String!, $limit: Int!) {
+        token_activities_v2(
+          where: {token_data_id: {_eq: $token_data_id}}
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: $limit
+        ) {
+          transaction_version
+          event_index
+          type
+          token_data_id
+          from_address
+          to_address
+          event_account_address
+          token_amount
+          transaction_timestamp
+        }
+      }
+    `;
+
+    const marketplaceQuery = `
+      query TokenMarketplaceActivity($token_data_id: String!, $event_types: [String!], $limit: Int!) {
+        nft_marketplace_activities(
+          where: {token_data_id: {_eq: $token_data_id}, event_type: {_in: $event_types}}
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: $limit
+        ) {
+          transaction_version
+          event_index
+          event_type
+          marketplace
+          token_data_id
+          price
+          seller
+          buyer
+          transaction_timestamp
+        }
+      }
+    `;
+
+    try {
+      // Token events live on the main indexer, marketplace events on the NFT indexer
+      const [tokenData, marketplaceData] = await Promise.all([
+        this.client.queryGraphQL<{ token_activities_v2?: unknown[] }>(
+          tokenQuery,
+          { token_data_id: tokenDataId, limit }
+        ),
+        this.client.queryGraphQL<{ nft_marketplace_activities?: unknown[] }>(
+          marketplaceQuery,
+          { token_data_id: tokenDataId, event_types: TIMELINE_EVENT_TYPES, limit },
+          this.client.getNftIndexerEndpoint()
+        ),
+      ]);
+
+      const { valid: tokenRows } = validateRows(tokenData?.token_activities_v2, validateTokenActivityRow, 'token_activities_v2');
+      const { valid: marketplaceRows } = validateRows(
+        marketplaceData?.nft_marketplace_activities,
+        validateActivityRow,
+        'nft_marketplace_activities'
+      );
+
+      return normalizeTokenActivity(tokenRows, marketplaceRows, {
+        toApt: (octas) => this.formatAPTAmount(octas),
+        marketplaceName: (marketplace) => this.formatMarketplaceName(marketplace),
+        parseTimestamp: (timestamp) => this.parseIndexerTimestamp(timestamp),
+      });
+    } catch (error) {
+      console.error(`Error fetching activity for token ${tokenDataId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch creator royalties set on-chain on token v2 collections
+   * Reads the collection object's 0x4::royalty::Royalty resource; collections
+   * without one (including token v1 collections) have no collection royalty.
+   * @param collectionIds - Collection IDs (object addresses for token v2)
+   * @returns Royalty in basis points keyed by collection ID
+   */
+  async fetchCollectionRoyalties(collectionIds: string[]): Promise<Record<string, number>> {
+    const royalties: Record<string, number> = {};
+    const provider = this.client.getProvider();
+
+    await Promise.all([...new Set(collectionIds)].map(async (collectionId) => {
+      royalties[collectionId] = await resourceCache.get('royalties', { collectionId }, async () => {
+        try {
+          const royalty = await provider.getAccountResource<{ numerator: string; denominator: string }>({
+            accountAddress: collectionId,
+            resourceType: '0x4::royalty::Royalty',
+          });
+          const numerator = Number(royalty.numerator);
+          const denominator = Number(royalty.denominator);
+          return denominator > 0 ? (numerator / denominator) * 10000 : 0;
+        } catch (error) {
+          // Missing resource: the collection has no royalty of its own
+          return 0;
+        }
+      }, { scope: { collections: [collectionId] } });
+    }));
+
+    return royalties;
+  }
+
+  /**
+   * Fetch creator royalties for tokens of either standard
+   * Token v1 royalties are per token; token v2 tokens fall back to their collection's royalty.
+   * @param tokens - Token data IDs with their collection IDs
+   * @returns Royalty in basis points keyed by token data ID
+   */
+  async fetchRoyalties(tokens: { id: string; collection_id?: string }[]): Promise<Record<string, number>> {
+    if (tokens.length === 0) return {};
+
+    const tokenRoyalties = await this.fetchTokenRoyalties(tokens.map((token) => token.id));
+    const withoutTokenRoyalty = tokens.filter((token) => tokenRoyalties[token.id] === undefined && token.collection_id);
+    const collectionRoyalties = await this.fetchCollectionRoyalties(
+      withoutTokenRoyalty.map((token) => token.collection_id as string)
+    );
+
+    const royalties: Record<string, number> = { ...tokenRoyalties };
+    withoutTokenRoyalty.forEach((token) => {
+      royalties[token.id] = collectionRoyalties[token.collection_id as string] || 0;
+    });
+    return royalties;
+  }
+
+  /**
+   * Add creator royalties to NFTs so seller proceeds can be shown
+   * @param nfts - NFTs to annotate
+   * @returns Copies of the NFTs with royalty_bps set
+   */
+  async applyRoyalties(nfts: NFT[]): Promise<NFT[]> {
+    try {
+      const royalties = await this.fetchRoyalties(nfts.map((nft) => ({ id: nft.id, collection_id: nft.collection_id })));
+      return nfts.map((nft) => ({ ...nft, royalty_bps: royalties[nft.id] ?? 0 }));
+    } catch (error) {
+      console.error('Error applying royalties:', error);
+      return nfts;
+    }
+  }
+
+  /**
+   * Fetch the floor price of several collections in one query
+   * @param collectionIds - Collection IDs
+   * @returns Lowest active listing price in APT per collection; collections with no listings are left out
+   */
+  async fetchCollectionFloors(collectionIds: string[]): Promise<Record<string, number>> {
+    const ids = [...new Set(collectionIds.filter(Boolean))];
+    if (ids.length === 0) return {};
+
+    try {
+      const where = new ListingsFilterBuilder()
+        .active()
+        .where({ collection_id: { _in: ids } })
+        .build();
+
+      // distinct_on keeps the first row per collection, which is the cheapest
+      const query = `
+        query CollectionFloors($where: current_nft_marketplace_listings_bool_exp!) {
+          current_nft_marketplace_listings(
+            where: $where
+            distinct_on: collection_id
+            order_by: [{collection_id: asc}, {price: asc}]
+          ) {
+            collection_id
+            price
+          }
+        }
+      `;
+
+      const data = await this.client.queryGraphQL<{
+        current_nft_marketplace_listings?: { collection_id?: string | null; price?: string | number | null }[];
+      }>(query, { where }, this.client.getNftIndexerEndpoint());
+
+      const floors: Record<string, number> = {};
+      (data?.current_nft_marketplace_listings || []).forEach((row) => {
+        if (row.collection_id && row.price != null) {
+          floors[row.collection_id] = this.formatAPTAmount(row.price);
+        }
+      });
+      return floors;
+    } catch (error) {
+      console.error('Error fetching collection floors:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Fetch the lowest sale of several collections in the last 24 hours and the 24 hours before
+   * @param collectionIds - Collection IDs
+   * @returns Sales floors in APT per collection; collections without sales in a window are left out
+   */
+  private async fetchDailySalesFloors(
+    collectionIds: string[]
+  ): Promise<{ current: Record<string, number>; previous: Record<string, number> }> {
+    const current: Record<string, number> = {};
+    const previous: Record<string, number> = {};
+    if (collectionIds.length === 0) return { current, previous };
+
+    const dayAgoMs = periodStart('24h');
+    const dayAgo = new Date(dayAgoMs).toISOString();
+    const twoDaysAgo = new Date(periodStart('24h', dayAgoMs)).toISOString();
+    const sales = { collection_id: { _in: collectionIds }, event_type: { _in: SALE_EVENT_TYPES } };
+
+    // distinct_on keeps the cheapest sale per collection in each window
+    const query = `
+      query DailySalesFloors($current: nft_marketplace_activities_bool_exp!, $previous: nft_marketplace_activities_bool_exp!) {
+        current: nft_marketplace_activities(
+          where: $current
+          distinct_on: collection_id
+          order_by: [{collection_id: asc}, {price: asc}]
+        ) {
+          collection_id
+          price
+        }
+        previous: nft_marketplace_activities(
+          where: $previous
+          distinct_on: collection_id
+          order_by: [{collection_id: asc}, {price: asc}]
+        ) {
+          collection_id
+          price
+        }
+      }
+    `;
+
+    type FloorRow = { collection_id?: string | null; price?: string | number | null };
+    try {
+      const data = await this.client.queryGraphQL<{ current?: FloorRow[]; previous?: FloorRow[] }>(
+        query,
+        {
+          current: { ...sales, transaction_timestamp: { _gte: dayAgo } },
+          previous: { ...sales, transaction_timestamp: { _gte: twoDaysAgo, _lt: dayAgo } },
+        },
+        this.client.getNftIndexerEndpoint()
+      );
+
+      const collect = (rows: FloorRow[] | undefined, floors: Record<string, number>) => {
+        (rows || []).forEach((row) => {
+          if (row.collection_id && row.price != null) {
+            floors[row.collection_id] = this.formatAPTAmount(row.price);
+          }
+        });
+      };
+      collect(data?.current, current);
+      collect(data?.previous, previous);
+    } catch (error) {
+      console.error('Error fetching daily sales floors:', error);
+    }
+    return { current, previous };
+  }
+
+  /**
+   * Fetch the current market state of watched tokens and collections
+   * Tokens are quoted at their cheapest active listing and collections at
+   * their floor; the 24h change compares the collection's lowest sale of the
+   * last 24 hours with the 24 hours before, since the indexer keeps no
+   * historical listings.
+   * @param items - Watched items
+   * @returns One quote per item, in the same order
+   */
+  async fetchWatchlistQuotes(items: WatchlistItem[]): Promise<WatchlistQuote[]> {
+    const tokenIds = items.filter((item) => item.kind === 'token').map((item) => item.id);
+    const collectionOf = (item: WatchlistItem) => (item.kind === 'collection' ? item.id : item.collection_id);
+    const collectionIds = [...new Set(items.map(collectionOf).filter((id): id is string => !!id))];
+
+    const fetchTokenListings = async (): Promise<{ token_data_id: string; price: string | number; marketplace: string }[]> => {
+      if (tokenIds.length === 0) return [];
+
+      try {
+        const where = new ListingsFilterBuilder()
+          .active()
+          .where({ token_data_id: { _in: tokenIds } })
+          .build();
+
+        const query = `
+          query WatchedTokenListings($where: current_nft_marketplace_listings_bool_exp!) {
+            current_nft_marketplace_listings(where: $where, order_by: {price: asc}) {
+              token_data_id
+              price
+              marketplace
+            }
+          }
+        `;
+
+        const data = await this.client.queryGraphQL<{
+          current_nft_marketplace_listings?: { token_data_id: string; price: string | number; marketplace: string }[];
+        }>(query, { where }, this.client.getNftIndexerEndpoint());
+        return data?.current_nft_marketplace_listings || [];
+      } catch (error) {
+        console.error('Error fetching watched token listings:', error);
+        return [];
+      }
+    };
+
+    const [tokenListings, floors, salesFloors] = await Promise.all([
+      fetchTokenListings(),
+      this.fetchCollectionFloors(collectionIds),
+      this.fetchDailySalesFloors(collectionIds),
+    ]);
+
+    const updatedAt = Date.now();
+    return items.map((item): WatchlistQuote => {
+      const collectionId = collectionOf(item);
+      const floor = collectionId ? floors[collectionId] : undefined;
+      const current = collectionId ? salesFloors.current[collectionId] : undefined;
+      const previous = collectionId ? salesFloors.previous[collectionId] : undefined;
+      const change = current !== undefined && previous ? ((current - previous) / previous) * 100 : undefined;
+
+      if (item.kind === 'collection') {
+        return {
+          kind: item.kind,
+          id: item.id,
+          best_price_apt: floor,
+          floor_price_apt: floor,
+          change_24h_pct: change,
+          listed: floor !== undefined,
+          updated_at: updatedAt,
+        };
+      }
+
+      // Listings are sorted by price, so the first one is the best
+      const listings = tokenListings.filter((listing) => listing.token_data_id === item.id);
+      return {
+        kind: item.kind,
+        id: item.id,
+        best_price_apt: listings.length > 0 ? this.formatAPTAmount(listings[0].price) : undefined,
+        best_marketplace: listings.length > 0 ? this.formatMarketplaceName(listings[0].marketplace) : undefined,
+        floor_price_apt: floor,
+        change_24h_pct: change,
+        listed: listings.length > 0,
+        listing_count: listings.length,
+        updated_at: updatedAt,
+      };
+    });
+  }
+
+  /**
+   * Validate analytics ranking rows and convert their amounts to APT
+   * @param rows - Raw rows from a ranking endpoint
+   * @param source - Endpoint path, used when reporting malformed rows
+   * @returns - Ranking rows with amounts in APT
+   */
+  private toRankingRows(rows: unknown, source: string): CollectionRankingRow[] {
+    const { valid } = validateRows(rows ?? [], validateRankingRow, source);
+
+    return valid.map((row) => ({
+      collection_id: row.collection_id,
+      collection_name: row.collection_name,
+      total_volume_apt: row.total_volume_apt != null ? this.formatAPTAmount(row.total_volume_apt) : 0,
+      total_sales: row.total_sales != null ? Number(row.total_sales) : undefined,
+      floor_price_apt: row.floor_price_apt != null ? this.formatAPTAmount(row.floor_price_apt) : undefined,
+      volume_change_percentage: Number(row.volume_change_percentage || 0),
+    }));
+  }
+
   /**
    * Fetches collections ranked by volume
    * @param options - Collection ranking options
    * @returns - Ranked collections
    */
-  async fetchCollectionsByVolume(options?: CollectionRankingOptions): Promise<any[]> {
+  async fetchCollectionsByVolume(options?: CollectionRankingOptions): Promise<CollectionRankingRow[]> {
     try {
       const timePeriod = options?.timePeriod || '24h';
       const limit = options?.limit || 10;
@@ -721,13 +1942,8 @@ export class NFTService {
         offset
       };
       
-      const response = await this.client.queryAnalytics<any[]>(path, params);
-      
-      if (response) {
-        return response;
-      }
-      
-      return [];
+      const response = await this.client.queryAnalytics<unknown>(path, params);
+      return this.toRankingRows(response, path);
     } catch (error) {
       console.error('Error fetching collections by volume:', error);
       return [];
@@ -739,7 +1955,7 @@ export class NFTService {
    * @param options - Collection ranking options
    * @returns - Ranked collections
    */
-  async fetchCollectionsBySales(options?: CollectionRankingOptions): Promise<any[]> {
+  async fetchCollectionsBySales(options?: CollectionRankingOptions): Promise<CollectionRankingRow[]> {
     try {
       const timePeriod = options?.timePeriod || '24h';
       const limit = options?.limit || 10;
@@ -752,13 +1968,8 @@ export class NFTService {
         offset
       };
       
-      const response = await this.client.queryAnalytics<any[]>(path, params);
-      
-      if (response) {
-        return response;
-      }
-      
-      return [];
+      const response = await this.client.queryAnalytics<unknown>(path, params);
+      return this.toRankingRows(response, path);
     } catch (error) {
       console.error('Error fetching collections by sales:', error);
       return [];
@@ -770,7 +1981,7 @@ export class NFTService {
    * @param options - Collection ranking options
    * @returns - Ranked collections
    */
-  async fetchCollectionsByFloorPrice(options?: CollectionRankingOptions): Promise<any[]> {
+  async fetchCollectionsByFloorPrice(options?: CollectionRankingOptions): Promise<CollectionRankingRow[]> {
     try {
       const timePeriod = options?.timePeriod || '24h';
       const limit = options?.limit || 10;
@@ -783,29 +1994,12 @@ export class NFTService {
         offset
       };
       
-      const response = await this.client.queryAnalytics<any[]>(path, params);
-      
-      if (response) {
-        return response;
-      }
-      
-      return [];
+      const response = await this.client.queryAnalytics<unknown>(path, params);
+      return this.toRankingRows(response, path);
     } catch (error) {
       console.error('Error fetching collections by floor price:', error);
       return [];
     }
   }
 
-} 
-
-interface NFTListing {
-  id: string;
-  marketplace_id: string;
-  marketplace_name: string;
-  marketplace_logo_url: string;
-  price_apt: string;
-  price_usd: number;
-  listing_url: string;
-  raw_data: any;
-  created_at?: Date;
-} 
\ No newline at end of file
+}
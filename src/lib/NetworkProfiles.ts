@@ -0,0 +1,141 @@
+import { Network } from "@aptos-labs/ts-sdk";
+
+/**
+ * Endpoint profiles for every network the aggregator can run against,
+ * plus the currently selected network. Both ApiConfig (class-based clients)
+ * and api.ts (module functions) read their URLs from here.
+ */
+
+export type AppNetwork = 'mainnet' | 'testnet' | 'devnet' | 'local';
+
+export interface NetworkProfile {
+  name: AppNetwork;
+  label: string;
+  network: Network;
+  nftIndexerEndpoint: string;
+  indexerEndpoint: string;
+  analyticsEndpoint: string;
+  // Value of the ?network= query parameter on the Aptos explorer
+  explorerNetwork: string;
+}
+
+// Local indexer stack URLs can be overridden for non-default ports
+const LOCAL_INDEXER_URL = import.meta.env.VITE_LOCAL_INDEXER_URL || 'http://127.0.0.1:8090/v1/graphql';
+const LOCAL_NFT_INDEXER_URL = import.meta.env.VITE_LOCAL_NFT_INDEXER_URL || LOCAL_INDEXER_URL;
+const LOCAL_ANALYTICS_URL = import.meta.env.VITE_LOCAL_ANALYTICS_URL || 'http://127.0.0.1:8090/v1/analytics';
+
+export const NETWORK_PROFILES: Record<AppNetwork, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    label: 'Mainnet',
+    network: Network.MAINNET,
+    nftIndexerEndpoint: 'https://api.mainnet.aptoslabs.com/nft-aggregator-staging/v1/graphql',
+    indexerEndpoint: 'https://indexer.mainnet.aptoslabs.com/v1/graphql',
+    analyticsEndpoint: 'https://api.mainnet.aptoslabs.com/v1/analytics',
+    explorerNetwork: 'mainnet',
+  },
+  testnet: {
+    name: 'testnet',
+    label: 'Testnet',
+    network: Network.TESTNET,
+    nftIndexerEndpoint: 'https://api.testnet.aptoslabs.com/nft-aggregator-staging/v1/graphql',
+    indexerEndpoint: 'https://api.testnet.aptoslabs.com/v1/graphql',
+    analyticsEndpoint: 'https://api.testnet.aptoslabs.com/v1/analytics',
+    explorerNetwork: 'testnet',
+  },
+  devnet: {
+    name: 'devnet',
+    label: 'Devnet',
+    network: Network.DEVNET,
+    nftIndexerEndpoint: 'https://api.devnet.aptoslabs.com/nft-aggregator-staging/v1/graphql',
+    indexerEndpoint: 'https://api.devnet.aptoslabs.com/v1/graphql',
+    analyticsEndpoint: 'https://api.devnet.aptoslabs.com/v1/analytics',
+    explorerNetwork: 'devnet',
+  },
+  local: {
+    name: 'local',
+    label: 'Local',
+    network: Network.LOCAL,
+    nftIndexerEndpoint: LOCAL_NFT_INDEXER_URL,
+    indexerEndpoint: LOCAL_INDEXER_URL,
+    analyticsEndpoint: LOCAL_ANALYTICS_URL,
+    explorerNetwork: 'local',
+  },
+};
+
+const NETWORK_STORAGE_KEY = 'nft-aggregator:network';
+
+/**
+ * Check whether a string names one of our network profiles
+ */
+export function isAppNetwork(value: string | null | undefined): value is AppNetwork {
+  return !!value && Object.prototype.hasOwnProperty.call(NETWORK_PROFILES, value);
+}
+
+// Restore the last selected network, falling back to the build-time default
+const loadInitialNetwork = (): AppNetwork => {
+  try {
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (isAppNetwork(stored)) return stored;
+  } catch (error) {
+    // localStorage can be unavailable (private mode, sandboxed iframes)
+  }
+
+  const fromEnv = import.meta.env.VITE_APTOS_NETWORK;
+  return isAppNetwork(fromEnv) ? fromEnv : 'mainnet';
+};
+
+let activeNetwork: AppNetwork = loadInitialNetwork();
+const listeners = new Set<(network: AppNetwork) => void>();
+
+/**
+ * Get the name of the network the app is currently using
+ */
+export function getActiveNetwork(): AppNetwork {
+  return activeNetwork;
+}
+
+/**
+ * Get the endpoint profile for a network
+ * @param name - Network name, defaults to the active network
+ */
+export function getNetworkProfile(name: AppNetwork = activeNetwork): NetworkProfile {
+  return NETWORK_PROFILES[name];
+}
+
+/**
+ * Record a new active network and notify subscribers
+ * Use switchNetwork from ApiConfig instead, which also rebuilds the clients.
+ * @param name - Network to activate
+ */
+export function setActiveNetwork(name: AppNetwork): void {
+  if (name === activeNetwork) return;
+
+  activeNetwork = name;
+  try {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, name);
+  } catch (error) {
+    // Ignore storage failures, the selection still applies to this session
+  }
+  listeners.forEach((listener) => listener(name));
+}
+
+/**
+ * Subscribe to active network changes
+ * @param listener - Called with the new network name
+ * @returns Function that removes the subscription
+ */
+export function subscribeToNetwork(listener: (network: AppNetwork) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Build an Aptos explorer link for a transaction on the active network
+ * @param transactionHash - Transaction hash or version
+ */
+export function getExplorerTransactionUrl(transactionHash: string): string {
+  return `https://explorer.aptoslabs.com/txn/${transactionHash}?network=${getNetworkProfile().explorerNetwork}`;
+}
@@ -0,0 +1,260 @@
+import { MarketplaceOffer, OfferRequest, PurchaseResult, PurchaseStage } from '../types';
+import { AptosClient } from './AptosClient';
+import { NFTService } from './NFTService';
+import { buildCancelOfferPayload, buildOfferPayload } from './MarketplaceContracts';
+import { PurchaseService, SignAndSubmitFn } from './PurchaseService';
+import { validateRows, validateTokenOfferRow, validateCollectionOfferRow } from './validation';
+
+const OFFER_FIELDS = `
+  marketplace
+  contract_address
+  buyer
+  expiration_time
+`;
+
+/**
+ * OfferService - Handles token offers and collection-wide bids
+ * Loads active offers from the NFT indexer and places or cancels offers
+ * through the connected wallet. Results use the same shape and stages as
+ * purchases so the UI can report them the same way.
+ */
+export class OfferService {
+  private readonly client: AptosClient;
+  private readonly nftService: NFTService;
+  private readonly purchaseService: PurchaseService;
+
+  /**
+   * Creates a new OfferService
+   * @param client - An initialized AptosClient instance
+   * @param nftService - NFTService used to format amounts and find fee schedules
+   * @param purchaseService - PurchaseService used to submit transactions
+   */
+  constructor(client: AptosClient, nftService: NFTService, purchaseService: PurchaseService) {
+    this.client = client;
+    this.nftService = nftService;
+    this.purchaseService = purchaseService;
+  }
+
+  /**
+   * Convert an expiration in seconds to milliseconds
+   * @param expiration - Expiration from the indexer, in seconds since epoch
+   */
+  private toExpiry(expiration: string | number | null | undefined): number | undefined {
+    return expiration != null ? Number(expiration) * 1000 : undefined;
+  }
+
+  /**
+   * Query active token and collection offers
+   * @param tokenWhere - Filter on current_nft_marketplace_token_offers, or null to skip token offers
+   * @param collectionWhere - Filter on current_nft_marketplace_collection_offers, or null to skip them
+   * @returns Offers that have not expired, highest price first
+   */
+  private async fetchOffers(
+    tokenWhere: Record<string, unknown> | null,
+    collectionWhere: Record<string, unknown> | null
+  ): Promise<MarketplaceOffer[]> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const active = { is_deleted: { _eq: false }, expiration_time: { _gt: nowSeconds } };
+
+    const query = `
+      query ActiveOffers(
+        $token_where: current_nft_marketplace_token_offers_bool_exp!
+        $collection_where: current_nft_marketplace_collection_offers_bool_exp!
+        $include_tokens: Boolean!
+        $include_collections: Boolean!
+      ) {
+        current_nft_marketplace_token_offers(where: $token_where, order_by: {price: desc})
+          @include(if: $include_tokens) {
+          offer_id
+          token_data_id
+          collection_id
+          price
+          token_amount
+          token_name
+          ${OFFER_FIELDS}
+        }
+        current_nft_marketplace_collection_offers(where: $collection_where, order_by: {item_price: desc})
+          @include(if: $include_collections) {
+          collection_offer_id
+          collection_id
+          item_price
+          remaining_token_amount
+          collection_data {
+            collection_name
+          }
+          ${OFFER_FIELDS}
+        }
+      }
+    `;
+
+    const data = await this.client.queryGraphQL<{
+      current_nft_marketplace_token_offers?: unknown[];
+      current_nft_marketplace_collection_offers?: unknown[];
+    }>(
+      query,
+      {
+        token_where: { ...active, ...(tokenWhere || {}) },
+        collection_where: { ...active, ...(collectionWhere || {}) },
+        include_tokens: tokenWhere !== null,
+        include_collections: collectionWhere !== null,
+      },
+      this.client.getNftIndexerEndpoint()
+    );
+
+    const { valid: tokenOffers } = tokenWhere
+      ? validateRows(data?.current_nft_marketplace_token_offers, validateTokenOfferRow, 'current_nft_marketplace_token_offers')
+      : { valid: [] };
+    const { valid: collectionOffers } = collectionWhere
+      ? validateRows(
+        data?.current_nft_marketplace_collection_offers,
+        validateCollectionOfferRow,
+        'current_nft_marketplace_collection_offers'
+      )
+      : { valid: [] };
+
+    const offers: MarketplaceOffer[] = [
+      ...tokenOffers.map((offer): MarketplaceOffer => ({
+        offer_id: offer.offer_id,
+        kind: 'token',
+        marketplace: this.nftService.formatMarketplaceName(offer.marketplace),
+        marketplace_id: offer.marketplace,
+        contract_address: offer.contract_address || undefined,
+        buyer: offer.buyer,
+        price_apt: this.nftService.formatAPTAmount(offer.price),
+        token_amount: offer.token_amount != null ? Number(offer.token_amount) : 1,
+        token_data_id: offer.token_data_id,
+        token_name: offer.token_name || undefined,
+        collection_id: offer.collection_id || undefined,
+        expires_at: this.toExpiry(offer.expiration_time),
+      })),
+      ...collectionOffers.map((offer): MarketplaceOffer => ({
+        offer_id: offer.collection_offer_id,
+        kind: 'collection',
+        marketplace: this.nftService.formatMarketplaceName(offer.marketplace),
+        marketplace_id: offer.marketplace,
+        contract_address: offer.contract_address || undefined,
+        buyer: offer.buyer,
+        price_apt: this.nftService.formatAPTAmount(offer.item_price),
+        token_amount: offer.remaining_token_amount != null ? Number(offer.remaining_token_amount) : 1,
+        collection_id: offer.collection_id,
+        collection_name: offer.collection_data?.collection_name || undefined,
+        expires_at: this.toExpiry(offer.expiration_time),
+      })),
+    ];
+
+    return offers.sort((a, b) => b.price_apt - a.price_apt);
+  }
+
+  /**
+   * Fetch the offers a token can accept: offers on the token and bids on its collection
+   * @param tokenDataId - Token data ID
+   * @param collectionId - Collection of the token, to include collection offers
+   * @returns Active offers, highest price first
+   */
+  async fetchTokenOffers(tokenDataId: string, collectionId?: string): Promise<MarketplaceOffer[]> {
+    try {
+      return await this.fetchOffers(
+        { token_data_id: { _eq: tokenDataId } },
+        collectionId ? { collection_id: { _eq: collectionId } } : null
+      );
+    } catch (error) {
+      console.error(`Error fetching offers for token ${tokenDataId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch active collection-wide offers
+   * @param collectionId - Collection ID
+   * @returns Active collection offers, highest price first
+   */
+  async fetchCollectionOffers(collectionId: string): Promise<MarketplaceOffer[]> {
+    try {
+      return await this.fetchOffers(null, { collection_id: { _eq: collectionId } });
+    } catch (error) {
+      console.error(`Error fetching offers for collection ${collectionId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the active offers made by an account
+   * @param buyer - Account address
+   * @returns Token and collection offers, highest price first
+   */
+  async fetchOffersByBuyer(buyer: string): Promise<MarketplaceOffer[]> {
+    try {
+      return await this.fetchOffers({ buyer: { _eq: buyer } }, { buyer: { _eq: buyer } });
+    } catch (error) {
+      console.error(`Error fetching offers made by ${buyer}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Place a token offer or collection offer
+   * @param params.request - Offer to place
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the transaction
+   */
+  async makeOffer(params: {
+    request: OfferRequest;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { request, signAndSubmitTransaction, onStageChange } = params;
+
+    try {
+      onStageChange?.('loading');
+      if (request.price_apt <= 0) {
+        throw new Error('The offer price must be greater than zero');
+      }
+      if (request.expires_at <= Date.now()) {
+        throw new Error('The expiration must be in the future');
+      }
+
+      const feeSchedule = await this.nftService.fetchFeeScheduleAddress(request.marketplace);
+      if (!feeSchedule) {
+        throw new Error(`Could not find the fee schedule of ${request.marketplace}`);
+      }
+
+      return await this.purchaseService.submitTransaction(
+        { data: buildOfferPayload(request, feeSchedule) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+    } catch (error) {
+      console.error('Error making offer:', error);
+      onStageChange?.('failed');
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Cancel one of the connected account's offers
+   * @param params.offer - Offer to cancel
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the transaction
+   */
+  async cancelOffer(params: {
+    offer: MarketplaceOffer;
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { offer, signAndSubmitTransaction, onStageChange } = params;
+
+    try {
+      return await this.purchaseService.submitTransaction(
+        { data: buildCancelOfferPayload(offer) },
+        signAndSubmitTransaction,
+        onStageChange
+      );
+    } catch (error) {
+      console.error('Error cancelling offer:', error);
+      onStageChange?.('failed');
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
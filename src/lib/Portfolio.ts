@@ -0,0 +1,167 @@
+import {
+  NFT,
+  OwnedNFT,
+  Portfolio,
+  PortfolioCollection,
+  PortfolioHolding,
+  PortfolioValuePoint,
+  PriceHistory,
+  TokenListing,
+} from '../types';
+import { calculatePriceBreakdown } from './MarketplaceFees';
+
+/**
+ * Valuation of an account's NFTs at collection floors
+ * Framework marketplaces escrow a listed token in its listing object, so the
+ * owner's own listings are merged in as holdings even when the wallet no
+ * longer holds the token.
+ */
+
+// A listing row as shown in the portfolio
+function toTokenListing(listing: NFT): TokenListing {
+  const breakdown = calculatePriceBreakdown(listing.price?.amount || 0, listing.marketplace_id || '', listing.royalty_bps || 0);
+  return {
+    listing_id: listing.listing_id as string,
+    marketplace: listing.marketplace,
+    marketplace_id: listing.marketplace_id || '',
+    seller: listing.owner_address,
+    price_apt: breakdown.price_apt,
+    buyer_cost_apt: breakdown.buyer_cost_apt,
+    seller_net_apt: breakdown.seller_net_apt,
+    listed_at: listing.created_at,
+  };
+}
+
+// Collections are keyed on their ID, falling back to the name for rows without one
+const collectionKey = (nft: NFT): string => nft.collection_id || nft.collection_name;
+
+/**
+ * Group holdings by collection and value them at the floor
+ * @param owner - Account address
+ * @param owned - Tokens held in the wallet
+ * @param ownListings - The account's active listings
+ * @param floors - Floor price in APT per collection ID
+ * @returns Portfolio with the most valuable collections first
+ */
+export function buildPortfolio(
+  owner: string,
+  owned: OwnedNFT[],
+  ownListings: NFT[],
+  floors: Record<string, number>
+): Portfolio {
+  const holdings = new Map<string, PortfolioHolding>();
+
+  owned.forEach((nft) => {
+    holdings.set(nft.id, { ...nft, amount: nft.amount, owner_listings: [] });
+  });
+
+  ownListings.forEach((listing) => {
+    if (!listing.listing_id) return;
+
+    const existing = holdings.get(listing.id);
+    if (existing) {
+      existing.owner_listings.push(toTokenListing(listing));
+    } else {
+      holdings.set(listing.id, {
+        ...listing,
+        price: undefined,
+        listing_id: undefined,
+        amount: 1,
+        owner_listings: [toTokenListing(listing)],
+      });
+    }
+  });
+
+  const collections = new Map<string, PortfolioCollection>();
+  holdings.forEach((holding) => {
+    const key = collectionKey(holding);
+    const floor = holding.collection_id ? floors[holding.collection_id] : undefined;
+    holding.value_apt = floor !== undefined ? floor * holding.amount : undefined;
+    holding.owner_listings.sort((a, b) => a.price_apt - b.price_apt);
+
+    const collection = collections.get(key) || {
+      collection_id: holding.collection_id || '',
+      collection_name: holding.collection_name || 'Unknown collection',
+      holdings: [],
+      token_count: 0,
+      floor_price_apt: floor,
+      value_apt: 0,
+    };
+    collection.holdings.push(holding);
+    collection.token_count += holding.amount;
+    collection.value_apt += holding.value_apt || 0;
+    collections.set(key, collection);
+  });
+
+  const sortedCollections = [...collections.values()]
+    .map((collection) => ({
+      ...collection,
+      holdings: collection.holdings.sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => b.value_apt - a.value_apt || a.collection_name.localeCompare(b.collection_name));
+
+  return {
+    owner,
+    collections: sortedCollections,
+    total_value_apt: sortedCollections.reduce((sum, collection) => sum + collection.value_apt, 0),
+    token_count: sortedCollections.reduce((sum, collection) => sum + collection.token_count, 0),
+    listed_count: [...holdings.values()].filter((holding) => holding.owner_listings.length > 0).length,
+    unvalued_count: sortedCollections
+      .filter((collection) => collection.floor_price_apt === undefined)
+      .reduce((sum, collection) => sum + collection.token_count, 0),
+  };
+}
+
+/**
+ * Floor of each bucket with gaps filled
+ * Buckets without sales keep the previous floor; buckets before the first
+ * sale take the first one, and a collection without sales keeps its current floor.
+ * @param history - Collection price history, or null if it could not be loaded
+ * @param currentFloor - Current listed floor
+ * @param length - Number of buckets
+ */
+function filledFloors(history: PriceHistory | null, currentFloor: number, length: number): number[] {
+  const floors = (history?.buckets || []).slice(0, length).map((bucket) => bucket.floor_price_apt);
+  const first = floors.find((floor) => floor !== null);
+  if (first === undefined || first === null) {
+    return new Array(length).fill(currentFloor);
+  }
+
+  let last = first;
+  return Array.from({ length }, (_, index) => {
+    const floor = floors[index];
+    if (floor !== null && floor !== undefined) last = floor;
+    return last;
+  });
+}
+
+/**
+ * Value of the current holdings over a period, at each collection's historical floor
+ * Holdings are today's, so the line shows how the floors moved rather than
+ * what the account held in the past.
+ * @param collections - Valued collections with their price history
+ * @returns One point per bucket plus the current value, oldest first
+ */
+export function buildPortfolioHistory(
+  collections: { collection: PortfolioCollection; history: PriceHistory | null }[]
+): PortfolioValuePoint[] {
+  const reference = collections.find(({ history }) => history && history.buckets.length > 0)?.history;
+  if (!reference) return [];
+
+  const length = reference.buckets.length;
+  const values = new Array(length).fill(0);
+  collections.forEach(({ collection, history }) => {
+    if (collection.floor_price_apt === undefined) return;
+
+    filledFloors(history, collection.floor_price_apt, length).forEach((floor, index) => {
+      values[index] += floor * collection.token_count;
+    });
+  });
+
+  const points = reference.buckets.map((bucket, index) => ({ timestamp: bucket.timestamp, value_apt: values[index] }));
+  points.push({
+    timestamp: reference.end,
+    value_apt: collections.reduce((sum, { collection }) => sum + collection.value_apt, 0),
+  });
+  return points;
+}
@@ -0,0 +1,137 @@
+/**
+ * APT/USD exchange rate used to show and filter prices in USD
+ * Listings are always priced in APT on-chain, so USD values are approximate.
+ */
+
+// Endpoint returning { aptos: { usd: number } }, overridable for self-hosted feeds
+const PRICE_FEED_URL = import.meta.env.VITE_PRICE_FEED_URL
+  || 'https://api.coingecko.com/api/v3/simple/price?ids=aptos&vs_currencies=usd';
+// Endpoint returning { prices: [[timestamp_ms, usd], ...] } for ?from=&to= in seconds
+const PRICE_HISTORY_URL = import.meta.env.VITE_PRICE_HISTORY_URL
+  || 'https://api.coingecko.com/api/v3/coins/aptos/market_chart/range?vs_currency=usd';
+// Rates are refreshed at most once a minute
+const PRICE_CACHE_EXPIRATION = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+let cachedRate: { usd: number; timestamp: number } | null = null;
+let pendingRequest: Promise<number | null> | null = null;
+// Historical rates per requested day range
+const historyCache: Record<string, [number, number][]> = {};
+
+/**
+ * Fetch the current APT price in USD
+ * @returns USD per APT, or null if the feed is unavailable
+ */
+export async function fetchAptUsdPrice(): Promise<number | null> {
+  if (cachedRate && Date.now() - cachedRate.timestamp < PRICE_CACHE_EXPIRATION) {
+    return cachedRate.usd;
+  }
+
+  // Share one request between components asking at the same time
+  if (!pendingRequest) {
+    pendingRequest = (async () => {
+      try {
+        const response = await fetch(PRICE_FEED_URL, { headers: { 'Accept': 'application/json' } });
+        if (!response.ok) {
+          throw new Error(`Price feed request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const usd = Number(data?.aptos?.usd);
+        if (!Number.isFinite(usd) || usd <= 0) {
+          throw new Error('Price feed returned no APT/USD rate');
+        }
+
+        cachedRate = { usd, timestamp: Date.now() };
+        return usd;
+      } catch (error) {
+        console.error('Error fetching APT/USD price:', error);
+        // Fall back to the last known rate rather than dropping USD values entirely
+        return cachedRate?.usd ?? null;
+      } finally {
+        pendingRequest = null;
+      }
+    })();
+  }
+
+  return pendingRequest;
+}
+
+/**
+ * Convert a USD amount to APT
+ * @param usd - Amount in USD
+ * @param aptUsdPrice - USD per APT
+ */
+export function usdToApt(usd: number, aptUsdPrice: number): number {
+  return usd / aptUsdPrice;
+}
+
+/**
+ * Convert an APT amount to USD
+ * @param apt - Amount in APT
+ * @param aptUsdPrice - USD per APT
+ */
+export function aptToUsd(apt: number, aptUsdPrice: number): number {
+  return apt * aptUsdPrice;
+}
+
+/**
+ * Fetch historical APT prices in USD
+ * The range is widened to whole days so repeated requests share a cache entry.
+ * @param from - Start of the range in milliseconds
+ * @param to - End of the range in milliseconds
+ * @returns [timestamp, USD per APT] pairs, oldest first; empty if the feed is unavailable
+ */
+export async function fetchAptUsdHistory(from: number, to: number): Promise<[number, number][]> {
+  const start = Math.floor(from / DAY) * DAY;
+  const end = Math.ceil(to / DAY) * DAY;
+  const cacheKey = `${start}-${end}`;
+  if (historyCache[cacheKey]) {
+    return historyCache[cacheKey];
+  }
+
+  try {
+    const separator = PRICE_HISTORY_URL.includes('?') ? '&' : '?';
+    const url = `${PRICE_HISTORY_URL}${separator}from=${Math.floor(start / 1000)}&to=${Math.floor(end / 1000)}`;
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Price history request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const prices: [number, number][] = (Array.isArray(data?.prices) ? data.prices : [])
+      .map((point: unknown) => (Array.isArray(point) ? [Number(point[0]), Number(point[1])] : [NaN, NaN]))
+      .filter(([timestamp, usd]: [number, number]) => Number.isFinite(timestamp) && Number.isFinite(usd) && usd > 0)
+      .sort((a: [number, number], b: [number, number]) => a[0] - b[0]);
+
+    historyCache[cacheKey] = prices;
+    return prices;
+  } catch (error) {
+    console.error('Error fetching APT/USD history:', error);
+    return [];
+  }
+}
+
+/**
+ * APT/USD rate in effect at a point in time
+ * Uses the latest rate at or before the timestamp; the feed's daily points
+ * make this the closing rate of the previous day at worst.
+ * @param rates - [timestamp, USD per APT] pairs, oldest first
+ * @param timestamp - Time in milliseconds
+ * @returns USD per APT, or undefined when the rates do not cover the time
+ */
+export function usdRateAt(rates: [number, number][], timestamp: number): number | undefined {
+  if (rates.length === 0 || timestamp < rates[0][0] - DAY) return undefined;
+
+  let low = 0;
+  let high = rates.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (rates[mid][0] <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return rates[low][1];
+}
@@ -0,0 +1,76 @@
+import { PriceHistory, PriceHistoryBucket, PriceHistorySale, TimePeriod } from '../types';
+
+/**
+ * Chart series built from sale events
+ * The indexer only records sales, not historical listings, so the floor line
+ * is the lowest sale over a trailing window rather than the listed floor.
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Length of each period, the width of its buckets and of the rolling floor window
+const PERIOD_WINDOWS: Record<TimePeriod, { duration: number; bucket: number; floorWindow: number }> = {
+  '1h': { duration: HOUR, bucket: 5 * MINUTE, floorWindow: 15 * MINUTE },
+  '6h': { duration: 6 * HOUR, bucket: 15 * MINUTE, floorWindow: HOUR },
+  '24h': { duration: DAY, bucket: HOUR, floorWindow: 4 * HOUR },
+  '7d': { duration: 7 * DAY, bucket: 6 * HOUR, floorWindow: DAY },
+  '30d': { duration: 30 * DAY, bucket: DAY, floorWindow: 3 * DAY },
+};
+
+/**
+ * Start of a time period ending now
+ * @param timePeriod - Period to look back over
+ * @param now - End of the period in milliseconds
+ */
+export function periodStart(timePeriod: TimePeriod, now: number = Date.now()): number {
+  return now - PERIOD_WINDOWS[timePeriod].duration;
+}
+
+/**
+ * Bucket sales into volume bars and a rolling floor line
+ * @param sales - Sales inside the period, in any order
+ * @param timePeriod - Period the sales were loaded for
+ * @param now - End of the period in milliseconds
+ * @param truncated - Whether the sales are only part of the period's sales
+ */
+export function buildPriceHistory(
+  sales: PriceHistorySale[],
+  timePeriod: TimePeriod,
+  now: number = Date.now(),
+  truncated: boolean = false
+): PriceHistory {
+  const { bucket, floorWindow } = PERIOD_WINDOWS[timePeriod];
+  const start = periodStart(timePeriod, now);
+  const sorted = [...sales]
+    .filter((sale) => sale.timestamp >= start && sale.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const buckets: PriceHistoryBucket[] = [];
+  for (let bucketStart = start; bucketStart < now; bucketStart += bucket) {
+    buckets.push({ timestamp: bucketStart, volume_apt: 0, sales: 0, floor_price_apt: null });
+  }
+
+  sorted.forEach((sale) => {
+    const index = Math.min(Math.floor((sale.timestamp - start) / bucket), buckets.length - 1);
+    buckets[index].volume_apt += sale.price_apt;
+    buckets[index].sales += 1;
+  });
+
+  // The floor at the end of each bucket is the lowest sale in the window before it
+  let windowStart = 0;
+  let windowEnd = 0;
+  buckets.forEach((current) => {
+    const bucketEnd = current.timestamp + bucket;
+    while (windowEnd < sorted.length && sorted[windowEnd].timestamp < bucketEnd) windowEnd += 1;
+    while (windowStart < windowEnd && sorted[windowStart].timestamp < bucketEnd - floorWindow) windowStart += 1;
+
+    for (let i = windowStart; i < windowEnd; i += 1) {
+      const price = sorted[i].price_apt;
+      current.floor_price_apt = current.floor_price_apt === null ? price : Math.min(current.floor_price_apt, price);
+    }
+  });
+
+  return { time_period: timePeriod, start, end: now, sales: sorted, buckets, truncated };
+}
@@ -0,0 +1,232 @@
+import {
+  CostBasisMethod,
+  OpenLot,
+  Portfolio,
+  ProfitAndLoss,
+  RealizedLot,
+  WalletTrade,
+  WalletTradeHistory,
+} from '../types';
+import { calculatePriceBreakdown } from './MarketplaceFees';
+import { usdRateAt } from './PriceFeed';
+
+/**
+ * Cost basis and profit and loss from a wallet's marketplace trades
+ * Purchases cost the price plus the buyer's fees and sales return the price
+ * minus the seller's fees and creator royalty, using the same fee model as
+ * the listings. Tokens minted or received for free have no purchase, so
+ * their sales are reported with a zero basis and flagged.
+ */
+
+interface Lot {
+  token_data_id: string;
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  acquired_at: number;
+  cost_apt: number;
+  cost_usd?: number;
+}
+
+// Lots are pooled per token for specific-ID and per collection for FIFO
+function poolKey(trade: Pick<WalletTrade, 'token_data_id' | 'collection_id' | 'collection_name'>, method: CostBasisMethod): string {
+  if (method === 'specific_id') return trade.token_data_id;
+  return trade.collection_id || trade.collection_name || trade.token_data_id;
+}
+
+const toUsd = (apt: number, rate: number | undefined): number | undefined =>
+  rate !== undefined ? apt * rate : undefined;
+
+const subtract = (a: number | undefined, b: number | undefined): number | undefined =>
+  a !== undefined && b !== undefined ? a - b : undefined;
+
+// Sum that is undefined as soon as one part is
+const sumDefined = (values: (number | undefined)[]): number | undefined =>
+  values.reduce<number | undefined>((sum, value) => (sum !== undefined && value !== undefined ? sum + value : undefined), 0);
+
+/**
+ * Number of tokens the wallet still holds per lot pool
+ * @param portfolio - The wallet's current holdings
+ * @param method - Cost basis method deciding the pools
+ */
+function heldPerPool(portfolio: Portfolio, method: CostBasisMethod): Record<string, number> {
+  const held: Record<string, number> = {};
+  portfolio.collections.forEach((collection) => {
+    collection.holdings.forEach((holding) => {
+      const key = poolKey({ ...holding, token_data_id: holding.id }, method);
+      held[key] = (held[key] || 0) + holding.amount;
+    });
+  });
+  return held;
+}
+
+/**
+ * Match sales to purchases and value what is left at the floor
+ * @param history - The wallet's trades, royalties and APT/USD rates
+ * @param method - Cost basis method
+ * @param portfolio - Current holdings and collection floors
+ * @param currentUsdRate - Current USD per APT, or null if unavailable
+ * @returns Realized lots, open lots and totals
+ */
+export function computeProfitAndLoss(
+  history: WalletTradeHistory,
+  method: CostBasisMethod,
+  portfolio: Portfolio,
+  currentUsdRate: number | null
+): ProfitAndLoss {
+  const pools: Record<string, Lot[]> = {};
+  const realized: RealizedLot[] = [];
+
+  const sorted = [...history.trades].sort((a, b) => a.timestamp - b.timestamp);
+  sorted.forEach((trade) => {
+    const key = poolKey(trade, method);
+    const royaltyBps = history.royalties[trade.token_data_id] || 0;
+    const breakdown = calculatePriceBreakdown(trade.price_apt, trade.marketplace_id, royaltyBps);
+    const rate = usdRateAt(history.usd_rates, trade.timestamp);
+
+    if (trade.side === 'buy') {
+      (pools[key] = pools[key] || []).push({
+        token_data_id: trade.token_data_id,
+        token_name: trade.token_name,
+        collection_id: trade.collection_id,
+        collection_name: trade.collection_name,
+        acquired_at: trade.timestamp,
+        cost_apt: breakdown.buyer_cost_apt,
+        cost_usd: toUsd(breakdown.buyer_cost_apt, rate),
+      });
+      return;
+    }
+
+    // Specific-ID has at most one open lot per token; FIFO takes the oldest in the collection
+    const lot = pools[key]?.shift();
+    const proceedsUsd = toUsd(breakdown.seller_net_apt, rate);
+    const costApt = lot ? lot.cost_apt : 0;
+    const costUsd = lot ? lot.cost_usd : 0;
+
+    realized.push({
+      token_data_id: trade.token_data_id,
+      token_name: trade.token_name,
+      collection_id: trade.collection_id,
+      collection_name: trade.collection_name,
+      acquired_token_data_id: lot?.token_data_id,
+      acquired_at: lot?.acquired_at,
+      sold_at: trade.timestamp,
+      cost_apt: costApt,
+      proceeds_apt: breakdown.seller_net_apt,
+      gain_apt: breakdown.seller_net_apt - costApt,
+      cost_usd: costUsd,
+      proceeds_usd: proceedsUsd,
+      gain_usd: subtract(proceedsUsd, costUsd),
+      basis_missing: !lot,
+      marketplace: trade.marketplace,
+      transaction_version: trade.transaction_version,
+    });
+  });
+
+  // Lots of tokens given away or moved to another wallet are not held any more;
+  // keep only as many lots per pool as the wallet holds, dropping the oldest
+  const held = heldPerPool(portfolio, method);
+  const floors: Record<string, number | undefined> = {};
+  portfolio.collections.forEach((collection) => {
+    floors[collection.collection_id] = collection.floor_price_apt;
+  });
+
+  const open: OpenLot[] = [];
+  Object.entries(pools).forEach(([key, lots]) => {
+    const count = Math.min(lots.length, held[key] || 0);
+    lots.slice(lots.length - count).forEach((lot) => {
+      const value = lot.collection_id ? floors[lot.collection_id] : undefined;
+      const valueUsd = value !== undefined && currentUsdRate !== null ? value * currentUsdRate : undefined;
+      open.push({
+        ...lot,
+        value_apt: value,
+        value_usd: valueUsd,
+        gain_apt: value !== undefined ? value - lot.cost_apt : undefined,
+        gain_usd: subtract(valueUsd, lot.cost_usd),
+      });
+    });
+  });
+  open.sort((a, b) => a.acquired_at - b.acquired_at);
+
+  const valuedOpen = open.filter((lot) => lot.value_apt !== undefined);
+  return {
+    method,
+    realized,
+    open,
+    realized_gain_apt: realized.reduce((sum, lot) => sum + lot.gain_apt, 0),
+    realized_gain_usd: sumDefined(realized.map((lot) => lot.gain_usd)),
+    unrealized_gain_apt: valuedOpen.reduce((sum, lot) => sum + (lot.gain_apt || 0), 0),
+    unrealized_gain_usd: sumDefined(valuedOpen.map((lot) => lot.gain_usd)),
+  };
+}
+
+/**
+ * Years in which the wallet sold something, newest first
+ * @param pnl - Computed profit and loss
+ */
+export function taxYears(pnl: ProfitAndLoss): number[] {
+  return [...new Set(pnl.realized.map((lot) => new Date(lot.sold_at).getFullYear()))].sort((a, b) => b - a);
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+const csvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvDate = (timestamp: number | undefined): string =>
+  timestamp !== undefined ? new Date(timestamp).toISOString().slice(0, 10) : '';
+
+const csvAmount = (amount: number | undefined, decimals: number): string | undefined =>
+  amount !== undefined ? amount.toFixed(decimals) : undefined;
+
+/**
+ * Build a CSV report of the sales in a tax year
+ * @param pnl - Computed profit and loss
+ * @param year - Calendar year of the sales, in local time
+ * @returns CSV text with one row per sale
+ */
+export function buildTaxReportCsv(pnl: ProfitAndLoss, year: number): string {
+  const header = [
+    'Date Sold',
+    'Date Acquired',
+    'Token',
+    'Collection',
+    'Token ID',
+    'Acquired Token ID',
+    'Marketplace',
+    'Cost (APT)',
+    'Proceeds (APT)',
+    'Gain (APT)',
+    'Cost (USD)',
+    'Proceeds (USD)',
+    'Gain (USD)',
+    'Basis Method',
+    'Basis Missing',
+    'Transaction Version',
+  ];
+
+  const rows = pnl.realized
+    .filter((lot) => new Date(lot.sold_at).getFullYear() === year)
+    .map((lot) => [
+      csvDate(lot.sold_at),
+      csvDate(lot.acquired_at),
+      lot.token_name,
+      lot.collection_name,
+      lot.token_data_id,
+      lot.acquired_token_data_id,
+      lot.marketplace,
+      csvAmount(lot.cost_apt, 8),
+      csvAmount(lot.proceeds_apt, 8),
+      csvAmount(lot.gain_apt, 8),
+      csvAmount(lot.cost_usd, 2),
+      csvAmount(lot.proceeds_usd, 2),
+      csvAmount(lot.gain_usd, 2),
+      pnl.method === 'fifo' ? 'FIFO' : 'Specific ID',
+      lot.basis_missing ? 'yes' : 'no',
+      lot.transaction_version,
+    ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,327 @@
+import { Ed25519PublicKey } from "@aptos-labs/ts-sdk";
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+import { PurchasableListing, PurchaseSimulation, PurchaseStage, PurchaseResult } from '../types';
+import { AptosClient } from './AptosClient';
+import { buildPurchasePayload } from './MarketplaceContracts';
+import { OCTAS_PER_APT } from './QueryBuilder';
+import { validateListingRow, validateRows } from './validation';
+import { invalidateListingsCache } from './ResourceCache';
+
+/**
+ * Wallet function used to sign and submit a transaction
+ * Matches signAndSubmitTransaction from useWallet()
+ */
+export type SignAndSubmitFn = (transaction: InputTransactionData) => Promise<{ hash: string }>;
+
+/**
+ * PurchaseService - Handles the "Buy now" flow for marketplace listings
+ * Loads the live listing, simulates the marketplace purchase, submits it
+ * through the connected wallet and tracks it to confirmation
+ */
+export class PurchaseService {
+  private readonly client: AptosClient;
+
+  /**
+   * Creates a new PurchaseService
+   * @param client - An initialized AptosClient instance
+   */
+  constructor(client: AptosClient) {
+    this.client = client;
+  }
+
+  /**
+   * Fetch the current state of a listing from the NFT indexer
+   * @param listingId - The listing ID to look up
+   * @returns The active listing, or null if it was filled, cancelled or malformed
+   */
+  async fetchPurchasableListing(listingId: string): Promise<PurchasableListing | null> {
+    const query = `
+      query GetListingForPurchase($listing_id: String!) {
+        current_nft_marketplace_listings(
+          where: {listing_id: {_eq: $listing_id}, is_deleted: {_eq: false}}
+          limit: 1
+        ) {
+          listing_id
+          price
+          marketplace
+          contract_address
+          seller
+          token_data_id
+          token_amount
+          token_name
+          collection_data {
+            collection_name
+            creator_address
+          }
+          current_token_data {
+            token_name
+            token_standard
+            largest_property_version_v1
+          }
+        }
+      }
+    `;
+
+    const response = await this.client.queryGraphQL<{ current_nft_marketplace_listings?: unknown[] }>(
+      query,
+      { listing_id: listingId },
+      this.client.getNftIndexerEndpoint()
+    );
+
+    const { valid } = validateRows(response?.current_nft_marketplace_listings, validateListingRow, 'current_nft_marketplace_listings');
+    const listing = valid[0];
+    if (!listing) {
+      return null;
+    }
+
+    const tokenData = listing.current_token_data;
+    const collectionData = listing.collection_data;
+
+    return {
+      listing_id: listing.listing_id,
+      marketplace: listing.marketplace,
+      contract_address: listing.contract_address || undefined,
+      price: String(listing.price),
+      seller: listing.seller,
+      token_data_id: listing.token_data_id,
+      token_name: listing.token_name || tokenData?.token_name || undefined,
+      token_standard: tokenData?.token_standard || undefined,
+      token_amount: listing.token_amount ? Number(listing.token_amount) : undefined,
+      property_version: tokenData?.largest_property_version_v1
+        ? Number(tokenData.largest_property_version_v1)
+        : undefined,
+      collection_name: collectionData.collection_name || undefined,
+      creator_address: collectionData.creator_address || undefined,
+    };
+  }
+
+  /**
+   * Build the wallet transaction that purchases a listing
+   * @param listing - Listing to purchase
+   */
+  buildPurchaseTransaction(listing: PurchasableListing): InputTransactionData {
+    return { data: buildPurchasePayload(listing) };
+  }
+
+  /**
+   * Simulate a purchase without submitting it
+   * @param listing - Listing to purchase
+   * @param sender - Buyer account address
+   * @param publicKey - Buyer public key from the wallet, when available
+   * @returns Simulation outcome and estimated gas fee
+   */
+  async simulatePurchase(
+    listing: PurchasableListing,
+    sender: string,
+    publicKey?: string | string[]
+  ): Promise<PurchaseSimulation> {
+    const provider = this.client.getProvider();
+    const transaction = await provider.transaction.build.simple({
+      sender,
+      data: buildPurchasePayload(listing),
+    });
+
+    // Multi-key accounts return several keys; simulate without one in that case
+    const signerPublicKey = typeof publicKey === 'string'
+      ? new Ed25519PublicKey(publicKey)
+      : undefined;
+
+    const [result] = await provider.transaction.simulate.simple({
+      signerPublicKey,
+      transaction,
+    });
+
+    const gasUsed = Number(result.gas_used);
+    const gasUnitPrice = Number(result.gas_unit_price);
+
+    return {
+      success: result.success,
+      vm_status: result.vm_status,
+      gas_used: gasUsed,
+      gas_unit_price: gasUnitPrice,
+      estimated_fee_apt: (gasUsed * gasUnitPrice) / 100000000,
+    };
+  }
+
+  /**
+   * Wait for a submitted transaction to be committed
+   * @param transactionHash - Hash returned by the wallet
+   * @returns Whether the transaction succeeded and its VM status
+   */
+  async waitForConfirmation(transactionHash: string): Promise<{ success: boolean; vm_status: string }> {
+    const response = await this.client.getProvider().waitForTransaction({
+      transactionHash,
+      options: { checkSuccess: false },
+    });
+
+    return {
+      success: 'success' in response ? response.success : false,
+      vm_status: 'vm_status' in response ? response.vm_status : 'Unknown status',
+    };
+  }
+
+  /**
+   * Sign a transaction in the wallet and wait for it to be committed
+   * Shared by the offer and listing flows, which report the same stages.
+   * @param transaction - Transaction to sign
+   * @param signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param onStageChange - Optional callback for progress updates
+   * @returns The outcome of the transaction
+   */
+  async submitTransaction(
+    transaction: InputTransactionData,
+    signAndSubmitTransaction: SignAndSubmitFn,
+    onStageChange?: (stage: PurchaseStage) => void
+  ): Promise<PurchaseResult> {
+    let transactionHash: string | undefined;
+
+    try {
+      onStageChange?.('signing');
+      const pending = await signAndSubmitTransaction(transaction);
+      transactionHash = pending.hash;
+
+      onStageChange?.('confirming');
+      const confirmation = await this.waitForConfirmation(transactionHash);
+
+      if (!confirmation.success) {
+        onStageChange?.('failed');
+        return {
+          success: false,
+          transaction_hash: transactionHash,
+          vm_status: confirmation.vm_status,
+          error: `Transaction failed: ${confirmation.vm_status}`,
+        };
+      }
+
+      onStageChange?.('confirmed');
+      return { success: true, transaction_hash: transactionHash, vm_status: confirmation.vm_status };
+    } catch (error) {
+      console.error('Error submitting transaction:', error);
+      onStageChange?.('failed');
+      return {
+        success: false,
+        transaction_hash: transactionHash,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Run the full buy flow for a listing
+   * @param params.listingId - Listing to purchase
+   * @param params.approvedPrice - Price in octas the buyer agreed to; a higher live price fails the purchase
+   * @param params.sender - Buyer account address
+   * @param params.publicKey - Buyer public key, used for simulation
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onStageChange - Optional callback for progress updates
+   * @returns The outcome of the purchase
+   */
+  async purchaseListing(params: {
+    listingId: string;
+    approvedPrice: string;
+    sender: string;
+    publicKey?: string | string[];
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onStageChange?: (stage: PurchaseStage) => void;
+  }): Promise<PurchaseResult> {
+    const { listingId, approvedPrice, sender, publicKey, signAndSubmitTransaction, onStageChange } = params;
+    let transactionHash: string | undefined;
+
+    try {
+      onStageChange?.('loading');
+      const listing = await this.fetchPurchasableListing(listingId);
+      if (!listing) {
+        onStageChange?.('failed');
+        invalidateListingsCache();
+        return { success: false, error: 'This listing is no longer active' };
+      }
+
+      if (listing.seller.toLowerCase() === sender.toLowerCase()) {
+        onStageChange?.('failed');
+        return { success: false, error: 'You cannot buy your own listing' };
+      }
+
+      // Some purchase payloads carry no price, so a seller repricing after the preview would be paid the new price
+      if (BigInt(listing.price) > BigInt(approvedPrice)) {
+        onStageChange?.('failed');
+        invalidateListingsCache({ token: listing.token_data_id, marketplace: listing.marketplace });
+        return {
+          success: false,
+          error: `Price changed from ${Number(approvedPrice) / OCTAS_PER_APT} to ${Number(listing.price) / OCTAS_PER_APT} APT; review the listing again`,
+        };
+      }
+
+      onStageChange?.('simulating');
+      const simulation = await this.simulatePurchase(listing, sender, publicKey);
+      if (!simulation.success) {
+        onStageChange?.('failed');
+        return { success: false, vm_status: simulation.vm_status, error: `Simulation failed: ${simulation.vm_status}` };
+      }
+
+      onStageChange?.('signing');
+      const pending = await signAndSubmitTransaction(this.buildPurchaseTransaction(listing));
+      transactionHash = pending.hash;
+
+      onStageChange?.('confirming');
+      const confirmation = await this.waitForConfirmation(transactionHash);
+
+      // The listing is either filled or its state changed on-chain; drop the pages that could show it
+      invalidateListingsCache({ token: listing.token_data_id, marketplace: listing.marketplace });
+
+      if (!confirmation.success) {
+        onStageChange?.('failed');
+        return {
+          success: false,
+          transaction_hash: transactionHash,
+          vm_status: confirmation.vm_status,
+          error: `Transaction failed: ${confirmation.vm_status}`,
+        };
+      }
+
+      onStageChange?.('confirmed');
+      return { success: true, transaction_hash: transactionHash, vm_status: confirmation.vm_status };
+    } catch (error) {
+      console.error('Error purchasing listing:', error);
+      onStageChange?.('failed');
+      return {
+        success: false,
+        transaction_hash: transactionHash,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Buy several listings one after another
+   * Aptos wallets sign one entry function per transaction, so each listing is
+   * simulated, signed and confirmed in turn. A failed item does not stop the
+   * remaining ones.
+   * @param params.listings - Listings to purchase, in order, with the price in octas approved for each
+   * @param params.sender - Buyer account address
+   * @param params.publicKey - Buyer public key, used for simulation
+   * @param params.signAndSubmitTransaction - Wallet submit function from useWallet()
+   * @param params.onItemStart - Optional callback before each listing is processed
+   * @param params.onItemResult - Optional callback with each listing's outcome
+   * @returns Outcome per listing ID
+   */
+  async purchaseListings(params: {
+    listings: { listingId: string; approvedPrice: string }[];
+    sender: string;
+    publicKey?: string | string[];
+    signAndSubmitTransaction: SignAndSubmitFn;
+    onItemStart?: (listingId: string) => void;
+    onItemResult?: (listingId: string, result: PurchaseResult) => void;
+  }): Promise<Record<string, PurchaseResult>> {
+    const { listings, onItemStart, onItemResult, ...purchaseParams } = params;
+    const results: Record<string, PurchaseResult> = {};
+
+    for (const { listingId, approvedPrice } of listings) {
+      onItemStart?.(listingId);
+      const result = await this.purchaseListing({ ...purchaseParams, listingId, approvedPrice });
+      results[listingId] = result;
+      onItemResult?.(listingId, result);
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,368 @@
+import { IndexerListingRow } from '../types';
+import { traitValuesOf } from './Traits';
+
+/**
+ * Typed builders for the Hasura `where` and `order_by` clauses used by the
+ * NFT indexer. Clauses are plain objects sent as GraphQL variables, so user
+ * input is never pasted into the query text.
+ */
+
+/**
+ * Hasura comparison operators supported by the indexer
+ */
+export interface ComparisonExp<T> {
+  _eq?: T;
+  _neq?: T;
+  _in?: T[];
+  _nin?: T[];
+  _gt?: T;
+  _gte?: T;
+  _lt?: T;
+  _lte?: T;
+  _ilike?: string;
+  _is_null?: boolean;
+}
+
+/**
+ * Hasura operators for jsonb columns
+ */
+export interface JsonbComparisonExp {
+  _contains?: Record<string, unknown>;
+  _has_key?: string;
+}
+
+export type OrderDirection = 'asc' | 'desc';
+
+/**
+ * Filter on the collection joined to a listing
+ */
+export interface CollectionDataWhere {
+  collection_id?: ComparisonExp<string>;
+  collection_name?: ComparisonExp<string>;
+  creator_address?: ComparisonExp<string>;
+}
+
+/**
+ * Filter on the token data joined to a listing
+ */
+export interface TokenDataWhere {
+  token_name?: ComparisonExp<string>;
+  description?: ComparisonExp<string>;
+  token_properties?: JsonbComparisonExp;
+}
+
+/**
+ * Filter on current_nft_marketplace_listings rows
+ */
+export interface ListingsWhere {
+  _and?: ListingsWhere[];
+  _or?: ListingsWhere[];
+  _not?: ListingsWhere;
+  is_deleted?: ComparisonExp<boolean>;
+  listing_id?: ComparisonExp<string>;
+  token_name?: ComparisonExp<string>;
+  marketplace?: ComparisonExp<string>;
+  token_data_id?: ComparisonExp<string>;
+  collection_id?: ComparisonExp<string>;
+  seller?: ComparisonExp<string>;
+  price?: ComparisonExp<string | number>;
+  last_transaction_version?: ComparisonExp<string | number>;
+  last_transaction_timestamp?: ComparisonExp<string>;
+  collection_data?: CollectionDataWhere;
+  current_token_data?: TokenDataWhere;
+}
+
+/**
+ * Sort fields available on current_nft_marketplace_listings
+ */
+export type ListingsOrderBy = Partial<Record<
+  'price' | 'last_transaction_timestamp' | 'last_transaction_version' | 'listing_id',
+  OrderDirection
+>>;
+
+// 1 APT = 100,000,000 octas
+export const OCTAS_PER_APT = 100000000;
+
+/**
+ * Convert an APT amount to the octas string used by the price column
+ * @param apt - Amount in APT
+ */
+export function aptToOctas(apt: number): string {
+  return Math.round(apt * OCTAS_PER_APT).toString();
+}
+
+/**
+ * Escape the LIKE wildcards in user input so it is matched literally
+ * @param value - Raw user input
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Case-insensitive "contains" match for a user supplied string
+ * @param value - Text to search for
+ */
+export function containsInsensitive(value: string): ComparisonExp<string> {
+  return { _ilike: `%${escapeLikePattern(value)}%` };
+}
+
+/**
+ * Case-insensitive exact match for a user supplied string
+ * @param value - Text to match
+ */
+export function equalsInsensitive(value: string): ComparisonExp<string> {
+  return { _ilike: escapeLikePattern(value.trim()) };
+}
+
+/**
+ * Match a marketplace selection from the UI against raw marketplace IDs
+ * Accepts a single raw ID, a display name, or the comma-separated
+ * MarketplaceConfig.rawValues list.
+ * @param marketplace - Marketplace selection
+ */
+export function marketplaceComparison(marketplace: string): ComparisonExp<string> {
+  const value = marketplace.trim().toLowerCase();
+
+  if (value === 'topaz') {
+    return { _eq: 'topaz' };
+  }
+
+  if (value.includes('tradeport')) {
+    return { _in: ['tradeport_v1', 'tradeport_v2'] };
+  }
+
+  if (value.includes(',')) {
+    return { _in: value.split(',').map((id) => id.trim()).filter(Boolean) };
+  }
+
+  // Case-insensitive equality, without letting the input act as a pattern
+  return { _ilike: escapeLikePattern(value) };
+}
+
+/**
+ * Fluent builder for listing filters
+ * Every call adds a condition; build() combines them with _and.
+ *
+ * @example
+ * const where = new ListingsFilterBuilder()
+ *   .active()
+ *   .marketplace('wapal')
+ *   .collectionName('Aptos Monkeys')
+ *   .build();
+ */
+export class ListingsFilterBuilder {
+  private readonly conditions: ListingsWhere[] = [];
+
+  /**
+   * Add a raw condition
+   * @param condition - Condition to add, ignored when undefined
+   */
+  where(condition?: ListingsWhere): this {
+    if (condition && Object.keys(condition).length > 0) {
+      this.conditions.push(condition);
+    }
+    return this;
+  }
+
+  /**
+   * Only listings that have not been filled or cancelled
+   */
+  active(): this {
+    return this.where({ is_deleted: { _eq: false } });
+  }
+
+  /**
+   * Only listings on the given marketplace(s)
+   * @param marketplace - Marketplace selection, skipped when empty
+   */
+  marketplace(marketplace?: string): this {
+    return marketplace ? this.where({ marketplace: marketplaceComparison(marketplace) }) : this;
+  }
+
+  /**
+   * Only listings whose collection name contains the search text
+   * @param collection - Collection search text, skipped when empty
+   */
+  collectionName(collection?: string): this {
+    return collection
+      ? this.where({ collection_data: { collection_name: containsInsensitive(collection) } })
+      : this;
+  }
+
+  /**
+   * Only listings in a specific collection
+   * @param collectionId - Collection ID, skipped when empty
+   */
+  collectionId(collectionId?: string): this {
+    return collectionId ? this.where({ collection_id: { _eq: collectionId } }) : this;
+  }
+
+  /**
+   * Only listings for a specific token
+   * @param tokenDataId - Token data ID, skipped when empty
+   */
+  tokenDataId(tokenDataId?: string): this {
+    return tokenDataId ? this.where({ token_data_id: { _eq: tokenDataId } }) : this;
+  }
+
+  /**
+   * Only listings created by a specific seller
+   * @param seller - Seller address, skipped when empty
+   */
+  seller(seller?: string): this {
+    return seller ? this.where({ seller: { _eq: seller } }) : this;
+  }
+
+  /**
+   * Only listings created or changed after a transaction version
+   * @param version - Last version already seen, skipped when undefined
+   */
+  sinceVersion(version?: string): this {
+    return version !== undefined ? this.where({ last_transaction_version: { _gt: version } }) : this;
+  }
+
+  /**
+   * Only listings whose token has a name and a description
+   * Matches NFT.hasCompleteMetadata, so the filter can run on the indexer and
+   * the listings count stays correct.
+   * @param enabled - Skipped when false
+   */
+  completeMetadata(enabled?: boolean): this {
+    if (!enabled) return this;
+
+    const present: ComparisonExp<string> = { _is_null: false, _neq: '' };
+    return this
+      .where({ _or: [{ token_name: present }, { current_token_data: { token_name: present } }] })
+      .where({ current_token_data: { description: present } });
+  }
+
+  /**
+   * Only listings after a cursor in the given sort order
+   * @param sortOrder - Sort option the cursor was taken in
+   * @param cursor - Cursor from encodeListingsCursor, skipped when undefined or invalid
+   */
+  after(sortOrder?: string, cursor?: string): this {
+    const position = cursor ? decodeListingsCursor(cursor) : null;
+    if (!position) return this;
+
+    const { field, direction } = listingsSortKey(sortOrder);
+    const beyond: ComparisonExp<string> = direction === 'desc' ? { _lt: position.value } : { _gt: position.value };
+    // listing_id is the ascending tie-breaker of listingsOrderBy
+    return this.where({
+      _or: [
+        { [field]: beyond },
+        { [field]: { _eq: position.value }, listing_id: { _gt: position.listing_id } },
+      ],
+    });
+  }
+
+  /**
+   * Only listings priced within a range (inclusive)
+   * @param minApt - Lower bound in APT, skipped when undefined
+   * @param maxApt - Upper bound in APT, skipped when undefined
+   */
+  priceRange(minApt?: number, maxApt?: number): this {
+    const price: ComparisonExp<string> = {};
+    if (minApt !== undefined) price._gte = aptToOctas(minApt);
+    if (maxApt !== undefined) price._lte = aptToOctas(maxApt);
+    return this.where(Object.keys(price).length > 0 ? { price } : undefined);
+  }
+
+  /**
+   * Only listings whose token has the selected trait values
+   * Values of one trait type are OR'ed, different trait types are AND'ed.
+   * Each label is matched as every JSON value it may stand for, since
+   * _contains compares types and a number is never equal to its label.
+   * @param traits - Selected labels keyed by trait type, skipped when empty
+   */
+  traits(traits?: Record<string, string[]>): this {
+    if (!traits) return this;
+
+    Object.entries(traits).forEach(([traitType, labels]) => {
+      const matches: ListingsWhere[] = labels.flatMap((label) => traitValuesOf(label).map((value) => ({
+        current_token_data: { token_properties: { _contains: { [traitType]: value } } },
+      })));
+
+      if (matches.length === 1) {
+        this.where(matches[0]);
+      } else if (matches.length > 1) {
+        this.where({ _or: matches });
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Combine the conditions into a single where clause
+   */
+  build(): ListingsWhere {
+    if (this.conditions.length === 0) return {};
+    if (this.conditions.length === 1) return this.conditions[0];
+    return { _and: [...this.conditions] };
+  }
+}
+
+type ListingsSortField = 'price' | 'last_transaction_timestamp' | 'last_transaction_version';
+
+/**
+ * Primary sort column of a Dashboard sort option
+ * @param sortOrder - Sort option, e.g. "price_asc"
+ */
+export function listingsSortKey(sortOrder?: string): { field: ListingsSortField; direction: OrderDirection } {
+  const sortFields: Record<string, { field: ListingsSortField; direction: OrderDirection }> = {
+    timestamp_desc: { field: 'last_transaction_timestamp', direction: 'desc' },
+    timestamp_asc: { field: 'last_transaction_timestamp', direction: 'asc' },
+    price_desc: { field: 'price', direction: 'desc' },
+    price_asc: { field: 'price', direction: 'asc' },
+    // All-in order is price order when buyers pay the same fee everywhere; otherwise it is re-sorted client-side
+    all_in_desc: { field: 'price', direction: 'desc' },
+    all_in_asc: { field: 'price', direction: 'asc' },
+    version_desc: { field: 'last_transaction_version', direction: 'desc' },
+    version_asc: { field: 'last_transaction_version', direction: 'asc' },
+  };
+
+  return (sortOrder && sortFields[sortOrder]) || sortFields.timestamp_desc;
+}
+
+/**
+ * Map a Dashboard sort option to the indexer order_by clause
+ * @param sortOrder - Sort option, e.g. "price_asc"
+ * @returns Order by list, with listing_id as a tie-breaker for stable paging
+ */
+export function listingsOrderBy(sortOrder?: string): ListingsOrderBy[] {
+  const { field, direction } = listingsSortKey(sortOrder);
+  return [{ [field]: direction }, { listing_id: 'asc' }];
+}
+
+/**
+ * Build the keyset cursor of the last listing on a page
+ * @param sortOrder - Sort option of the page
+ * @param row - Last listing row the indexer returned
+ * @returns Cursor for ListingsFilterBuilder.after, or undefined if the row lacks the sort value
+ */
+export function encodeListingsCursor(
+  sortOrder: string | undefined,
+  row: Pick<IndexerListingRow, 'listing_id' | 'price' | 'last_transaction_timestamp' | 'last_transaction_version'>
+): string | undefined {
+  const value = row[listingsSortKey(sortOrder).field];
+  if (value === null || value === undefined) return undefined;
+  return JSON.stringify([String(value), row.listing_id]);
+}
+
+/**
+ * Read a cursor from encodeListingsCursor
+ * @param cursor - Cursor string
+ * @returns Sort value and listing ID, or null if the cursor is malformed
+ */
+export function decodeListingsCursor(cursor: string): { value: string; listing_id: string } | null {
+  try {
+    const parsed = JSON.parse(cursor);
+    if (Array.isArray(parsed) && parsed.length === 2 && typeof parsed[0] === 'string' && typeof parsed[1] === 'string') {
+      return { value: parsed[0], listing_id: parsed[1] };
+    }
+  } catch (error) {
+    // Fall through to a fresh first page
+  }
+  return null;
+}
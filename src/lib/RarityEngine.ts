@@ -0,0 +1,107 @@
+import { TokenRarity } from '../types';
+
+/**
+ * Rarity scoring based on token properties across a collection's supply
+ * Tokens missing a trait type are counted under a "none" value, so lacking a
+ * common trait makes a token rarer, as on most rarity sites.
+ */
+
+export interface RarityInput {
+  token_data_id: string;
+  properties?: Record<string, string>;
+}
+
+// Placeholder value for tokens without a trait type
+const NONE_VALUE = '\u0000none';
+
+/**
+ * Rank values with standard competition ranking (1, 2, 2, 4)
+ * @param ids - Token IDs to rank
+ * @param value - Value to rank by
+ * @param rarestFirst - Compare function returning < 0 when a is rarer than b
+ */
+function competitionRanks(
+  ids: string[],
+  value: (id: string) => number,
+  rarestFirst: (a: number, b: number) => number
+): Record<string, number> {
+  const sorted = [...ids].sort((a, b) => rarestFirst(value(a), value(b)) || a.localeCompare(b));
+  const ranks: Record<string, number> = {};
+
+  sorted.forEach((id, index) => {
+    const previous = sorted[index - 1];
+    ranks[id] = index > 0 && value(previous) === value(id) ? ranks[previous] : index + 1;
+  });
+
+  return ranks;
+}
+
+/**
+ * Compute statistical and trait-normalised rarity for every token of a collection
+ * @param tokens - All tokens of the collection with their parsed properties
+ * @returns Rarity keyed by token data ID, empty when no token has properties
+ */
+export function computeCollectionRarity(tokens: RarityInput[]): Record<string, TokenRarity> {
+  const total = tokens.length;
+  const traitTypes = new Set<string>();
+  tokens.forEach((token) => Object.keys(token.properties || {}).forEach((type) => traitTypes.add(type)));
+
+  if (total === 0 || traitTypes.size === 0) {
+    return {};
+  }
+
+  // counts[traitType][value] = number of tokens with that value
+  const counts: Record<string, Record<string, number>> = {};
+  traitTypes.forEach((type) => {
+    counts[type] = {};
+  });
+
+  const valueOf = (token: RarityInput, type: string): string => {
+    const value = token.properties?.[type];
+    return value ? value : NONE_VALUE;
+  };
+
+  tokens.forEach((token) => {
+    traitTypes.forEach((type) => {
+      const value = valueOf(token, type);
+      counts[type][value] = (counts[type][value] || 0) + 1;
+    });
+  });
+
+  const scores: Record<string, number> = {};
+  const probabilities: Record<string, number> = {};
+
+  tokens.forEach((token) => {
+    let score = 0;
+    let probability = 1;
+
+    traitTypes.forEach((type) => {
+      const count = counts[type][valueOf(token, type)];
+      const distinctValues = Object.keys(counts[type]).length;
+
+      // Normalising by the number of values keeps trait types with many
+      // values from dominating the score
+      score += (total / count) / distinctValues;
+      probability *= count / total;
+    });
+
+    scores[token.token_data_id] = score;
+    probabilities[token.token_data_id] = probability;
+  });
+
+  const ids = tokens.map((token) => token.token_data_id);
+  const scoreRanks = competitionRanks(ids, (id) => scores[id], (a, b) => b - a);
+  const statisticalRanks = competitionRanks(ids, (id) => probabilities[id], (a, b) => a - b);
+
+  const rarity: Record<string, TokenRarity> = {};
+  ids.forEach((id) => {
+    rarity[id] = {
+      score: scores[id],
+      rank: scoreRanks[id],
+      statistical_probability: probabilities[id],
+      statistical_rank: statisticalRanks[id],
+    };
+  });
+
+  return rarity;
+}
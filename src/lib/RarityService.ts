@@ -0,0 +1,117 @@
+import { NFT, CollectionRarity, TokenRarity } from '../types';
+import { NFTService } from './NFTService';
+import { computeCollectionRarity } from './RarityEngine';
+import { resourceCache } from './ResourceCache';
+
+/**
+ * RarityService - Computes and caches rarity per collection
+ * Rarity only changes when tokens are minted or burned, so results are kept
+ * much longer than listings.
+ */
+export class RarityService {
+  private readonly nftService: NFTService;
+
+  /**
+   * Creates a new RarityService
+   * @param nftService - NFTService used to load the collection's tokens
+   */
+  constructor(nftService: NFTService) {
+    this.nftService = nftService;
+  }
+
+  /**
+   * Get the rarity of every token in a collection
+   * @param collectionId - Collection ID
+   * @returns Collection rarity, or null if the collection has no token properties
+   */
+  async getCollectionRarity(collectionId: string): Promise<CollectionRarity | null> {
+    try {
+      // Concurrent callers share one computation per collection
+      return await resourceCache.get('rarity', { collectionId }, () => this.computeRarity(collectionId), {
+        scope: { collections: [collectionId] },
+      });
+    } catch (error) {
+      console.error(`Error computing rarity for collection ${collectionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up the rarity of tokens that may belong to different collections
+   * @param tokens - Token data IDs with their collection IDs
+   * @returns Rarity and collection size keyed by token data ID (unranked tokens are omitted)
+   */
+  async lookupRarity(
+    tokens: { id: string; collection_id?: string | null }[]
+  ): Promise<Record<string, { rarity: TokenRarity; total: number }>> {
+    const collectionIds = Array.from(new Set(tokens.map((token) => token.collection_id).filter((id): id is string => !!id)));
+    const rarityByCollection: Record<string, CollectionRarity | null> = {};
+
+    await Promise.all(collectionIds.map(async (collectionId) => {
+      rarityByCollection[collectionId] = await this.getCollectionRarity(collectionId);
+    }));
+
+    const result: Record<string, { rarity: TokenRarity; total: number }> = {};
+    tokens.forEach((token) => {
+      const collectionRarity = token.collection_id ? rarityByCollection[token.collection_id] : null;
+      const tokenRarity = collectionRarity?.tokens[token.id];
+      if (collectionRarity && tokenRarity) {
+        result[token.id] = { rarity: tokenRarity, total: collectionRarity.token_count };
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Add rarity rank and score to NFTs
+   * NFTs without a collection ID, or in collections without properties, are returned unchanged.
+   * @param nfts - NFTs to annotate
+   * @returns Copies of the NFTs with rarity fields set
+   */
+  async applyRarity(nfts: NFT[]): Promise<NFT[]> {
+    const ranked = await this.lookupRarity(nfts);
+
+    return nfts.map((nft) => {
+      const entry = ranked[nft.id];
+      if (!entry) return nft;
+
+      return {
+        ...nft,
+        rarity_rank: entry.rarity.rank,
+        rarity_score: entry.rarity.score,
+        rarity_statistical_rank: entry.rarity.statistical_rank,
+        rarity_total: entry.total,
+      };
+    });
+  }
+
+  /**
+   * Drop cached rarity
+   * @param collectionId - Collection to invalidate, or all collections if undefined
+   */
+  invalidateRarityCache(collectionId?: string): void {
+    resourceCache.invalidate({ resources: ['rarity'], collection: collectionId });
+  }
+
+  /**
+   * Load every token of a collection and compute their rarity
+   * Ranks cover the whole supply, so token_count is the collection size.
+   * Errors are thrown so a failed load is not cached.
+   * @param collectionId - Collection ID
+   */
+  private async computeRarity(collectionId: string): Promise<CollectionRarity | null> {
+    const tokens = await this.nftService.fetchCollectionTokenProperties(collectionId);
+    const tokenRarity = computeCollectionRarity(tokens);
+    if (Object.keys(tokenRarity).length === 0) {
+      return null;
+    }
+
+    return {
+      collection_id: collectionId,
+      token_count: tokens.length,
+      tokens: tokenRarity,
+      computed_at: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,351 @@
+import { getActiveNetwork } from './NetworkProfiles';
+import { CACHE_STORE, withStore } from './Database';
+
+/**
+ * Cache for indexer and chain responses shared by the services
+ * Entries are kept per resource with their own freshness and size bounds,
+ * served stale while a background request refreshes them, and, for data
+ * that changes slowly, persisted to IndexedDB so a reload starts from the
+ * last known data. Concurrent requests for the same entry share one load.
+ * Each entry records which collections, tokens and marketplaces it covers so
+ * a change to one listing only drops the entries that could contain it.
+ */
+
+export type CacheResource = 'listings' | 'traits' | 'royalties' | 'rarity';
+
+export interface CachePolicy {
+  ttl: number;  // Milliseconds an entry is served as is
+  staleTtl: number;  // Further milliseconds it is served while being refreshed
+  maxEntries: number;  // Least recently used entries beyond this are evicted
+  persist: boolean;  // Kept in IndexedDB across reloads
+}
+
+export const CACHE_POLICIES: Record<CacheResource, CachePolicy> = {
+  // Listings sell and get cancelled all the time, so they are kept briefly and never across reloads
+  listings: { ttl: 30 * 1000, staleTtl: 15 * 1000, maxEntries: 100, persist: false },
+  traits: { ttl: 5 * 60 * 1000, staleTtl: 55 * 60 * 1000, maxEntries: 50, persist: true },
+  royalties: { ttl: 60 * 60 * 1000, staleTtl: 23 * 60 * 60 * 1000, maxEntries: 500, persist: true },
+  // Rarity only changes when tokens are minted or burned
+  rarity: { ttl: 60 * 60 * 1000, staleTtl: 23 * 60 * 60 * 1000, maxEntries: 10, persist: true },
+};
+
+/**
+ * What an entry covers; a missing dimension means it may hold any value
+ * Marketplaces are base names, e.g. "tradeport" for tradeport_v1 and tradeport_v2.
+ */
+export interface CacheScope {
+  collections?: string[];
+  tokens?: string[];
+  marketplaces?: string[];
+}
+
+/**
+ * Entries to drop; an empty target drops everything
+ * Entries are dropped when they may cover every given collection, token and
+ * marketplace, or when their params include all the given params.
+ */
+export interface CacheInvalidation {
+  resources?: CacheResource[];
+  collection?: string;
+  token?: string;
+  marketplace?: string;
+  params?: Record<string, unknown>;
+}
+
+interface CacheEntry {
+  key: string;
+  resource: CacheResource;
+  params: Record<string, unknown>;
+  scope: CacheScope;
+  value: unknown;
+  stored_at: number;
+  last_used: number;
+}
+
+interface PendingLoad {
+  request: Promise<unknown>;
+  entry: Omit<CacheEntry, 'value' | 'stored_at' | 'last_used'>;
+  dropped: boolean;  // Invalidated while loading, so the value is not stored
+}
+
+/**
+ * Serialise a value with object keys sorted, so params built in any order share a key
+ * @param value - JSON-compatible value
+ */
+export function stableStringify(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item) ?? 'null').join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .flatMap((key) => {
+        const field = stableStringify((value as Record<string, unknown>)[key]);
+        return field === undefined ? [] : [`${JSON.stringify(key)}:${field}`];
+      });
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Base name of a marketplace, as used in cache scopes
+ * Matches NFTService.getBaseMarketplaceName.
+ */
+function baseMarketplace(name: string): string {
+  return name.trim().toLowerCase()
+    .replace(/_v\d+$/i, '')
+    .replace(/_\d+$/i, '')
+    .replace(/[-_]/g, '');
+}
+
+/**
+ * Build the scope of a listings query from its filters
+ * A collection name search is not a collection ID, so it leaves the collection open.
+ * @param filters.collectionId - Exact collection filter
+ * @param filters.tokenDataId - Token filter
+ * @param filters.marketplace - Marketplace filter, raw IDs separated by commas
+ */
+export function listingsScope(filters: { collectionId?: string; tokenDataId?: string; marketplace?: string }): CacheScope {
+  return {
+    collections: filters.collectionId ? [filters.collectionId] : undefined,
+    tokens: filters.tokenDataId ? [filters.tokenDataId] : undefined,
+    marketplaces: filters.marketplace ? filters.marketplace.split(',').filter(Boolean).map(baseMarketplace) : undefined,
+  };
+}
+
+// An entry may cover a value if its scope leaves the dimension open or lists the value
+const covers = (values: string[] | undefined, value: string | undefined, normalize = (v: string) => v): boolean =>
+  value === undefined || values === undefined || values.includes(normalize(value));
+
+/**
+ * Check whether an invalidation targets an entry
+ * @param entry - Cached entry
+ * @param target - Invalidation target
+ */
+function isTargeted(entry: PendingLoad['entry'], target: CacheInvalidation): boolean {
+  if (target.resources && !target.resources.includes(entry.resource)) return false;
+
+  if (target.params) {
+    return Object.keys(target.params).every(
+      (key) => stableStringify(entry.params[key]) === stableStringify(target.params?.[key])
+    );
+  }
+
+  return covers(entry.scope.collections, target.collection)
+    && covers(entry.scope.tokens, target.token)
+    && covers(entry.scope.marketplaces, target.marketplace, baseMarketplace);
+}
+
+/**
+ * ResourceCache - LRU cache with per-resource freshness and IndexedDB persistence
+ */
+export class ResourceCache {
+  // Insertion order is recency order: the first entry is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  // Loads in flight, so concurrent callers share one request per entry
+  private readonly inFlight = new Map<string, PendingLoad>();
+  private hydration: Promise<void> | null = null;
+  private hydrated = false;
+  // Invalidations made before hydration, applied to the entries read from IndexedDB
+  private readonly pendingInvalidations: CacheInvalidation[] = [];
+
+  /**
+   * Get a cached value, loading it when missing or expired
+   * Stale values are returned at once and refreshed in the background; the
+   * refreshed value is passed to onRefresh so the caller can show it. When a
+   * load fails the last known value is served so the app keeps working
+   * offline: persisted resources at any age, others only within their
+   * policy's window. Without one the error is thrown.
+   * @param resource - Kind of data, which sets the cache policy
+   * @param params - Everything the value depends on; the active network is added
+   * @param load - Loads the value; must throw rather than return a fallback.
+   *   refreshing is true for background refreshes, so nested cached reads can skip their own stale copies.
+   * @param options.scope - Collections, tokens and marketplaces the value covers
+   * @param options.skipCache - Load even if a fresh value is cached
+   * @param options.onRefresh - Called with the value of a background refresh once it is stored
+   */
+  async get<T>(
+    resource: CacheResource,
+    params: Record<string, unknown>,
+    load: (context: { refreshing: boolean }) => Promise<T>,
+    options: { scope?: CacheScope; skipCache?: boolean; onRefresh?: (value: T) => void } = {}
+  ): Promise<T> {
+    const keyParams = { network: getActiveNetwork(), ...params };
+    const key = `${resource}:${stableStringify(keyParams)}`;
+    await this.hydrate();
+
+    const policy = CACHE_POLICIES[resource];
+    const entry = this.entries.get(key);
+
+    if (entry && !options.skipCache) {
+      const age = Date.now() - entry.stored_at;
+      if (age < policy.ttl + policy.staleTtl) {
+        this.touch(entry);
+        if (age >= policy.ttl) {
+          this.load(key, resource, keyParams, () => load({ refreshing: true }), options.scope)
+            .then((value) => {
+              // Not stored when invalidated meanwhile; the caller reloads then anyway
+              if (this.entries.get(key)?.value === value) options.onRefresh?.(value);
+            })
+            .catch((error) => {
+              console.error(`Error refreshing cached ${resource}:`, error);
+            });
+        }
+        return entry.value as T;
+      }
+    }
+
+    try {
+      return await this.load(key, resource, keyParams, () => load({ refreshing: false }), options.scope);
+    } catch (error) {
+      const fallback = this.entries.get(key);
+      // Data that is not persisted changes too fast to be worth showing once it is past its window
+      const tooOld = !!fallback && !policy.persist && Date.now() - fallback.stored_at >= policy.ttl + policy.staleTtl;
+      if (!fallback || tooOld) throw error;
+
+      console.error(`Error loading ${resource}, serving the cached copy from ${new Date(fallback.stored_at).toISOString()}:`, error);
+      this.touch(fallback);
+      return fallback.value as T;
+    }
+  }
+
+  /**
+   * Drop cached entries, in memory and in IndexedDB
+   * Loads in flight are not stored, so they cannot bring dropped data back.
+   * @param target - Entries to drop, or everything if undefined
+   */
+  invalidate(target: CacheInvalidation = {}): void {
+    this.inFlight.forEach((pending, key) => {
+      if (!isTargeted(pending.entry, target)) return;
+      pending.dropped = true;
+      this.inFlight.delete(key);
+    });
+
+    const dropped = Array.from(this.entries.values()).filter((entry) => isTargeted(entry, target));
+    dropped.forEach((entry) => this.remove(entry));
+
+    // Entries not hydrated yet are checked once they are read
+    if (!this.hydrated) {
+      this.pendingInvalidations.push(target);
+    }
+  }
+
+  /**
+   * Load a value once per key and store it
+   */
+  private load<T>(
+    key: string,
+    resource: CacheResource,
+    params: Record<string, unknown>,
+    load: () => Promise<T>,
+    scope: CacheScope = {}
+  ): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing.request as Promise<T>;
+
+    const pending: PendingLoad = { request: Promise.resolve(), entry: { key, resource, params, scope }, dropped: false };
+    const request = load()
+      .then((value) => {
+        if (!pending.dropped) {
+          this.store({ ...pending.entry, value, stored_at: Date.now(), last_used: Date.now() });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === pending) this.inFlight.delete(key);
+      });
+
+    pending.request = request;
+    this.inFlight.set(key, pending);
+    return request;
+  }
+
+  /**
+   * Add an entry and evict the least recently used ones beyond the resource's bound
+   */
+  private store(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.persist(entry);
+
+    const policy = CACHE_POLICIES[entry.resource];
+    const sameResource = Array.from(this.entries.values()).filter((cached) => cached.resource === entry.resource);
+    sameResource.slice(0, Math.max(0, sameResource.length - policy.maxEntries)).forEach((cached) => this.remove(cached));
+  }
+
+  // Mark an entry as the most recently used
+  private touch(entry: CacheEntry): void {
+    entry.last_used = Date.now();
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+  }
+
+  private remove(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    if (CACHE_POLICIES[entry.resource].persist) {
+      this.unpersist(entry.key);
+    }
+  }
+
+  private unpersist(key: string): void {
+    withStore(CACHE_STORE, 'readwrite', (store) => store.delete(key)).catch((error) => {
+      console.error('Error removing a cache entry:', error);
+    });
+  }
+
+  private persist(entry: CacheEntry): void {
+    if (!CACHE_POLICIES[entry.resource].persist) return;
+
+    withStore(CACHE_STORE, 'readwrite', (store) => store.put(entry)).catch((error) => {
+      console.error('Error persisting a cache entry:', error);
+    });
+  }
+
+  /**
+   * Read the persisted entries once, before the first lookup
+   * Entries already in memory are newer and win; without IndexedDB the cache
+   * simply starts empty.
+   */
+  private hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = withStore<CacheEntry[]>(CACHE_STORE, 'readonly', (store) => store.getAll())
+        .then((persisted) => {
+          // Also drops entries of resources that are no longer persisted
+          const stale = persisted.filter((entry) => !CACHE_POLICIES[entry.resource]?.persist
+            || this.pendingInvalidations.some((target) => isTargeted(entry, target)));
+          stale.forEach((entry) => this.unpersist(entry.key));
+
+          const loaded = new Map<string, CacheEntry>();
+          persisted
+            .filter((entry) => !stale.includes(entry) && !this.entries.has(entry.key))
+            .sort((a, b) => a.last_used - b.last_used)
+            .forEach((entry) => loaded.set(entry.key, entry));
+          this.entries.forEach((entry, key) => loaded.set(key, entry));
+
+          this.entries.clear();
+          loaded.forEach((entry, key) => this.entries.set(key, entry));
+        })
+        .catch((error) => {
+          console.error('Error reading the persisted cache:', error);
+        })
+        .finally(() => {
+          this.hydrated = true;
+          this.pendingInvalidations.length = 0;
+        });
+    }
+    return this.hydration;
+  }
+}
+
+// Shared by every service and network; keys include the network
+export const resourceCache = new ResourceCache();
+
+/**
+ * Drop cached listings pages
+ * Call this when listings change, e.g. after a purchase or a manual refresh.
+ * @param target - Collection, token, marketplace or query params to drop, or every page if undefined
+ */
+export function invalidateListingsCache(target: Omit<CacheInvalidation, 'resources'> = {}): void {
+  resourceCache.invalidate({ ...target, resources: ['listings'] });
+}
@@ -0,0 +1,145 @@
+import {
+  IndexerMarketplaceActivityRow,
+  IndexerTokenActivityRow,
+  TokenActivity,
+  TokenActivityKind,
+} from '../types';
+
+/**
+ * Normalisation of token events into a single provenance timeline
+ * Mints, transfers and burns come from token_activities_v2; listings,
+ * delistings and sales from nft_marketplace_activities. A sale also moves the
+ * token, so transfers in the same transaction as a sale are folded into it.
+ */
+
+// Marketplace event types recorded for a completed sale
+export const SALE_EVENT_TYPES = ['fill_listing', 'fill_token_offer', 'fill_collection_offer'];
+// Marketplace event types shown on the timeline
+export const TIMELINE_EVENT_TYPES = ['place_listing', 'cancel_listing', ...SALE_EVENT_TYPES];
+
+/**
+ * Helpers shared with NFTService for converting raw indexer values
+ */
+export interface ActivityFormatters {
+  toApt: (octas: string | number) => number;
+  marketplaceName: (marketplace: string) => string;
+  parseTimestamp: (timestamp: string) => number;
+}
+
+/**
+ * Kind of a marketplace activity
+ * @param eventType - Standardised event type from nft_marketplace_activities
+ * @returns Timeline kind, or undefined for events not on the timeline (e.g. offers)
+ */
+export function marketplaceEventKind(eventType: string): TokenActivityKind | undefined {
+  if (SALE_EVENT_TYPES.includes(eventType)) return 'sale';
+  if (eventType === 'place_listing') return 'list';
+  if (eventType === 'cancel_listing') return 'delist';
+  return undefined;
+}
+
+/**
+ * Kind of a token activity
+ * @param type - Move event type, e.g. "0x4::collection::Mint" or "0x3::token::DepositEvent"
+ * @returns Timeline kind, or undefined for events not on the timeline (e.g. property mutations)
+ */
+export function tokenEventKind(type: string): TokenActivityKind | undefined {
+  const name = type.split('::').pop()?.toLowerCase() || '';
+  if (name.includes('mint')) return 'mint';
+  if (name.includes('burn')) return 'burn';
+  if (/transfer|deposit|withdraw|claim/.test(name)) return 'transfer';
+  return undefined;
+}
+
+// Newest first; events in one transaction keep their emitted order reversed
+function compareNewestFirst(a: TokenActivity, b: TokenActivity): number {
+  const versionDiff = BigInt(b.transaction_version) - BigInt(a.transaction_version);
+  if (versionDiff !== 0n) return versionDiff > 0n ? 1 : -1;
+  return b.event_index - a.event_index;
+}
+
+/**
+ * Merge token and marketplace activity into one timeline
+ * @param tokenRows - Validated token_activities_v2 rows
+ * @param marketplaceRows - Validated nft_marketplace_activities rows
+ * @param formatters - Converters for amounts, marketplace names and timestamps
+ * @returns Activity, newest first
+ */
+export function normalizeTokenActivity(
+  tokenRows: IndexerTokenActivityRow[],
+  marketplaceRows: IndexerMarketplaceActivityRow[],
+  formatters: ActivityFormatters
+): TokenActivity[] {
+  const activity: TokenActivity[] = [];
+  const saleVersions = new Set<string>();
+
+  marketplaceRows.forEach((row) => {
+    const kind = marketplaceEventKind(row.event_type);
+    if (!kind) return;
+
+    const version = String(row.transaction_version);
+    if (kind === 'sale') saleVersions.add(version);
+
+    activity.push({
+      kind,
+      timestamp: formatters.parseTimestamp(row.transaction_timestamp),
+      transaction_version: version,
+      event_index: Number(row.event_index ?? 0),
+      event_type: row.event_type,
+      price_apt: row.price != null ? formatters.toApt(row.price) : undefined,
+      // Listings only have a seller; a sale moves the token from seller to buyer
+      from_address: row.seller || undefined,
+      to_address: kind === 'sale' ? row.buyer || undefined : undefined,
+      marketplace: formatters.marketplaceName(row.marketplace),
+    });
+  });
+
+  // Token v1 moves are a withdraw and a deposit; merge them per transaction
+  const transfers: Record<string, TokenActivity> = {};
+  tokenRows.forEach((row) => {
+    const kind = tokenEventKind(row.type);
+    if (!kind) return;
+
+    const version = String(row.transaction_version);
+    if (kind === 'transfer' && saleVersions.has(version)) return;
+
+    const entry: TokenActivity = {
+      kind,
+      timestamp: formatters.parseTimestamp(row.transaction_timestamp),
+      transaction_version: version,
+      event_index: Number(row.event_index ?? 0),
+      event_type: row.type,
+      from_address: row.from_address || undefined,
+      to_address: row.to_address || (kind === 'mint' ? row.event_account_address || undefined : undefined),
+    };
+
+    if (kind !== 'transfer') {
+      activity.push(entry);
+      return;
+    }
+
+    const existing = transfers[version];
+    if (existing) {
+      existing.from_address = existing.from_address || entry.from_address;
+      existing.to_address = entry.to_address || existing.to_address;
+    } else {
+      transfers[version] = entry;
+      activity.push(entry);
+    }
+  });
+
+  // A mint already delivers the token to its first owner
+  const mintVersions = new Set(activity.filter((entry) => entry.kind === 'mint').map((entry) => entry.transaction_version));
+
+  return activity
+    .filter((entry) => !(entry.kind === 'transfer' && mintVersions.has(entry.transaction_version)))
+    .sort(compareNewestFirst);
+}
+
+/**
+ * Most recent sale in a timeline
+ * @param activity - Activity, newest first
+ */
+export function findLastSale(activity: TokenActivity[]): TokenActivity | undefined {
+  return activity.find((entry) => entry.kind === 'sale' && entry.price_apt !== undefined);
+}
@@ -0,0 +1,112 @@
+import { TraitSelection, TraitSummary } from '../types';
+
+/**
+ * Helpers for trait (token property) filters
+ */
+
+/**
+ * Label of a token property value, as shown in filters and used in trait selections
+ * @param value - Value from token_properties, of any JSON type
+ */
+export function traitLabel(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Token property values a trait label may stand for, to match with jsonb _contains
+ * A label is the value itself when the value is a string, or its JSON when it
+ * is not, so "5" may be the string "5" or the number 5.
+ * @param label - Label from traitLabel
+ */
+export function traitValuesOf(label: string): unknown[] {
+  try {
+    const parsed: unknown = JSON.parse(label);
+    return typeof parsed === 'string' ? [label] : [label, parsed];
+  } catch {
+    return [label];
+  }
+}
+
+/**
+ * Count trait values across a set of tokens
+ * Values are counted by label, and keep the type they have in token_properties.
+ * @param propertiesList - Token properties, one entry per token
+ * @returns Trait types sorted by name, values sorted by count (most common first)
+ */
+export function summarizeTraits(propertiesList: (Record<string, unknown> | undefined)[]): TraitSummary[] {
+  const counts: Record<string, Record<string, { raw: unknown; count: number }>> = {};
+
+  propertiesList.forEach((properties) => {
+    if (!properties) return;
+
+    Object.entries(properties).forEach(([traitType, raw]) => {
+      if (raw === null || raw === undefined || raw === '') return;
+      const value = traitLabel(raw);
+      counts[traitType] = counts[traitType] || {};
+      counts[traitType][value] = { raw, count: (counts[traitType][value]?.count || 0) + 1 };
+    });
+  });
+
+  return Object.entries(counts)
+    .map(([traitType, values]) => ({
+      trait_type: traitType,
+      total: Object.values(values).reduce((sum, { count }) => sum + count, 0),
+      values: Object.entries(values)
+        .map(([value, { raw, count }]) => ({ value, raw, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    }))
+    .sort((a, b) => a.trait_type.localeCompare(b.trait_type));
+}
+
+/**
+ * Drop trait types without selected values
+ * @param selection - Trait selection to clean up
+ */
+export function compactTraitSelection(selection: TraitSelection): TraitSelection {
+  return Object.fromEntries(
+    Object.entries(selection).filter(([, values]) => values.length > 0)
+  );
+}
+
+/**
+ * Serialize a trait selection for the URL, e.g. "Background:Blue,Background:Red,Eyes:Laser"
+ * Trait types and values are URI encoded so they may contain the separators.
+ * @param selection - Trait selection
+ * @returns Query param value, or null when nothing is selected
+ */
+export function serializeTraitSelection(selection: TraitSelection): string | null {
+  const pairs = Object.entries(selection).flatMap(([traitType, values]) =>
+    values.map((value) => `${encodeURIComponent(traitType)}:${encodeURIComponent(value)}`)
+  );
+  return pairs.length > 0 ? pairs.join(',') : null;
+}
+
+/**
+ * Parse a trait selection from the URL
+ * Invalid pairs are ignored.
+ * @param param - Query param value from serializeTraitSelection
+ */
+export function parseTraitSelection(param: string | null): TraitSelection {
+  const selection: TraitSelection = {};
+  if (!param) return selection;
+
+  param.split(',').forEach((pair) => {
+    const separator = pair.indexOf(':');
+    if (separator <= 0) return;
+
+    try {
+      const traitType = decodeURIComponent(pair.slice(0, separator));
+      const value = decodeURIComponent(pair.slice(separator + 1));
+      if (!value) return;
+
+      selection[traitType] = selection[traitType] || [];
+      if (!selection[traitType].includes(value)) {
+        selection[traitType].push(value);
+      }
+    } catch (error) {
+      console.warn(`Ignoring malformed trait filter "${pair}"`);
+    }
+  });
+
+  return selection;
+}
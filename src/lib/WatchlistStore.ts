@@ -0,0 +1,75 @@
+import { WatchlistItem, WatchlistKind } from '../types';
+import { AppNetwork } from './NetworkProfiles';
+import { WATCHLIST_STORE, withStore } from './Database';
+
+/**
+ * Watchlist persistence in IndexedDB
+ * Each list belongs to a scope: the connected wallet address, or "local"
+ * when no wallet is connected, on a single network. Items are stored one
+ * record per watched token or collection.
+ */
+
+// Scope used while no wallet is connected
+export const LOCAL_WATCHLIST_OWNER = 'local';
+
+interface WatchlistRecord extends WatchlistItem {
+  scope: string;
+}
+
+/**
+ * Build the scope of a watchlist
+ * @param owner - Wallet address, or undefined when no wallet is connected
+ * @param network - Network the items belong to
+ */
+export function watchlistScope(owner: string | undefined, network: AppNetwork): string {
+  return `${network}:${owner || LOCAL_WATCHLIST_OWNER}`;
+}
+
+/**
+ * Load the items of a watchlist, oldest first
+ * @param scope - Scope from watchlistScope
+ */
+export async function loadWatchlist(scope: string): Promise<WatchlistItem[]> {
+  try {
+    const records = await withStore<WatchlistRecord[]>(WATCHLIST_STORE, 'readonly', (store) => store.index('scope').getAll(scope));
+    return records
+      .map(({ scope: _scope, ...item }) => item)
+      .sort((a, b) => a.added_at - b.added_at);
+  } catch (error) {
+    console.error('Error loading the watchlist:', error);
+    return [];
+  }
+}
+
+/**
+ * Add or update an item in a watchlist
+ * @param scope - Scope from watchlistScope
+ * @param item - Item to store
+ * @returns Whether the item was stored
+ */
+export async function saveWatchlistItem(scope: string, item: WatchlistItem): Promise<boolean> {
+  try {
+    await withStore(WATCHLIST_STORE, 'readwrite', (store) => store.put({ ...item, scope }));
+    return true;
+  } catch (error) {
+    console.error('Error saving a watchlist item:', error);
+    return false;
+  }
+}
+
+/**
+ * Remove an item from a watchlist
+ * @param scope - Scope from watchlistScope
+ * @param kind - Kind of the item
+ * @param id - Token data ID or collection ID
+ * @returns Whether the item was removed
+ */
+export async function removeWatchlistItem(scope: string, kind: WatchlistKind, id: string): Promise<boolean> {
+  try {
+    await withStore(WATCHLIST_STORE, 'readwrite', (store) => store.delete([scope, kind, id]));
+    return true;
+  } catch (error) {
+    console.error('Error removing a watchlist item:', error);
+    return false;
+  }
+}
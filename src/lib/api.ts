@@ -1,25 +1,48 @@
-import { NFT, MarketplaceConfig, AggregatorStats } from '../types';
-
-// Aptos NFT Indexer GraphQL endpoint for marketplace data
-const APTOS_NFT_INDEXER_ENDPOINT = 'https://api.mainnet.aptoslabs.com/nft-aggregator-staging/v1/graphql';
-
-// Aptos Analytics REST API base URL
-const APTOS_ANALYTICS_API = 'https://api.mainnet.aptoslabs.com/v1/analytics';
-
-// Cache for metadata fetching
-const metadataCache: Record<string, any> = {};
-
-// New cache for active listings with expiration
-interface ListingsCache {
-  timestamp: number;
-  data: { nfts: NFT[]; total: number };
-  params: string; // JSON stringified params for cache key
-}
-
-// Cache object to store listings with a 5-minute expiration
-const listingsCache: Record<string, ListingsCache> = {};
-// Default cache expiration time (5 minutes in milliseconds)
-const CACHE_EXPIRATION = 5 * 60 * 1000;
+import {
+  NFT,
+  MarketplaceConfig,
+  AggregatorStats,
+  ActiveListingsResponse,
+  ListingsPage,
+  ActiveListingsParams,
+  AnalyticsResponse,
+  CollectionRankingRow,
+  CollectionDetails,
+  CollectionBuyerRow,
+  CollectionSellerRow,
+  MarketplaceStats,
+  CollectionSummary,
+  MarketplaceListingBreakdown,
+  MarketplaceSummary,
+  MarketplaceCollectionRow,
+  Portfolio,
+  PortfolioValuePoint,
+  TimePeriod,
+  WalletTradeHistory,
+  AlertInputs,
+  AlertRule,
+  CollectionDealInputs,
+} from '../types';
+import { getNetworkProfile } from './NetworkProfiles';
+import { aptosClient, nftService, listingService } from './ApiConfig';
+import { ListingsFilterBuilder } from './QueryBuilder';
+import { buildPortfolio, buildPortfolioHistory } from './Portfolio';
+import { fetchAptUsdHistory } from './PriceFeed';
+import { summarizeTraits } from './Traits';
+import { DEFAULT_DEAL_THRESHOLDS } from './Deals';
+import { invalidateListingsCache } from './ResourceCache';
+import {
+  validateRows,
+  validateRankingRow,
+  validateCollectionRow,
+  validateBuyerRow,
+  validateSellerRow,
+} from './validation';
+
+export { invalidateListingsCache };
+
+// Aptos Analytics REST API base URL on the active network
+const analyticsApi = (): string => getNetworkProfile().analyticsEndpoint;
 
 /**
  * Format marketplace name for display
@@ -62,7 +85,7 @@ function formatMarketplaceName(name: string): string {
  * Extract base marketplace name for grouping purposes
  * e.g., tradeport_v1 and tradeport_v2 should both return "tradeport"
  */
-function getBaseMarketplaceName(name: string): string {
+export function getBaseMarketplaceName(name: string): string {
   if (!name) return 'unknown';
   
   // Convert to lowercase and remove version suffixes
@@ -72,587 +95,19 @@ function getBaseMarketplaceName(name: string): string {
     .replace(/[-_]/g, '');   // Remove hyphens and underscores
 }
 
-/**
- * Helper to convert IPFS URLs to HTTP URLs for display in browsers
- */
-function convertIpfsUrl(url: string): string {
-  if (!url) return url;
-  
-  // Check if it's an IPFS URL
-  if (url.startsWith('ipfs://')) {
-    const ipfsHash = url.replace('ipfs://', '');
-    return `https://ipfs.io/ipfs/${ipfsHash}`;
-  }
-  
-  // It's already an HTTP URL, return as is
-  return url;
-}
-
-/**
- * Get the best available image URL from CDN asset URIs
- * Handles cases where cdn_image_uri is null but other fields are available
- */
-async function getBestImageUrl(cdnAssetUris: any, token_name: string, token_uri?: string): Promise<string> {
-  if (!cdnAssetUris) return '';
-  
-  // First try the CDN image URI if available (second priority)
-  if (cdnAssetUris.cdn_image_uri) {
-    return cdnAssetUris.cdn_image_uri;
-  }
-  
-  // Then try raw image URI if we didn't already handle it in the special cases
-  if (cdnAssetUris.raw_image_uri) {
-    // Convert IPFS URL if needed
-    const imageUrl = convertIpfsUrl(cdnAssetUris.raw_image_uri);
-    
-    // Check if it's an image or video
-    const uri = imageUrl.toLowerCase();
-    if (uri.endsWith('.jpg') || uri.endsWith('.jpeg') || uri.endsWith('.png') || 
-        uri.endsWith('.gif') || uri.endsWith('.webp') || uri.endsWith('.svg')) {
-      return imageUrl;
-    }
-    
-    // For videos and other media, still use it but log
-    if (uri.endsWith('.mp4') || uri.endsWith('.webm') || uri.endsWith('.mov')) {
-      return imageUrl;
-    }
-    
-    // If we got here but raw_image_uri doesn't end with a known extension, 
-    // we'll still try to use it - it might be an image without a proper extension
-    return imageUrl;
-  }
-  
-  // Then try CDN animation URI (might be a video but better than nothing)
-  if (cdnAssetUris.cdn_animation_uri) {
-    return cdnAssetUris.cdn_animation_uri;
-  }
-  
-  // Then try raw animation URI
-  if (cdnAssetUris.raw_animation_uri) {
-    const animUrl = convertIpfsUrl(cdnAssetUris.raw_animation_uri);
-    return animUrl;
-  }
-  
-  // Then try asset URI (might be a JSON file, but some platforms use it for direct image links)
-  if (cdnAssetUris.asset_uri) {
-    const uri = cdnAssetUris.asset_uri.toLowerCase();
-    if (uri.endsWith('.jpg') || uri.endsWith('.jpeg') || uri.endsWith('.png') || 
-        uri.endsWith('.gif') || uri.endsWith('.webp') || uri.endsWith('.svg')) {
-      const assetUrl = convertIpfsUrl(cdnAssetUris.asset_uri);
-      return assetUrl;
-    }
-  }
-  
-  // If cdn_json_uri exists, try to fetch it and extract the image URL
-  if (cdnAssetUris.cdn_json_uri) {
-    try {
-      const response = await fetch(cdnAssetUris.cdn_json_uri, {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' },
-        cache: 'no-cache' // Avoid cache issues
-      });
-      if (response.ok) {
-        const metadata = await response.json();
-        
-        if (metadata.image) {
-          return convertIpfsUrl(metadata.image);
-        }
-        // Look for standard NFT metadata fields that might contain an image
-        if (metadata.image_url) {
-          return convertIpfsUrl(metadata.image_url);
-        }
-        if (metadata.imageUrl) {
-          return convertIpfsUrl(metadata.imageUrl);
-        }
-        if (metadata.animation_url) {
-          return convertIpfsUrl(metadata.animation_url);
-        }
-        if (metadata.animationUrl) {
-          return convertIpfsUrl(metadata.animationUrl);
-        }
-      }
-    } catch (error) {
-      console.error(`Error fetching JSON metadata from ${cdnAssetUris.cdn_json_uri}:`, error);
-    }
-  }
-  
-  // If asset_uri points to a JSON file but we haven't tried it yet
-  if (cdnAssetUris.asset_uri && !cdnAssetUris.cdn_json_uri && 
-      cdnAssetUris.asset_uri.toLowerCase().endsWith('.json')) {
-    try {
-      const response = await fetch(convertIpfsUrl(cdnAssetUris.asset_uri), {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' },
-        cache: 'no-cache' // Avoid cache issues
-      });
-      if (response.ok) {
-        const metadata = await response.json();
-        if (metadata.image) {
-          return convertIpfsUrl(metadata.image);
-        }
-        if (metadata.image_url) {
-          return convertIpfsUrl(metadata.image_url);
-        }
-        if (metadata.imageUrl) {
-          return convertIpfsUrl(metadata.imageUrl);
-        }
-        if (metadata.animation_url) {
-          return convertIpfsUrl(metadata.animation_url);
-        }
-        if (metadata.animationUrl) {
-          return convertIpfsUrl(metadata.animationUrl);
-        }
-      }
-    } catch (error) {
-    }
-  }
-  
-  // If token_uri exists and we haven't explored it yet
-  if (token_uri && (!cdnAssetUris.asset_uri || !cdnAssetUris.cdn_json_uri)) {
-    try {
-      const tokenUri = convertIpfsUrl(token_uri);
-      const response = await fetch(tokenUri, {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' },
-        cache: 'no-cache' // Avoid cache issues
-      });
-      if (response.ok) {
-        const metadata = await response.json();
-        if (metadata.image) {
-          return convertIpfsUrl(metadata.image);
-        }
-        if (metadata.image_url) {
-          return convertIpfsUrl(metadata.image_url);
-        }
-        if (metadata.imageUrl) {
-          return convertIpfsUrl(metadata.imageUrl);
-        }
-        if (metadata.animation_url) {
-          return convertIpfsUrl(metadata.animation_url);
-        }
-        if (metadata.animationUrl) {
-          return convertIpfsUrl(metadata.animationUrl);
-        }
-      }
-    } catch (error) {
-      console.error(`Error fetching JSON metadata from token_uri:`, error);
-    }
-  }
-  
-  // If asset_uri exists but isn't a JSON, try using it directly
-  if (cdnAssetUris.asset_uri && !cdnAssetUris.asset_uri.toLowerCase().endsWith('.json')) {
-    const assetUrl = convertIpfsUrl(cdnAssetUris.asset_uri);
-    return assetUrl;
-  }
-  
-  return '';
-}
-
 /**
  * Fetch active NFT listings from marketplaces
- * @param params Optional parameters for filtering and pagination
+ * @param params Optional parameters for filtering, sorting and pagination
  */
-export async function fetchActiveListings(params: {
-  page?: number; 
-  pageSize?: number; 
-  collection?: string; 
-  marketplace?: string;
-  sortOrder?: string;
-  orderByClause?: string;
-  hideIncompleteMetadata?: boolean;
-  skipCache?: boolean;
-} = {}): Promise<{ nfts: NFT[]; total: number }> {
-  const { 
-    page = 1, 
-    pageSize = 10, 
-    collection = undefined, 
-    marketplace = undefined,
-    sortOrder = 'timestamp_desc',
-    orderByClause = 'last_transaction_timestamp',
-    hideIncompleteMetadata = false,
-    skipCache = false
-  } = params;
-
-  // Create a cache key from the params
-  const cacheParams = { page, pageSize, collection, marketplace, sortOrder, hideIncompleteMetadata };
-  const cacheKey = JSON.stringify(cacheParams);
-
-  // Check if we have a valid cache entry and not explicitly skipping cache
-  if (!skipCache && listingsCache[cacheKey]) {
-    const cacheEntry = listingsCache[cacheKey];
-    const now = Date.now();
-    // Check if cache entry is still valid (not expired)
-    if (now - cacheEntry.timestamp < CACHE_EXPIRATION) {
-      return cacheEntry.data;
-    }
-  }
-
-  // Map dashboard sort options to GraphQL format
-  let orderPart = '';
-
-  // Map sort parameters from UI to GraphQL format
-  if (sortOrder) {
-    if (sortOrder === 'timestamp_desc') {
-      orderPart = 'order_by: {last_transaction_timestamp: desc}';
-    } else if (sortOrder === 'timestamp_asc') {
-      orderPart = 'order_by: {last_transaction_timestamp: asc}';
-    } else if (sortOrder === 'price_desc') {
-      orderPart = 'order_by: {price: desc}';
-    } else if (sortOrder === 'price_asc') {
-      orderPart = 'order_by: {price: asc}';
-    } else if (sortOrder === 'version_desc') {
-      orderPart = 'order_by: {last_transaction_version: desc}';
-    } else if (sortOrder === 'version_asc') {
-      orderPart = 'order_by: {last_transaction_version: asc}';
-    } else {
-      // Default fallback
-      orderPart = 'order_by: {last_transaction_timestamp: desc}';
-    }
-  } else {
-    // Default if no sort order specified
-    orderPart = 'order_by: {last_transaction_timestamp: desc}';
-  }
-
-  const offset = (page - 1) * pageSize;
-  
-  try {
-    // Calculate appropriate limit based on filters applied
-    const queryLimit = marketplace ? pageSize * 5 : hideIncompleteMetadata ? pageSize * 3 : pageSize;
-    const queryOffset = (hideIncompleteMetadata || marketplace) ? 0 : offset;
-    
-    // Handle marketplace parameter based on the marketplace
-    let marketplaceFilter = '';
-    if (marketplace) {
-      if (marketplace.toLowerCase() === 'topaz') {
-        marketplaceFilter = `marketplace: {_eq: "topaz"}`;
-      } else if (marketplace.toLowerCase().includes('tradeport')) {
-        marketplaceFilter = `marketplace: {_in: ["tradeport_v1", "tradeport_v2"]}`;
-      } else {
-        marketplaceFilter = `marketplace: {_ilike: "${marketplace}"}`;
-      }
-    }
-    
-    // Reduce the complexity of the query to avoid rate limiting
-    const smallQuery = `
-      query ActiveListingsSimple {
-        current_nft_marketplace_listings(
-          limit: ${queryLimit}
-          offset: ${queryOffset}
-          where: {
-            is_deleted: {_eq: false}
-            ${marketplaceFilter ? marketplaceFilter : ''}
-            ${collection ? `, collection_data: {collection_name: {_ilike: "%${collection}%"}}` : ''}
-          }
-          ${orderPart}
-        ) {
-          token_name
-          token_data_id
-          seller
-          price
-          marketplace
-          listing_id
-          last_transaction_timestamp
-          collection_id
-          collection_data {
-            collection_name
-            uri
-            creator_address
-          }
-          current_token_data {
-            token_uri
-            token_name
-            description
-            cdn_asset_uris {
-              cdn_image_uri
-              asset_uri
-              cdn_animation_uri
-              raw_animation_uri
-              raw_image_uri
-              cdn_json_uri
-            }
-          }
-        }
-        
-        # Get the total count for pagination
-        current_nft_marketplace_listings_aggregate(
-          where: {
-            is_deleted: {_eq: false}
-            ${marketplaceFilter ? marketplaceFilter : ''}
-            ${collection ? `, collection_data: {collection_name: {_ilike: "%${collection}%"}}` : ''}
-          }
-        ) {
-          aggregate {
-            count
-          }
-        }
-      }
-    `;
-
-    const response = await fetchWithRetry(APTOS_NFT_INDEXER_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query: smallQuery }),
-    }, 0); // No retries
-
-    if (!response.ok) {
-      console.error(`GraphQL request failed: ${response.status} ${response.statusText}`);
-      return { nfts: [], total: 0 };
-    }
-
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return { nfts: [], total: 0 };
-    }
-    
-    if (!data.data || !data.data.current_nft_marketplace_listings) {
-      console.error('Invalid response structure from NFT Indexer API');
-      return { nfts: [], total: 0 };
-    }
-    
-    const listings = data.data.current_nft_marketplace_listings || [];
-    // Get the total listings count for pagination
-    const totalCount = data.data.current_nft_marketplace_listings_aggregate?.aggregate?.count || listings.length;
-
-    // Transform the data to match our NFT type and filter out items with no token name
-    const nftsPromises = listings
-      .filter((listing: any) => {
-        // For Topaz, be more lenient and keep all listings
-        if (listing.marketplace && listing.marketplace.toLowerCase().includes('topaz')) {
-          return true;
-        }
-        
-        // For other marketplaces, check token name as usual
-        return !!(listing.token_name || 
-                  (listing.current_token_data && listing.current_token_data.token_name));
-      })
-      .map(async (listing: any): Promise<NFT> => {
-        const tokenData = listing.current_token_data || {};
-        const collectionData = listing.collection_data || {};
-        
-        // Get the best available image URL using our helper
-        let imageUrl = '';
-        if (tokenData.cdn_asset_uris) {
-          try {
-            imageUrl = await getBestImageUrl(
-              tokenData.cdn_asset_uris,
-              tokenData.token_name || 'NFT',
-              tokenData.token_uri
-            );
-          } catch (error) {
-            // If image URL fetching fails, continue without an image
-          }
-        }
-        
-        // If no image URL is available, use a placeholder
-        if (!imageUrl) {
-          const placeholderName = encodeURIComponent(tokenData.token_name || 'NFT');
-          imageUrl = `https://placehold.co/500x500/eee/999?text=${placeholderName}`;
-        }
-        
-        // Check if metadata is complete
-        const hasCompleteName = !!(listing.token_name || tokenData.token_name);
-        const hasDescription = !!tokenData.description;
-        const hasImage = !!imageUrl;
-        const hasCompleteMetadata = (hasCompleteName && hasDescription && hasImage);
-        
-        return {
-          id: listing.token_data_id || `listing-${listing.listing_id}`,
-          name: listing.token_name || tokenData.token_name || `NFT #${listing.listing_id || 'Unknown'}`,
-          description: tokenData.description || collectionData.description || 'No description available',
-          image_url: imageUrl,
-          marketplace: formatMarketplaceName(listing.marketplace || 'Unknown'),
-          collection_name: collectionData.collection_name || 'Unknown Collection',
-          creator_address: collectionData.creator_address || '',
-          owner_address: listing.seller || '',
-          price: {
-            amount: listing.price ? parseFloat(listing.price) / 100000000 : 0, // Convert from octas to APT
-            currency: 'APT',
-          },
-          token_properties: parseTokenProperties(tokenData.token_properties),
-          created_at: listing.last_transaction_timestamp ? new Date(listing.last_transaction_timestamp).toISOString() : new Date().toISOString(),
-          listing_id: listing.listing_id || '',
-          collection_id: tokenData.collection_id || listing.collection_id || '',
-          token_uri: tokenData.token_uri || collectionData.uri || '',
-          hasCompleteMetadata: hasCompleteMetadata,
-        };
-      });
-    
-    // Wait for all NFT processing to complete
-    const nfts = await Promise.all(nftsPromises);
-    
-
-    // Filter out NFTs with incomplete metadata if requested
-    const filteredNfts = hideIncompleteMetadata 
-      ? nfts.filter((nft: NFT) => nft.hasCompleteMetadata) 
-      : nfts;
-    
-
-    // If we're hiding incomplete metadata, we need to handle pagination manually
-    let paginatedNfts = filteredNfts;
-    if (hideIncompleteMetadata) {
-      // Apply pagination manually
-      const startIndex = (page - 1) * pageSize;
-      paginatedNfts = filteredNfts.slice(startIndex, startIndex + pageSize);
-    }
-
-    // Return without processing NFT image URLs - just use what we have
-    const result = {
-      nfts: paginatedNfts,
-      total: hideIncompleteMetadata ? filteredNfts.length : totalCount, 
-    };
-    
-    // Store in cache with current timestamp
-    listingsCache[cacheKey] = {
-      timestamp: Date.now(),
-      data: result,
-      params: cacheKey
-    };
-    
-    return result;
-  } catch (error) {
-    console.error('Error fetching active listings:', error);
-    return { nfts: [], total: 0 };
-  }
+export function fetchActiveListings(params: ActiveListingsParams = {}): Promise<ListingsPage> {
+  return nftService.fetchActiveListings(params);
 }
 
 /**
- * Manual cache invalidation for fetchActiveListings
- * Call this function when data needs to be refreshed
- * @param specificParams Optional specific params to invalidate, or all cache if undefined
+ * Fetch details for a specific NFT by ID, with its listings on every marketplace
  */
-export function invalidateListingsCache(specificParams?: any): void {
-  if (specificParams) {
-    // Invalidate specific cache entry
-    const cacheKey = JSON.stringify(specificParams);
-    if (listingsCache[cacheKey]) {
-      delete listingsCache[cacheKey];
-    }
-  } else {
-    // Invalidate all cache entries
-    Object.keys(listingsCache).forEach(key => {
-      delete listingsCache[key];
-    });
-  }
-}
-
-/**
- * Fetch details for a specific NFT by ID
- */
-export async function fetchNFTDetails(nftId: string): Promise<NFT | null> {
-  try {
-    const response = await fetchWithRetry(APTOS_NFT_INDEXER_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: `
-    query GetNFTDetailsById {
-      current_token_datas_v2(where: {token_data_id: {_eq: "${nftId}"}}) {
-        token_data_id
-        token_name
-        token_uri
-        description
-        token_properties
-        token_standard
-        collection_id
-        supply
-        maximum
-        last_transaction_timestamp
-        cdn_asset_uris {
-          cdn_image_uri
-          asset_uri
-          cdn_animation_uri
-          raw_animation_uri
-          raw_image_uri
-          cdn_json_uri
-        }
-      }
-      current_nft_marketplace_listings(where: {token_data_id: {_eq: "${nftId}"}, is_deleted: {_eq: false}}, limit: 1) {
-        listing_id
-        price
-        marketplace
-        seller
-        last_transaction_timestamp  
-        collection_data {
-          collection_name
-        }
-      }
-
-    }
-  ` }),
-    });
-
-    if (!response.ok) {
-      console.error(`GraphQL request failed: ${response.status} ${response.statusText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return null;
-    }
-    
-    const tokenData = data.data?.current_token_datas_v2?.[0];
-    const listing = data.data?.current_nft_marketplace_listings?.[0];
-    const collectionName = listing?.collection_data?.collection_name || '';
-    if (!tokenData) {
-      return null;
-    }
-
-    // Get the best available image URL using our helper
-    let imageUrl = '';
-    if (tokenData.cdn_asset_uris) {
-      try {
-        imageUrl = await getBestImageUrl(
-          tokenData.cdn_asset_uris,
-          tokenData.token_name || 'NFT',
-          tokenData.token_uri
-        );
-      } catch (error) {
-        // If image URL fetching fails, continue without an image
-      }
-    }
-    
-    // If no image URL is available, use a placeholder
-    if (!imageUrl) {
-      const placeholderName = encodeURIComponent(tokenData.token_name || 'NFT');
-      imageUrl = `https://placehold.co/500x500/eee/999?text=${placeholderName}`;
-    }
-
-    return {
-      id: tokenData.token_data_id_hash,
-      name: tokenData.token_name || 'Unnamed NFT',
-      description: tokenData.description || '',
-      image_url: imageUrl,
-      marketplace: formatMarketplaceName(listing ? listing.marketplace : ''),
-      collection_name: collectionName,
-      creator_address: tokenData.creator_address || '',
-      owner_address: listing ? listing.seller : '', // If listed, the seller is the owner
-      price: listing ? {
-        amount: parseFloat(listing.price) / 100000000, // Convert from octas to APT
-        currency: 'APT'
-      } : undefined,
-      token_properties: parseTokenProperties(tokenData.token_properties),
-      created_at: new Date(tokenData.last_transaction_timestamp).toISOString(),
-      
-      // Additional details
-      supply: tokenData.supply,
-      maximum: tokenData.maximum,
-      token_uri: tokenData.token_uri,
-      collection_id: tokenData.collection_id,
-      listing_id: listing ? listing.listing_id : undefined,
-    };
-  } catch (error) {
-    console.error('Error fetching NFT details:', error);
-    return null;
-  }
+export function fetchNFTDetails(nftId: string): Promise<NFT | null> {
+  return nftService.fetchNFTDetails(nftId);
 }
 
 /**
@@ -672,27 +127,13 @@ export async function fetchMarketplaceConfigs(): Promise<MarketplaceConfig[]> {
       }
     `;
     
-    const response = await fetchWithRetry(APTOS_NFT_INDEXER_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query }),
-    });
-
-    if (!response.ok) {
-      console.error(`GraphQL request failed: ${response.status} ${response.statusText}`);
-      return [];
-    }
-
-    const data = await response.json();
-    
-    if (data.errors) {
-      console.error('GraphQL query returned errors:', data.errors);
-      return [];
-    }
+    const data = await aptosClient.queryGraphQL<{ current_nft_marketplace_listings?: { marketplace: string | null }[] }>(
+      query,
+      {},
+      aptosClient.getNftIndexerEndpoint()
+    );
     
-    const marketplaceItems = data.data?.current_nft_marketplace_listings || [];
+    const marketplaceItems = data?.current_nft_marketplace_listings || [];
     
     // Ensure we have some data, otherwise return empty array
     if (marketplaceItems.length === 0) {
@@ -702,8 +143,13 @@ export async function fetchMarketplaceConfigs(): Promise<MarketplaceConfig[]> {
     // Group marketplaces by their base name
     const groupedMarketplaces: Record<string, string[]> = {};
     
-    marketplaceItems.forEach((item: any) => {
-      const marketplaceName = item.marketplace || 'unknown';
+    marketplaceItems.forEach((item) => {
+      // A listing without a marketplace cannot be filtered on, so leave it out of the list
+      if (!item.marketplace) {
+        console.warn('Skipped marketplace listing row without a marketplace ID');
+        return;
+      }
+      const marketplaceName = item.marketplace;
       
       // Skip Topaz (deprecated)
       if (marketplaceName.toLowerCase().includes('topaz')) {
@@ -781,20 +227,13 @@ export async function fetchAggregatorStats(): Promise<AggregatorStats> {
       }
     `;
 
-    const listingsResponse = await fetchWithRetry(APTOS_NFT_INDEXER_ENDPOINT, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query: listingsCountQuery }),
-    });
-  
-    let totalActiveListings = 0;
+    const data = await aptosClient.queryGraphQL<ActiveListingsResponse>(
+      listingsCountQuery,
+      {},
+      aptosClient.getNftIndexerEndpoint()
+    );
+    const totalActiveListings = data?.current_nft_marketplace_listings_aggregate?.aggregate?.count || 0;
 
-    if (listingsResponse.ok) {
-      const data = await listingsResponse.json();
-      totalActiveListings = data.data?.current_nft_marketplace_listings_aggregate?.aggregate?.count || 0;
-    } else {
-      console.error('❌ Failed to get listings count:', await listingsResponse.text());
-    }
     return {
       total_marketplaces: 4,
       total_active_listings: totalActiveListings,
@@ -809,20 +248,6 @@ export async function fetchAggregatorStats(): Promise<AggregatorStats> {
   }
 }
 
-/**
- * Helper to parse token properties from string to object
- */
-function parseTokenProperties(properties: string | null | undefined): Record<string, string> | undefined {
-  if (!properties) return undefined;
-  
-  try {
-    return JSON.parse(properties);
-  } catch (error) {
-    console.error('Error parsing token properties:', error);
-    return undefined;
-  }
-}
-
 /**
  * Connect to a marketplace using an API key (simulated)
  */
@@ -841,16 +266,21 @@ export async function disconnectMarketplace(marketplaceId: string): Promise<bool
 }
 
 /**
- * Helper function for GraphQL requests with retry logic
+ * Validate analytics ranking rows and convert their amounts from octas to APT
+ * @param rows Raw rows from a ranking endpoint
+ * @param source Endpoint name, used when reporting malformed rows
  */
-async function fetchWithRetry(url: string, options: RequestInit, retries = 0, backoff = 5000): Promise<Response> {
-  // No retries - just forward the fetch call directly
-  try {
-    return await fetch(url, options);
-  } catch (error) {
-    console.error(`Fetch error:`, error);
-    throw error instanceof Error ? error : new Error(String(error));
-  }
+function toRankingRows(rows: unknown, source: string): CollectionRankingRow[] {
+  const { valid } = validateRows(rows ?? [], validateRankingRow, source);
+
+  return valid.map((collection) => ({
+    collection_id: collection.collection_id,
+    collection_name: collection.collection_name,
+    total_volume_apt: formatAPTAmount(collection.total_volume_apt ?? 0),
+    total_sales: collection.total_sales != null ? Number(collection.total_sales) : undefined,
+    floor_price_apt: formatAPTAmount(collection.floor_price_apt ?? 0),
+    volume_change_percentage: Number(collection.volume_change_percentage || 0),
+  }));
 }
 
 /**
@@ -861,7 +291,7 @@ export async function fetchCollectionsByVolume(params: {
   limit?: number;
   offset?: number;
   timePeriod?: '1h' | '6h' | '24h' | '1d' | '7d' | '30d';
-} = {}): Promise<any[]> {
+} = {}): Promise<CollectionRankingRow[]> {
   const { 
     limit = 10, 
     offset = 0, 
@@ -872,7 +302,7 @@ export async function fetchCollectionsByVolume(params: {
 
   try {
     // Build the URL with query parameters
-    const url = new URL(`${APTOS_ANALYTICS_API}/nft/collection/list_by_volume`);
+    const url = new URL(`${analyticsApi()}/nft/collection/list_by_volume`);
     url.searchParams.append('limit', limit.toString());
     url.searchParams.append('offset', offset.toString());
     url.searchParams.append('time_period', timePeriod);
@@ -884,21 +314,8 @@ export async function fetchCollectionsByVolume(params: {
       return [];
     }
 
-    const data = await response.json();
-    console.log('Collections by volume:', data);
-
-    // Process the collections to convert amounts
-    if (data.data && Array.isArray(data.data)) {
-      return data.data.map((collection: any) => ({
-        ...collection,
-        // Convert volume from octas to APT for display
-        total_volume_apt: formatAPTAmount(collection.total_volume_apt),
-        // Add extra fields that might be useful
-        volume_change_percentage: collection.volume_change_percentage || 0,
-      }));
-    }
-
-    return [];
+    const data: AnalyticsResponse<unknown> = await response.json();
+    return toRankingRows(data.data, 'list_by_volume');
   } catch (error) {
     console.error('Error fetching collections by volume:', error);
     return [];
@@ -913,7 +330,7 @@ export async function fetchCollectionsBySales(params: {
   limit?: number;
   offset?: number;
   timePeriod?: '1h' | '6h' | '24h' | '1d' | '7d' | '30d';
-} = {}): Promise<any[]> {
+} = {}): Promise<CollectionRankingRow[]> {
   const { 
     limit = 10, 
     offset = 0, 
@@ -924,7 +341,7 @@ export async function fetchCollectionsBySales(params: {
 
   try {
     // Build the URL with query parameters
-    const url = new URL(`${APTOS_ANALYTICS_API}/nft/collection/list_by_sales`);
+    const url = new URL(`${analyticsApi()}/nft/collection/list_by_sales`);
     url.searchParams.append('limit', limit.toString());
     url.searchParams.append('offset', offset.toString());
     url.searchParams.append('time_period', timePeriod);
@@ -936,19 +353,8 @@ export async function fetchCollectionsBySales(params: {
       return [];
     }
 
-    const data = await response.json();
-    console.log('Collections by sales:', data);
-
-    // Process the collections
-    if (data.data && Array.isArray(data.data)) {
-      return data.data.map((collection: any) => ({
-        ...collection,
-        // Convert volume from octas to APT for display
-        total_volume_apt: formatAPTAmount(collection.total_volume_apt),
-      }));
-    }
-
-    return [];
+    const data: AnalyticsResponse<unknown> = await response.json();
+    return toRankingRows(data.data, 'list_by_sales');
   } catch (error) {
     console.error('Error fetching collections by sales:', error);
     return [];
@@ -963,7 +369,7 @@ export async function fetchCollectionsByFloorPrice(params: {
   limit?: number;
   offset?: number;
   timePeriod?: '1h' | '6h' | '24h' | '1d' | '7d' | '30d';
-} = {}): Promise<any[]> {
+} = {}): Promise<CollectionRankingRow[]> {
   const { 
     limit = 10, 
     offset = 0, 
@@ -974,7 +380,7 @@ export async function fetchCollectionsByFloorPrice(params: {
 
   try {
     // Build the URL with query parameters
-    const url = new URL(`${APTOS_ANALYTICS_API}/nft/collection/list_by_floor_price`);
+    const url = new URL(`${analyticsApi()}/nft/collection/list_by_floor_price`);
     url.searchParams.append('limit', limit.toString());
     url.searchParams.append('offset', offset.toString());
     url.searchParams.append('time_period', timePeriod);
@@ -986,21 +392,8 @@ export async function fetchCollectionsByFloorPrice(params: {
       return [];
     }
 
-    const data = await response.json();
-    console.log('Collections by floor price:', data);
-
-    // Process the collections
-    if (data.data && Array.isArray(data.data)) {
-      return data.data.map((collection: any) => ({
-        ...collection,
-        // Convert floor price from octas to APT for display
-        floor_price_apt: formatAPTAmount(collection.floor_price_apt),
-        // Convert volume from octas to APT for display if available
-        total_volume_apt: collection.total_volume_apt ? formatAPTAmount(collection.total_volume_apt) : undefined,
-      }));
-    }
-
-    return [];
+    const data: AnalyticsResponse<unknown> = await response.json();
+    return toRankingRows(data.data, 'list_by_floor_price');
   } catch (error) {
     console.error('Error fetching collections by floor price:', error);
     return [];
@@ -1011,47 +404,51 @@ export async function fetchCollectionsByFloorPrice(params: {
  * Get collection details including total sales volume, top buyers, top sellers
  * @param collectionId The collection ID to fetch details for
  */
-export async function fetchCollectionDetails(collectionId: string): Promise<any> {
+export async function fetchCollectionDetails(collectionId: string): Promise<CollectionDetails> {
   console.log(`Fetching details for collection: ${collectionId}`);
   
   try {
     // Make parallel requests to get all collection details
     const [totalSalesResponse, totalVolumeResponse, topBuyersResponse, topSellersResponse] = await Promise.all([
-      fetch(`${APTOS_ANALYTICS_API}/nft/collection/total_sales_count?collection_id=${collectionId}`),
-      fetch(`${APTOS_ANALYTICS_API}/nft/collection/total_sales_volume?collection_id=${collectionId}`),
-      fetch(`${APTOS_ANALYTICS_API}/nft/collection/top_buyer?collection_id=${collectionId}&limit=5`),
-      fetch(`${APTOS_ANALYTICS_API}/nft/collection/top_seller?collection_id=${collectionId}&limit=5`)
+      fetch(`${analyticsApi()}/nft/collection/total_sales_count?collection_id=${encodeURIComponent(collectionId)}`),
+      fetch(`${analyticsApi()}/nft/collection/total_sales_volume?collection_id=${encodeURIComponent(collectionId)}`),
+      fetch(`${analyticsApi()}/nft/collection/top_buyer?collection_id=${encodeURIComponent(collectionId)}&limit=5`),
+      fetch(`${analyticsApi()}/nft/collection/top_seller?collection_id=${encodeURIComponent(collectionId)}&limit=5`)
     ]);
     
     // Process responses
     let totalSales = 0;
     let totalVolume = 0;
-    let topBuyers: any[] = [];
-    let topSellers: any[] = [];
+    let topBuyers: CollectionBuyerRow[] = [];
+    let topSellers: CollectionSellerRow[] = [];
     
     if (totalSalesResponse.ok) {
-      const salesData = await totalSalesResponse.json();
-      totalSales = salesData.data || 0;
+      const salesData: AnalyticsResponse<number | string> = await totalSalesResponse.json();
+      totalSales = Number(salesData.data) || 0;
     }
     
     if (totalVolumeResponse.ok) {
-      const volumeData = await totalVolumeResponse.json();
+      const volumeData: AnalyticsResponse<number | string> = await totalVolumeResponse.json();
       totalVolume = formatAPTAmount(volumeData.data || 0);
     }
     
     if (topBuyersResponse.ok) {
-      const buyersData = await topBuyersResponse.json();
-      topBuyers = (buyersData.data || []).map((buyer: any) => ({
-        ...buyer,
-        total_spent: formatAPTAmount(buyer.total_spent)
+      const buyersData: AnalyticsResponse<unknown> = await topBuyersResponse.json();
+      const { valid } = validateRows(buyersData.data ?? [], validateBuyerRow, 'top_buyer');
+      topBuyers = valid.map((buyer) => ({
+        buyer: buyer.buyer,
+        total_spent: formatAPTAmount(buyer.total_spent),
+        total_purchases: buyer.total_purchases != null ? Number(buyer.total_purchases) : undefined,
       }));
     }
     
     if (topSellersResponse.ok) {
-      const sellersData = await topSellersResponse.json();
-      topSellers = (sellersData.data || []).map((seller: any) => ({
-        ...seller,
-        total_volume: formatAPTAmount(seller.total_volume)
+      const sellersData: AnalyticsResponse<unknown> = await topSellersResponse.json();
+      const { valid } = validateRows(sellersData.data ?? [], validateSellerRow, 'top_seller');
+      topSellers = valid.map((seller) => ({
+        seller: seller.seller,
+        total_volume: formatAPTAmount(seller.total_volume),
+        total_sales: seller.total_sales != null ? Number(seller.total_sales) : undefined,
       }));
     }
     
@@ -1074,25 +471,140 @@ export async function fetchCollectionDetails(collectionId: string): Promise<any>
   }
 }
 
+/**
+ * Fetch collection metadata with its floor price and listings per marketplace
+ * The cheapest listing of each raw marketplace ID gives its floor, and an
+ * aggregate per ID gives its count, so the breakdown covers every listing.
+ * @param collectionId The collection ID
+ * @returns Collection summary, or null if the collection does not exist
+ */
+export async function fetchCollectionSummary(collectionId: string): Promise<CollectionSummary | null> {
+  try {
+    const query = `
+      query CollectionSummary($collection_id: String!) {
+        current_collections_v2(where: {collection_id: {_eq: $collection_id}}) {
+          collection_id
+          collection_name
+          description
+          uri
+          creator_address
+          current_supply
+          max_supply
+        }
+        current_nft_marketplace_listings(
+          where: {collection_id: {_eq: $collection_id}, is_deleted: {_eq: false}}
+          distinct_on: marketplace
+          order_by: [{marketplace: asc}, {price: asc}]
+        ) {
+          marketplace
+          price
+        }
+        current_nft_marketplace_listings_aggregate(
+          where: {collection_id: {_eq: $collection_id}, is_deleted: {_eq: false}}
+        ) {
+          aggregate {
+            count
+          }
+        }
+      }
+    `;
+
+    const data = await aptosClient.queryGraphQL<{
+      current_collections_v2?: unknown[];
+      current_nft_marketplace_listings?: { marketplace: string | null; price: string | number | null }[];
+      current_nft_marketplace_listings_aggregate?: { aggregate?: { count?: number } };
+    }>(
+      query,
+      { collection_id: collectionId },
+      aptosClient.getNftIndexerEndpoint()
+    );
+
+    const { valid: collections } = validateRows(data?.current_collections_v2, validateCollectionRow, 'current_collections_v2');
+    const collection = collections[0];
+    if (!collection) {
+      return null;
+    }
+
+    // distinct_on keeps the cheapest listing of each raw marketplace ID
+    const floors = (data.current_nft_marketplace_listings || []).filter(
+      (listing): listing is { marketplace: string; price: string | number } => !!listing.marketplace && listing.price !== null
+    );
+
+    // One aliased aggregate per raw marketplace ID; IDs are passed as variables, never pasted into the query
+    const countQuery = `
+      query CollectionMarketplaceCounts(${floors.map((_, i) => `$where${i}: current_nft_marketplace_listings_bool_exp!`).join(', ')}) {
+        ${floors.map((_, i) => `m${i}: current_nft_marketplace_listings_aggregate(where: $where${i}) { aggregate { count } }`).join('\n        ')}
+      }
+    `;
+    const counts = floors.length > 0
+      ? await aptosClient.queryGraphQL<Record<string, { aggregate?: { count?: number } } | undefined>>(
+        countQuery,
+        Object.fromEntries(floors.map((listing, i) => [
+          `where${i}`,
+          { collection_id: { _eq: collectionId }, is_deleted: { _eq: false }, marketplace: { _eq: listing.marketplace } },
+        ])),
+        aptosClient.getNftIndexerEndpoint()
+      )
+      : {};
+
+    // Group marketplaces, merging contract versions (tradeport_v1/v2)
+    const groups: Record<string, MarketplaceListingBreakdown> = {};
+    floors.forEach((listing, i) => {
+      const baseName = getBaseMarketplaceName(listing.marketplace);
+      const price = formatAPTAmount(listing.price);
+      const group = groups[baseName] || {
+        marketplace: formatMarketplaceName(baseName),
+        marketplace_ids: [],
+        listed_count: 0,
+        floor_price_apt: price,
+      };
+
+      group.marketplace_ids.push(listing.marketplace);
+      group.listed_count += counts?.[`m${i}`]?.aggregate?.count || 0;
+      group.floor_price_apt = Math.min(group.floor_price_apt, price);
+      groups[baseName] = group;
+    });
+
+    const marketplaces = Object.values(groups).sort((a, b) => b.listed_count - a.listed_count);
+    const floorPrices = marketplaces.map((group) => group.floor_price_apt);
+
+    return {
+      collection_id: collection.collection_id,
+      collection_name: collection.collection_name,
+      description: collection.description || undefined,
+      uri: collection.uri || undefined,
+      creator_address: collection.creator_address || undefined,
+      current_supply: collection.current_supply != null ? Number(collection.current_supply) : undefined,
+      max_supply: collection.max_supply != null ? Number(collection.max_supply) : undefined,
+      floor_price_apt: floorPrices.length > 0 ? Math.min(...floorPrices) : undefined,
+      listed_count: data.current_nft_marketplace_listings_aggregate?.aggregate?.count || 0,
+      marketplaces,
+    };
+  } catch (error) {
+    console.error(`Error fetching collection summary for ${collectionId}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get marketplace statistics
  * @param marketplace The marketplace identifier
  */
-export async function fetchMarketplaceStats(marketplace: string): Promise<any> {
+export async function fetchMarketplaceStats(marketplace: string): Promise<MarketplaceStats> {
   console.log(`Fetching stats for marketplace: ${marketplace}`);
   
   try {
-    const response = await fetch(`${APTOS_ANALYTICS_API}/nft/marketplace/total_sales_count?marketplace=${marketplace}`);
+    const response = await fetch(`${analyticsApi()}/nft/marketplace/total_sales_count?marketplace=${encodeURIComponent(marketplace)}`);
     
     if (!response.ok) {
       console.error(`REST API request failed: ${response.status} ${response.statusText}`);
-      return { total_sales: 0 };
+      return { marketplace, total_sales: 0 };
     }
     
-    const data = await response.json();
+    const data: AnalyticsResponse<number | string> = await response.json();
     return { 
       marketplace,
-      total_sales: data.data || 0
+      total_sales: Number(data.data) || 0
     };
   } catch (error) {
     console.error(`Error fetching marketplace stats for ${marketplace}:`, error);
@@ -1103,6 +615,311 @@ export async function fetchMarketplaceStats(marketplace: string): Promise<any> {
   }
 }
 
+/**
+ * Fetch the listing summary of a marketplace
+ * Sales are summed over every raw marketplace ID, since the analytics API
+ * reports each contract version separately. Collection figures come from a
+ * sample of the listings, reported in sampled_listings.
+ * @param marketplaceIds Raw marketplace IDs, e.g. from MarketplaceConfig.rawValues
+ * @param topCollections Number of collections to return
+ */
+export async function fetchMarketplaceSummary(
+  marketplaceIds: string[],
+  topCollections: number = 10
+): Promise<MarketplaceSummary> {
+  // Listings are summarised client-side; the indexer has no group-by
+  const LISTING_SAMPLE_LIMIT = 5000;
+  const displayName = formatMarketplaceName(marketplaceIds[0] || '');
+
+  try {
+    const where = new ListingsFilterBuilder()
+      .active()
+      .where({ marketplace: { _in: marketplaceIds } })
+      .build();
+
+    const query = `
+      query MarketplaceSummary($where: current_nft_marketplace_listings_bool_exp!, $listing_limit: Int!) {
+        current_nft_marketplace_listings(where: $where, limit: $listing_limit) {
+          collection_id
+          price
+          collection_data {
+            collection_name
+          }
+        }
+        current_nft_marketplace_listings_aggregate(where: $where) {
+          aggregate {
+            count
+          }
+        }
+      }
+    `;
+
+    const [data, stats] = await Promise.all([
+      aptosClient.queryGraphQL<{
+        current_nft_marketplace_listings?: {
+          collection_id: string | null;
+          price: string | number | null;
+          collection_data: { collection_name: string | null } | null;
+        }[];
+        current_nft_marketplace_listings_aggregate?: { aggregate?: { count?: number } };
+      }>(query, { where, listing_limit: LISTING_SAMPLE_LIMIT }, aptosClient.getNftIndexerEndpoint()),
+      Promise.all(marketplaceIds.map((id) => fetchMarketplaceStats(id))),
+    ]);
+
+    // Group the sampled listings by collection
+    const collections: Record<string, MarketplaceCollectionRow> = {};
+    let skipped = 0;
+    (data?.current_nft_marketplace_listings || []).forEach((listing) => {
+      const collectionName = listing.collection_data?.collection_name;
+      if (!listing.collection_id || !collectionName || listing.price === null) {
+        skipped += 1;
+        return;
+      }
+
+      const price = formatAPTAmount(listing.price);
+      const row = collections[listing.collection_id] || {
+        collection_id: listing.collection_id,
+        collection_name: collectionName,
+        listed_count: 0,
+        floor_price_apt: price,
+      };
+      row.listed_count += 1;
+      row.floor_price_apt = Math.min(row.floor_price_apt, price);
+      collections[listing.collection_id] = row;
+    });
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} listing(s) without a collection in the ${displayName} summary`);
+    }
+
+    return {
+      marketplace: displayName,
+      marketplace_ids: marketplaceIds,
+      active_listings: data?.current_nft_marketplace_listings_aggregate?.aggregate?.count || 0,
+      total_sales: stats.reduce((sum, stat) => sum + stat.total_sales, 0),
+      listed_collections: Object.keys(collections).length,
+      top_collections: Object.values(collections)
+        .sort((a, b) => b.listed_count - a.listed_count)
+        .slice(0, topCollections),
+      sampled_listings: data?.current_nft_marketplace_listings?.length || 0,
+    };
+  } catch (error) {
+    console.error(`Error fetching marketplace summary for ${marketplaceIds.join(',')}:`, error);
+    return {
+      marketplace: displayName,
+      marketplace_ids: marketplaceIds,
+      active_listings: 0,
+      total_sales: 0,
+      listed_collections: 0,
+      top_collections: [],
+      sampled_listings: 0,
+    };
+  }
+}
+
+/**
+ * Get the floor price of several collections in one query
+ * @param collectionIds Collection IDs
+ * @returns Lowest active listing price in APT per collection; collections with no listings are left out
+ */
+export async function fetchCollectionFloors(collectionIds: string[]): Promise<Record<string, number>> {
+  return nftService.fetchCollectionFloors(collectionIds);
+}
+
+/**
+ * Get every NFT an account holds, grouped by collection and valued at the floor
+ * @param owner Account address
+ * @returns The account's portfolio, including tokens escrowed in its listings
+ */
+export async function fetchPortfolio(owner: string): Promise<Portfolio> {
+  // The account's own listings; large enough for any realistic seller
+  const OWN_LISTINGS_LIMIT = 500;
+
+  const [owned, ownListings] = await Promise.all([
+    listingService.fetchOwnedNFTs(owner),
+    fetchActiveListings({ seller: owner, pageSize: OWN_LISTINGS_LIMIT, skipCache: true }),
+  ]);
+
+  const collectionIds = [...owned, ...ownListings.nfts]
+    .map((nft) => nft.collection_id)
+    .filter((id): id is string => !!id);
+  const floors = await fetchCollectionFloors(collectionIds);
+
+  return buildPortfolio(owner, owned, ownListings.nfts, floors);
+}
+
+/**
+ * Get the value of a portfolio's current holdings over a time period
+ * Only the most valuable collections load their price history; the others
+ * are counted at today's floor throughout.
+ * @param portfolio Portfolio from fetchPortfolio
+ * @param timePeriod Period to chart
+ * @returns Portfolio value points, oldest first
+ */
+export async function fetchPortfolioHistory(portfolio: Portfolio, timePeriod: TimePeriod = '7d'): Promise<PortfolioValuePoint[]> {
+  const HISTORY_COLLECTIONS_LIMIT = 10;
+
+  try {
+    const valued = portfolio.collections.filter((collection) => collection.floor_price_apt !== undefined);
+    const histories = await Promise.all(valued.map((collection, index) =>
+      index < HISTORY_COLLECTIONS_LIMIT && collection.collection_id
+        ? nftService.fetchPriceHistory({ collectionId: collection.collection_id }, timePeriod)
+        : Promise.resolve(null)
+    ));
+
+    return buildPortfolioHistory(valued.map((collection, index) => ({ collection, history: histories[index] })));
+  } catch (error) {
+    console.error('Error fetching portfolio history:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a wallet's marketplace trades with what is needed to compute its profit and loss
+ * @param owner Account address
+ * @returns Trades oldest first, creator royalties of sold tokens and APT/USD rates over the trades
+ */
+export async function fetchWalletTradeHistory(owner: string): Promise<WalletTradeHistory> {
+  const { trades, truncated } = await nftService.fetchWalletTrades(owner);
+  if (trades.length === 0) {
+    return { trades, royalties: {}, usd_rates: [], truncated };
+  }
+
+  const soldTokens = new Map<string, { id: string; collection_id?: string }>();
+  trades
+    .filter((trade) => trade.side === 'sell')
+    .forEach((trade) => soldTokens.set(trade.token_data_id, { id: trade.token_data_id, collection_id: trade.collection_id }));
+
+  const [royalties, usdRates] = await Promise.all([
+    nftService.fetchRoyalties([...soldTokens.values()]),
+    fetchAptUsdHistory(trades[0].timestamp, Date.now()),
+  ]);
+
+  return { trades, royalties, usd_rates: usdRates, truncated };
+}
+
+/**
+ * Get the market data needed to evaluate alert rules
+ * Only what the enabled rules refer to is loaded: listed floors, each watched
+ * collection's newest listings, watched tokens' listings and 24h volume rankings.
+ * @param rules Alert rules
+ * @returns Inputs for evaluateAlertRules
+ */
+export async function fetchAlertInputs(rules: AlertRule[]): Promise<AlertInputs> {
+  // Newest listings checked per collection at each poll
+  const NEW_LISTINGS_WINDOW = 20;
+  // Collections in the volume ranking checked for spikes
+  const VOLUME_RANKING_LIMIT = 100;
+
+  const enabled = rules.filter((rule) => rule.enabled);
+  const idsOf = (kinds: AlertRule['kind'][], field: 'collection_id' | 'token_data_id') => [
+    ...new Set(enabled.filter((rule) => kinds.includes(rule.kind)).map((rule) => rule[field]).filter((id): id is string => !!id)),
+  ];
+  const floorCollections = idsOf(['floor_below', 'listing_below_floor'], 'collection_id');
+  const listingCollections = idsOf(['listing_below_floor'], 'collection_id');
+  const tokens = idsOf(['token_listed'], 'token_data_id');
+
+  const [floors, newListings, tokenListings, volume] = await Promise.all([
+    nftService.fetchCollectionFloors(floorCollections),
+    Promise.all(listingCollections.map(async (collectionId) => {
+      const page = await fetchActiveListings({
+        collectionId,
+        sortOrder: 'timestamp_desc',
+        pageSize: NEW_LISTINGS_WINDOW,
+        skipCache: true,
+      });
+      return [collectionId, page.nfts] as const;
+    })),
+    Promise.all(tokens.map(async (tokenDataId) => {
+      const page = await fetchActiveListings({ tokenDataId, sortOrder: 'price_asc', skipCache: true });
+      return [tokenDataId, page.nfts] as const;
+    })),
+    enabled.some((rule) => rule.kind === 'volume_spike')
+      ? fetchCollectionsByVolume({ timePeriod: '24h', limit: VOLUME_RANKING_LIMIT })
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    floors,
+    new_listings: Object.fromEntries(newListings),
+    token_listings: Object.fromEntries(tokenListings),
+    volume,
+  };
+}
+
+/**
+ * Load what the deal finder needs to know about a collection
+ * Only the cheapest listings are loaded, since deals are found among them and
+ * the collection floor they are compared with is set by them too. Trait floors
+ * are not, so the cheapest listings of each rare trait value the loaded
+ * listings hold are queried separately, over the whole collection.
+ * @param collectionId - Collection ID
+ * @param rareTraitMaxPct - Trait values held by at most this share of the collection get a floor
+ * @returns Cheapest listings, token traits, rare trait floors and the last 7 days of sales
+ */
+export async function fetchCollectionDealInputs(
+  collectionId: string,
+  rareTraitMaxPct: number = DEFAULT_DEAL_THRESHOLDS.rare_trait_max_pct
+): Promise<CollectionDealInputs> {
+  // Cheapest listings compared with each other
+  const DEAL_LISTINGS_LIMIT = 100;
+  // Tokens sampled to find the collection's rare traits
+  const DEAL_TRAIT_SAMPLE = 5000;
+  // Rare trait values whose floor is queried, rarest first
+  const DEAL_TRAIT_FLOOR_LIMIT = 30;
+
+  const [page, tokens, history] = await Promise.all([
+    fetchActiveListings({ collectionId, sortOrder: 'price_asc', pageSize: DEAL_LISTINGS_LIMIT }),
+    nftService.fetchCollectionTokenProperties(collectionId, DEAL_TRAIT_SAMPLE).catch((error) => {
+      console.error(`Error loading token properties for collection ${collectionId}:`, error);
+      return [];
+    }),
+    nftService.fetchPriceHistory({ collectionId }, '7d'),
+  ]);
+
+  const tokenProperties = Object.fromEntries(tokens.map((token) => [token.token_data_id, token.properties]));
+  const traits = summarizeTraits(tokens.map((token) => token.properties));
+
+  // Rare trait values held by at least one of the listings, with their share of the collection
+  const counts = new Map<string, number>(traits.flatMap((trait) =>
+    trait.values.map(({ value, count }) => [`${trait.trait_type}\u0000${value}`, count] as const)
+  ));
+  const rareTraits = new Map<string, { trait_type: string; value: string; share: number }>();
+  page.nfts.forEach((nft) => {
+    Object.entries(nft.token_properties || tokenProperties[nft.id] || {}).forEach(([traitType, value]) => {
+      const key = `${traitType}\u0000${value}`;
+      const share = tokens.length > 0 ? ((counts.get(key) ?? 0) / tokens.length) * 100 : 100;
+      if (share > 0 && share <= rareTraitMaxPct) {
+        rareTraits.set(key, { trait_type: traitType, value, share });
+      }
+    });
+  });
+
+  const traitFloors = await Promise.all(
+    Array.from(rareTraits.values())
+      .sort((a, b) => a.share - b.share)
+      .slice(0, DEAL_TRAIT_FLOOR_LIMIT)
+      .map(async ({ trait_type, value }) => {
+        const floorPage = await fetchActiveListings({
+          collectionId,
+          traits: { [trait_type]: [value] },
+          sortOrder: 'price_asc',
+          pageSize: 2,
+        });
+        return { trait_type, value, listings: floorPage.nfts };
+      })
+  );
+
+  return {
+    listings: page.nfts,
+    token_properties: tokenProperties,
+    token_count: tokens.length,
+    traits,
+    trait_floors: traitFloors,
+    recent_sales_apt: history.sales.map((sale) => sale.price_apt),
+  };
+}
+
 /**
  * Formats APT amount from octas to APT with proper formatting
  * @param octas Amount in octas (the smallest unit of APT)
@@ -0,0 +1,383 @@
+import {
+  IndexerCollectionRow,
+  IndexerListingRow,
+  IndexerMarketplaceActivityRow,
+  IndexerTokenActivityRow,
+  IndexerTokenOfferRow,
+  IndexerCollectionOfferRow,
+  IndexerTokenOwnershipRow,
+  IndexerTokenData,
+  MalformedRow,
+  RawCollectionRankingRow,
+  RawCollectionBuyerRow,
+  RawCollectionSellerRow,
+} from '../types';
+
+/**
+ * Runtime validation for indexer and analytics responses
+ * The APIs are not under our control, so rows are checked before they are
+ * mapped into app models. Rows that fail are reported, not patched with
+ * placeholder values.
+ */
+
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+export type RowValidator<T> = (row: unknown) => ValidationResult<T>;
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Amounts come back as numbers or numeric strings depending on the column type
+function isNumeric(value: unknown): value is string | number {
+  if (typeof value === 'number') return Number.isFinite(value);
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+function isNullish(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function requireString(row: UnknownRecord, field: string, errors: string[], path = field): void {
+  if (!isNonEmptyString(row[field])) {
+    errors.push(`${path} is missing or empty`);
+  }
+}
+
+function requireNumeric(row: UnknownRecord, field: string, errors: string[], path = field): void {
+  if (!isNumeric(row[field])) {
+    errors.push(`${path} is not a number`);
+  }
+}
+
+function optionalNumeric(row: UnknownRecord, field: string, errors: string[], path = field): void {
+  if (!isNullish(row[field]) && !isNumeric(row[field])) {
+    errors.push(`${path} is not a number`);
+  }
+}
+
+function optionalString(row: UnknownRecord, field: string, errors: string[], path = field): void {
+  if (!isNullish(row[field]) && typeof row[field] !== 'string') {
+    errors.push(`${path} is not a string`);
+  }
+}
+
+function checkTokenDataFields(row: UnknownRecord, errors: string[], prefix = ''): void {
+  optionalString(row, 'token_name', errors, `${prefix}token_name`);
+  optionalString(row, 'token_uri', errors, `${prefix}token_uri`);
+  optionalString(row, 'description', errors, `${prefix}description`);
+
+  const properties = row.token_properties;
+  if (!isNullish(properties) && typeof properties !== 'string' && !isRecord(properties)) {
+    errors.push(`${prefix}token_properties is not an object`);
+  }
+
+  if (!isNullish(row.cdn_asset_uris) && !isRecord(row.cdn_asset_uris)) {
+    errors.push(`${prefix}cdn_asset_uris is not an object`);
+  }
+}
+
+/**
+ * Validate a current_nft_marketplace_listings row
+ * @param row - Raw row from the indexer
+ */
+export function validateListingRow(row: unknown): ValidationResult<IndexerListingRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'listing_id', errors);
+  requireString(row, 'token_data_id', errors);
+  requireString(row, 'marketplace', errors);
+  requireString(row, 'seller', errors);
+  requireNumeric(row, 'price', errors);
+  optionalString(row, 'token_name', errors);
+
+  if (!isRecord(row.collection_data)) {
+    errors.push('collection_data is missing');
+  } else {
+    requireString(row.collection_data, 'collection_name', errors, 'collection_data.collection_name');
+  }
+
+  if (!isNullish(row.current_token_data)) {
+    if (isRecord(row.current_token_data)) {
+      checkTokenDataFields(row.current_token_data, errors, 'current_token_data.');
+    } else {
+      errors.push('current_token_data is not an object');
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerListingRow, errors };
+}
+
+/**
+ * Validate a current_token_datas_v2 row
+ * @param row - Raw row from the indexer
+ */
+export function validateTokenData(row: unknown): ValidationResult<IndexerTokenData> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'token_data_id', errors);
+  checkTokenDataFields(row, errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerTokenData, errors };
+}
+
+/**
+ * Validate a current_collections_v2 row
+ * @param row - Raw row from the indexer
+ */
+export function validateCollectionRow(row: unknown): ValidationResult<IndexerCollectionRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'collection_id', errors);
+  requireString(row, 'collection_name', errors);
+  optionalString(row, 'description', errors);
+  optionalString(row, 'uri', errors);
+  optionalString(row, 'creator_address', errors);
+  optionalNumeric(row, 'current_supply', errors);
+  optionalNumeric(row, 'max_supply', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerCollectionRow, errors };
+}
+
+/**
+ * Validate a collection ranking row from the analytics API
+ * @param row - Raw row from list_by_volume, list_by_sales or list_by_floor_price
+ */
+export function validateRankingRow(row: unknown): ValidationResult<RawCollectionRankingRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'collection_id', errors);
+  requireString(row, 'collection_name', errors);
+  optionalNumeric(row, 'total_volume_apt', errors);
+  optionalNumeric(row, 'total_sales', errors);
+  optionalNumeric(row, 'floor_price_apt', errors);
+  optionalNumeric(row, 'volume_change_percentage', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as RawCollectionRankingRow, errors };
+}
+
+/**
+ * Validate a nft_marketplace_activities row
+ * @param row - Raw row from the indexer
+ */
+export function validateActivityRow(row: unknown): ValidationResult<IndexerMarketplaceActivityRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireNumeric(row, 'transaction_version', errors);
+  requireString(row, 'event_type', errors);
+  requireString(row, 'marketplace', errors);
+  requireString(row, 'transaction_timestamp', errors);
+  optionalString(row, 'token_data_id', errors);
+  optionalString(row, 'collection_id', errors);
+  optionalString(row, 'collection_name', errors);
+  optionalString(row, 'token_name', errors);
+  optionalString(row, 'seller', errors);
+  optionalString(row, 'buyer', errors);
+  optionalNumeric(row, 'price', errors);
+  optionalNumeric(row, 'token_amount', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerMarketplaceActivityRow, errors };
+}
+
+/**
+ * Validate a token_activities_v2 row
+ * @param row - Raw row from the indexer
+ */
+export function validateTokenActivityRow(row: unknown): ValidationResult<IndexerTokenActivityRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireNumeric(row, 'transaction_version', errors);
+  requireString(row, 'type', errors);
+  requireString(row, 'token_data_id', errors);
+  requireString(row, 'transaction_timestamp', errors);
+  optionalNumeric(row, 'event_index', errors);
+  optionalString(row, 'from_address', errors);
+  optionalString(row, 'to_address', errors);
+  optionalString(row, 'event_account_address', errors);
+  optionalNumeric(row, 'token_amount', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerTokenActivityRow, errors };
+}
+
+/**
+ * Validate a current_nft_marketplace_token_offers row
+ * @param row - Raw row from the indexer
+ */
+export function validateTokenOfferRow(row: unknown): ValidationResult<IndexerTokenOfferRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'offer_id', errors);
+  requireString(row, 'token_data_id', errors);
+  requireString(row, 'marketplace', errors);
+  requireString(row, 'buyer', errors);
+  requireNumeric(row, 'price', errors);
+  optionalString(row, 'collection_id', errors);
+  optionalString(row, 'contract_address', errors);
+  optionalString(row, 'token_name', errors);
+  optionalNumeric(row, 'token_amount', errors);
+  optionalNumeric(row, 'expiration_time', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerTokenOfferRow, errors };
+}
+
+/**
+ * Validate a current_nft_marketplace_collection_offers row
+ * @param row - Raw row from the indexer
+ */
+export function validateCollectionOfferRow(row: unknown): ValidationResult<IndexerCollectionOfferRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'collection_offer_id', errors);
+  requireString(row, 'collection_id', errors);
+  requireString(row, 'marketplace', errors);
+  requireString(row, 'buyer', errors);
+  requireNumeric(row, 'item_price', errors);
+  optionalString(row, 'contract_address', errors);
+  optionalNumeric(row, 'remaining_token_amount', errors);
+  optionalNumeric(row, 'expiration_time', errors);
+
+  if (!isNullish(row.collection_data) && !isRecord(row.collection_data)) {
+    errors.push('collection_data is not an object');
+  }
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerCollectionOfferRow, errors };
+}
+
+/**
+ * Validate a current_token_ownerships_v2 row
+ * @param row - Raw row from the indexer
+ */
+export function validateTokenOwnershipRow(row: unknown): ValidationResult<IndexerTokenOwnershipRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'token_data_id', errors);
+  requireString(row, 'owner_address', errors);
+  requireNumeric(row, 'amount', errors);
+  optionalString(row, 'token_standard', errors);
+  optionalNumeric(row, 'property_version_v1', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as IndexerTokenOwnershipRow, errors };
+}
+
+/**
+ * Validate a top buyer row from the analytics API
+ * @param row - Raw row from the top_buyer endpoint
+ */
+export function validateBuyerRow(row: unknown): ValidationResult<RawCollectionBuyerRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'buyer', errors);
+  requireNumeric(row, 'total_spent', errors);
+  optionalNumeric(row, 'total_purchases', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as RawCollectionBuyerRow, errors };
+}
+
+/**
+ * Validate a top seller row from the analytics API
+ * @param row - Raw row from the top_seller endpoint
+ */
+export function validateSellerRow(row: unknown): ValidationResult<RawCollectionSellerRow> {
+  if (!isRecord(row)) {
+    return { errors: ['row is not an object'] };
+  }
+
+  const errors: string[] = [];
+  requireString(row, 'seller', errors);
+  requireNumeric(row, 'total_volume', errors);
+  optionalNumeric(row, 'total_sales', errors);
+
+  return errors.length > 0 ? { errors } : { value: row as unknown as RawCollectionSellerRow, errors };
+}
+
+/**
+ * Best-effort identifier for a row, used when reporting it
+ */
+function rowIdentifier(row: unknown): string | undefined {
+  if (!isRecord(row)) return undefined;
+  const id = row.listing_id ?? row.offer_id ?? row.collection_offer_id ?? row.token_data_id ?? row.collection_id
+    ?? row.buyer ?? row.seller ?? row.transaction_version;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+}
+
+/**
+ * Validate a list of rows, splitting them into valid rows and malformed reports
+ * Malformed rows are logged once per call.
+ * @param rows - Raw rows, anything other than an array is reported as malformed
+ * @param validator - Validator for a single row
+ * @param source - Query or endpoint name used in reports
+ */
+export function validateRows<T>(
+  rows: unknown,
+  validator: RowValidator<T>,
+  source: string
+): { valid: T[]; malformed: MalformedRow[] } {
+  if (!Array.isArray(rows)) {
+    const malformed = [{ source, errors: ['response is not a list'] }];
+    reportMalformedRows(malformed);
+    return { valid: [], malformed };
+  }
+
+  const valid: T[] = [];
+  const malformed: MalformedRow[] = [];
+
+  rows.forEach((row) => {
+    const result = validator(row);
+    if (result.value) {
+      valid.push(result.value);
+    } else {
+      malformed.push({ source, id: rowIdentifier(row), errors: result.errors });
+    }
+  });
+
+  reportMalformedRows(malformed);
+  return { valid, malformed };
+}
+
+/**
+ * Log malformed rows so data problems are visible instead of hidden behind defaults
+ * @param malformed - Rows that failed validation
+ */
+export function reportMalformedRows(malformed: MalformedRow[]): void {
+  if (malformed.length === 0) return;
+  console.warn(`Skipped ${malformed.length} malformed row(s) from ${malformed[0].source}:`, malformed);
+}
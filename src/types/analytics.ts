@@ -0,0 +1,96 @@
+/**
+ * Response models for the Aptos analytics REST API.
+ * Amounts are converted from octas to APT before they reach the UI.
+ */
+
+/**
+ * Envelope used by every analytics endpoint
+ */
+export interface AnalyticsResponse<T> {
+  data?: T;
+}
+
+/**
+ * Amount as returned by the analytics API, in octas
+ */
+export type OctasAmount = string | number;
+
+/**
+ * Ranking row as returned by the API, before octas are converted to APT
+ */
+export interface RawCollectionRankingRow {
+  collection_id: string;
+  collection_name: string;
+  total_volume_apt?: OctasAmount | null;
+  total_sales?: number | null;
+  floor_price_apt?: OctasAmount | null;
+  volume_change_percentage?: number | null;
+}
+
+/**
+ * Buyer row as returned by the API, before octas are converted to APT
+ */
+export interface RawCollectionBuyerRow {
+  buyer: string;
+  total_spent: OctasAmount;
+  total_purchases?: number | null;
+}
+
+/**
+ * Seller row as returned by the API, before octas are converted to APT
+ */
+export interface RawCollectionSellerRow {
+  seller: string;
+  total_volume: OctasAmount;
+  total_sales?: number | null;
+}
+
+/**
+ * Row returned by the collection ranking endpoints
+ * (list_by_volume, list_by_sales, list_by_floor_price)
+ */
+export interface CollectionRankingRow {
+  collection_id: string;
+  collection_name: string;
+  total_volume_apt: number;  // 0 when the endpoint does not report volume
+  total_sales?: number;
+  floor_price_apt?: number;
+  volume_change_percentage: number;
+}
+
+/**
+ * Row returned by the collection top_buyer endpoint
+ */
+export interface CollectionBuyerRow {
+  buyer: string;
+  total_spent: number;  // In APT
+  total_purchases?: number;
+}
+
+/**
+ * Row returned by the collection top_seller endpoint
+ */
+export interface CollectionSellerRow {
+  seller: string;
+  total_volume: number;  // In APT
+  total_sales?: number;
+}
+
+/**
+ * Aggregated analytics for one collection
+ */
+export interface CollectionDetails {
+  collection_id: string;
+  total_sales: number;
+  total_volume_apt: number;
+  top_buyers: CollectionBuyerRow[];
+  top_sellers: CollectionSellerRow[];
+}
+
+/**
+ * Aggregated analytics for one marketplace
+ */
+export interface MarketplaceStats {
+  marketplace: string;
+  total_sales: number;
+}
@@ -1,9 +1,16 @@
+export * from './indexer';
+export * from './analytics';
+
+import { MalformedRow } from './indexer';
+import { CollectionRankingRow } from './analytics';
+
 export interface NFT {
   id: string;
   name: string;
   description?: string;
   image_url: string;
   marketplace: string;
+  marketplace_id?: string;  // Raw marketplace ID from the indexer, e.g. "tradeport_v2"
   collection_name: string;
   creator_address: string;
   owner_address: string;
@@ -34,6 +41,35 @@ export interface NFT {
   
   // Flag for whether the NFT has complete metadata
   hasCompleteMetadata?: boolean;
+
+  // Rarity within the collection (rank 1 is the rarest)
+  rarity_rank?: number;
+  rarity_score?: number;  // Trait-normalised score
+  rarity_statistical_rank?: number;
+  rarity_total?: number;  // Number of ranked tokens in the collection
+
+  // Every active listing of the token, cheapest all-in first (set on details)
+  listings?: TokenListing[];
+  // Active listings of the token when duplicates are collapsed into one card
+  listing_count?: number;
+  // Creator royalty in basis points, taken from the seller's proceeds
+  royalty_bps?: number;
+  // Set on listings flagged by the deal finder
+  deal?: ListingDeal;
+}
+
+/**
+ * One active listing of a token
+ */
+export interface TokenListing {
+  listing_id: string;
+  marketplace: string;  // Display name
+  marketplace_id: string;  // Raw marketplace ID
+  seller: string;
+  price_apt: number;  // Listing price
+  buyer_cost_apt: number;  // Listing price plus the buyer's fees
+  seller_net_apt: number;  // Listing price minus the seller's fees and creator royalty
+  listed_at?: string;
 }
 
 export interface MarketplaceConfig {
@@ -48,6 +84,142 @@ export interface MarketplaceConfig {
   rawValues?: string;  // Comma-separated list of actual marketplace IDs
 }
 
+/**
+ * Filters, sorting and paging of an active listings query
+ */
+export interface ActiveListingsParams {
+  page?: number;
+  pageSize?: number;
+  collection?: string;  // Collection name search
+  collectionId?: string;  // Exact collection, e.g. on the collection page
+  marketplace?: string;
+  seller?: string;  // Only listings created by this account
+  tokenDataId?: string;  // Only listings of this token
+  traits?: TraitSelection;
+  minPrice?: number;  // In APT
+  maxPrice?: number;  // In APT
+  sortOrder?: string;
+  hideIncompleteMetadata?: boolean;
+  withRarity?: boolean;  // Add rarity rank and score to each NFT
+  collapseDuplicates?: boolean;  // One card per token, showing its cheapest listing
+  cursor?: string;  // next_cursor of the previous page; takes the place of page
+  skipCache?: boolean;
+  onRefresh?: (page: ListingsPage) => void;  // Called when a stale cached page has been revalidated
+}
+
+/**
+ * A page of listings mapped to NFTs
+ */
+export interface ListingsPage {
+  nfts: NFT[];
+  total: number;
+  // Pass back as the cursor to load the listings after this page; absent on the last page
+  next_cursor?: string;
+  // Rows skipped because the indexer returned incomplete data
+  malformed?: MalformedRow[];
+  // Sorted or collapsed client-side over only the first window_size matching listings
+  truncated?: boolean;
+  window_size?: number;
+}
+
+/**
+ * A filled listing or offer on any marketplace
+ */
+export interface MarketplaceSale {
+  transaction_version: string;
+  event_index?: string;
+  token_data_id: string;
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  marketplace: string;  // Display name
+  marketplace_id: string;  // Raw marketplace ID
+  price_apt: number;
+  buyer?: string;
+  seller?: string;
+  timestamp: number;  // Milliseconds since epoch
+}
+
+/**
+ * Filters and cursor of a sales feed page
+ */
+export interface RecentSalesParams {
+  marketplace?: string;  // Marketplace selection, as in the listings filters
+  collection?: string;  // Collection name search
+  minPrice?: number;  // APT
+  maxPrice?: number;  // APT
+  cursor?: string;  // next_cursor of the previous page; omit for the newest sales
+  pageSize?: number;
+}
+
+/**
+ * One page of the sales feed, newest first
+ */
+export interface SalesPage {
+  sales: MarketplaceSale[];
+  next_cursor?: string;  // Pass back to load the next, older page; absent on the last page
+  // Rows skipped because the indexer returned incomplete data
+  malformed?: MalformedRow[];
+}
+
+/**
+ * Listing changes since the last poll of a listings view
+ */
+export interface ListingsDelta {
+  added: NFT[];  // Listings created or changed since the last poll, newest first
+  removed_listing_ids: string[];  // Displayed listings that were sold or cancelled
+  latest_version?: string;  // Transaction version to poll from next time
+}
+
+/**
+ * Active listings of one marketplace (all versions of its contract)
+ */
+export interface MarketplaceListingBreakdown {
+  marketplace: string;  // Display name
+  marketplace_ids: string[];  // Raw marketplace IDs, e.g. ["tradeport_v1", "tradeport_v2"]
+  listed_count: number;
+  floor_price_apt: number;
+}
+
+/**
+ * Collection metadata with its current listing summary
+ */
+export interface CollectionSummary {
+  collection_id: string;
+  collection_name: string;
+  description?: string;
+  uri?: string;
+  creator_address?: string;
+  current_supply?: number;
+  max_supply?: number;
+  floor_price_apt?: number;  // Undefined when nothing is listed
+  listed_count: number;
+  marketplaces: MarketplaceListingBreakdown[];  // Sorted by listed count
+}
+
+/**
+ * Active listings of one collection on a marketplace
+ */
+export interface MarketplaceCollectionRow {
+  collection_id: string;
+  collection_name: string;
+  listed_count: number;
+  floor_price_apt: number;
+}
+
+/**
+ * Listing summary of a marketplace across all versions of its contract
+ */
+export interface MarketplaceSummary {
+  marketplace: string;  // Display name
+  marketplace_ids: string[];
+  active_listings: number;
+  total_sales: number;
+  listed_collections: number;  // Distinct collections among sampled listings
+  top_collections: MarketplaceCollectionRow[];  // Sorted by listed count
+  sampled_listings: number;  // Listings the collection figures come from; fewer than active_listings when sampled
+}
+
 export interface AggregatorStats {
   total_nfts?: number;
   total_collections?: number;
@@ -56,11 +228,524 @@ export interface AggregatorStats {
   total_active_listings?: number;
 }
 
+/**
+ * Time windows supported by the analytics API
+ */
+export type TimePeriod = '1h' | '6h' | '24h' | '7d' | '30d';
+
 /**
  * Options for collection ranking queries
  */
 export interface CollectionRankingOptions {
-  timePeriod?: '1h' | '6h' | '24h' | '7d' | '30d';
+  timePeriod?: TimePeriod;
   limit?: number;
   offset?: number;
-} 
\ No newline at end of file
+} 
+
+/**
+ * A single sale in a price history
+ */
+export interface PriceHistorySale {
+  timestamp: number;  // Milliseconds since epoch
+  price_apt: number;
+  token_data_id: string;
+  token_name?: string;
+  marketplace: string;
+  transaction_version: string;
+}
+
+/**
+ * Sales aggregated over one bucket of a price history
+ */
+export interface PriceHistoryBucket {
+  timestamp: number;  // Start of the bucket
+  volume_apt: number;
+  sales: number;
+  floor_price_apt: number | null;  // Lowest sale over the rolling window, null without sales
+}
+
+/**
+ * Chart series for a token or collection over a time period
+ */
+export interface PriceHistory {
+  time_period: TimePeriod;
+  start: number;
+  end: number;
+  sales: PriceHistorySale[];  // Oldest first
+  buckets: PriceHistoryBucket[];
+  truncated: boolean;  // More sales happened in the period than were loaded
+}
+
+/**
+ * Kind of a token activity, normalised across marketplaces and token standards
+ */
+export type TokenActivityKind = 'mint' | 'transfer' | 'list' | 'delist' | 'sale' | 'burn';
+
+/**
+ * One entry of a token's provenance timeline
+ */
+export interface TokenActivity {
+  kind: TokenActivityKind;
+  timestamp: number;  // Milliseconds since epoch
+  transaction_version: string;
+  event_index: number;
+  event_type: string;  // Raw event type from the indexer
+  price_apt?: number;
+  from_address?: string;
+  to_address?: string;
+  marketplace?: string;  // Display name, only for marketplace events
+}
+
+/**
+ * Selected trait values keyed by trait type, e.g. { Background: ['Blue', 'Red'] }
+ * Values of one trait type are OR'ed, trait types are AND'ed.
+ */
+export type TraitSelection = Record<string, string[]>;
+
+/**
+ * How many tokens in a collection carry a trait value
+ */
+export interface TraitValueCount {
+  value: string;  // Display label; values that are not strings are shown as JSON
+  raw: unknown;  // Value as stored in token_properties, e.g. the number 5 for the label "5"
+  count: number;
+}
+
+/**
+ * Values and counts of one trait type within a collection
+ */
+export interface TraitSummary {
+  trait_type: string;
+  total: number;  // Tokens that have this trait type at all
+  values: TraitValueCount[];
+}
+
+/**
+ * Rarity of a single token within its collection
+ */
+export interface TokenRarity {
+  // Trait-normalised score: sum of inverse trait frequencies, each divided by
+  // the number of values of that trait type (higher is rarer)
+  score: number;
+  rank: number;
+  // Statistical rarity: probability of the token's trait combination (lower is rarer)
+  statistical_probability: number;
+  statistical_rank: number;
+}
+
+/**
+ * Rarity of every token in a collection
+ */
+export interface CollectionRarity {
+  collection_id: string;
+  token_count: number;
+  tokens: Record<string, TokenRarity>;  // Keyed by token data ID
+  computed_at: string;
+}
+
+/**
+ * Active listing row with everything needed to build a purchase transaction
+ */
+export interface PurchasableListing {
+  listing_id: string;
+  marketplace: string;  // Raw marketplace ID, e.g. "tradeport_v2"
+  contract_address?: string;
+  price: string;  // Price in octas
+  seller: string;
+  token_data_id: string;
+  token_name?: string;
+  token_standard?: string;
+  token_amount?: number;
+  property_version?: number;
+  collection_name?: string;
+  creator_address?: string;
+}
+
+/**
+ * Outcome of simulating a purchase transaction before submission
+ */
+export interface PurchaseSimulation {
+  success: boolean;
+  vm_status: string;
+  gas_used: number;
+  gas_unit_price: number;
+  estimated_fee_apt: number;
+}
+
+/**
+ * Stages of the buy flow, reported back to the UI as they happen
+ */
+export type PurchaseStage = 'loading' | 'simulating' | 'signing' | 'confirming' | 'confirmed' | 'failed';
+
+/**
+ * Final result of a purchase attempt
+ */
+export interface PurchaseResult {
+  success: boolean;
+  transaction_hash?: string;
+  vm_status?: string;
+  error?: string;
+}
+
+/**
+ * Offer on a single token, or a bid on any token of a collection
+ */
+export type OfferKind = 'token' | 'collection';
+
+/**
+ * Active offer from the NFT indexer
+ */
+export interface MarketplaceOffer {
+  offer_id: string;
+  kind: OfferKind;
+  marketplace: string;  // Display name
+  marketplace_id: string;  // Raw marketplace ID
+  contract_address?: string;
+  buyer: string;
+  price_apt: number;  // Per token for collection offers
+  token_amount: number;  // Tokens still wanted; 1 for token offers
+  token_data_id?: string;  // Token offers only
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  expires_at?: number;  // Milliseconds since epoch
+}
+
+/**
+ * New offer to sign and submit
+ */
+export interface OfferRequest {
+  kind: OfferKind;
+  marketplace: string;  // Raw marketplace ID
+  token_data_id?: string;  // Required for token offers
+  collection_id?: string;  // Required for collection offers
+  price_apt: number;  // Per token
+  token_amount?: number;  // Collection offers only, defaults to 1
+  expires_at: number;  // Milliseconds since epoch
+}
+
+/**
+ * NFT held by the connected account
+ */
+export interface OwnedNFT extends NFT {
+  token_standard: 'v1' | 'v2';
+  property_version: number;  // Token v1 only, 0 for v2
+  amount: number;  // Units held; 1 for non-fungible tokens
+}
+
+/**
+ * New fixed-price listing to sign and submit
+ */
+export interface ListingRequest {
+  marketplace: string;  // Raw marketplace ID
+  token: Pick<OwnedNFT, 'id' | 'name' | 'collection_name' | 'creator_address' | 'token_standard' | 'property_version'>;
+  price_apt: number;
+}
+
+/**
+ * Token in a portfolio, held in the wallet or escrowed in one of the owner's listings
+ */
+export interface PortfolioHolding extends NFT {
+  amount: number;
+  owner_listings: TokenListing[];  // The owner's active listings of this token
+  value_apt?: number;  // Collection floor times amount, undefined without a floor
+}
+
+/**
+ * Holdings of one collection, valued at its floor
+ */
+export interface PortfolioCollection {
+  collection_id: string;
+  collection_name: string;
+  holdings: PortfolioHolding[];
+  token_count: number;
+  floor_price_apt?: number;  // Lowest active listing, undefined when nothing is listed
+  value_apt: number;
+}
+
+/**
+ * Everything an account holds, grouped by collection
+ */
+export interface Portfolio {
+  owner: string;
+  collections: PortfolioCollection[];  // Most valuable first
+  total_value_apt: number;
+  token_count: number;
+  listed_count: number;
+  unvalued_count: number;  // Tokens in collections without a floor
+}
+
+/**
+ * Portfolio value at one point in time
+ */
+export interface PortfolioValuePoint {
+  timestamp: number;
+  value_apt: number;
+}
+
+/**
+ * How sales are matched to purchases
+ * FIFO pools tokens by collection and sells the earliest bought first;
+ * specific-ID matches each sale to the purchase of the same token.
+ */
+export type CostBasisMethod = 'fifo' | 'specific_id';
+
+/**
+ * A marketplace purchase or sale made by a wallet
+ */
+export interface WalletTrade {
+  side: 'buy' | 'sell';
+  token_data_id: string;
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  marketplace: string;  // Display name
+  marketplace_id: string;  // Raw marketplace ID
+  price_apt: number;  // Sale price before fees
+  timestamp: number;  // Milliseconds since epoch
+  transaction_version: string;
+}
+
+/**
+ * A sale matched to the purchase it disposed of
+ */
+export interface RealizedLot {
+  token_data_id: string;  // Token sold
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  acquired_token_data_id?: string;  // Token whose purchase was used; differs from the sold one under FIFO
+  acquired_at?: number;  // Undefined when no purchase was found
+  sold_at: number;
+  cost_apt: number;  // Purchase price plus buyer fees, 0 without a purchase
+  proceeds_apt: number;  // Sale price minus seller fees and royalty
+  gain_apt: number;
+  cost_usd?: number;  // At the APT/USD rate on the purchase date
+  proceeds_usd?: number;  // At the APT/USD rate on the sale date
+  gain_usd?: number;
+  basis_missing: boolean;  // Token was minted or received rather than bought
+  marketplace: string;
+  transaction_version: string;
+}
+
+/**
+ * A purchase that has not been sold, valued at the collection floor
+ */
+export interface OpenLot {
+  token_data_id: string;
+  token_name?: string;
+  collection_id?: string;
+  collection_name?: string;
+  acquired_at: number;
+  cost_apt: number;
+  cost_usd?: number;
+  value_apt?: number;  // Undefined when the collection has no floor
+  value_usd?: number;  // At the current APT/USD rate
+  gain_apt?: number;
+  gain_usd?: number;
+}
+
+/**
+ * Realized and unrealized profit and loss of a wallet
+ */
+export interface ProfitAndLoss {
+  method: CostBasisMethod;
+  realized: RealizedLot[];  // Oldest sale first
+  open: OpenLot[];
+  realized_gain_apt: number;
+  realized_gain_usd?: number;  // Undefined when any rate is missing
+  unrealized_gain_apt: number;
+  unrealized_gain_usd?: number;
+}
+
+/**
+ * Trades and rates needed to compute a wallet's profit and loss
+ */
+export interface WalletTradeHistory {
+  trades: WalletTrade[];  // Oldest first
+  royalties: Record<string, number>;  // Royalty in basis points per token
+  usd_rates: [number, number][];  // [timestamp, USD per APT], oldest first
+  truncated: boolean;  // The wallet has more trades than were loaded
+}
+
+/**
+ * Fees charged by a marketplace, in basis points (1% = 100 bps)
+ */
+export interface MarketplaceFeeSchedule {
+  taker_fee_bps: number;  // Added on top of the listing price and paid by the buyer
+  maker_fee_bps: number;  // Deducted from the seller's proceeds
+}
+
+/**
+ * What a listing costs the buyer and pays the seller, in APT
+ */
+export interface PriceBreakdown {
+  price_apt: number;  // Listing price
+  taker_fee_apt: number;
+  maker_fee_apt: number;
+  royalty_apt: number;
+  royalty_bps: number;
+  buyer_cost_apt: number;  // Price plus taker fee
+  seller_net_apt: number;  // Price minus maker fee and creator royalty
+}
+
+/**
+ * Status of a single listing during cart checkout
+ */
+export type CartItemStatus = 'pending' | 'purchasing' | 'purchased' | 'failed';
+
+/**
+ * Listing held in the shopping cart
+ */
+export interface CartItem {
+  nft: NFT;
+  status: CartItemStatus;
+  transaction_hash?: string;
+  error?: string;
+}
+
+/**
+ * Price breakdown for the cart, amounts in APT
+ */
+export interface CartSummary {
+  item_count: number;
+  subtotal: number;
+  marketplace_fees: number;  // Buyer-side fees added on top of the listing prices
+  seller_fees: number;  // Marketplace fees taken from the listing prices
+  royalties: number;  // Creator royalties taken from the listing prices
+  total: number;
+}
+
+/**
+ * Kind of a watched item
+ */
+export type WatchlistKind = 'token' | 'collection';
+
+/**
+ * Token or collection on the watchlist
+ */
+export interface WatchlistItem {
+  kind: WatchlistKind;
+  id: string;  // Token data ID or collection ID
+  name: string;
+  collection_id?: string;  // Collection of a watched token
+  collection_name?: string;
+  image_url?: string;
+  added_at: number;  // Milliseconds since epoch
+}
+
+/**
+ * Current market state of a watched item, amounts in APT
+ */
+export interface WatchlistQuote {
+  kind: WatchlistKind;
+  id: string;
+  best_price_apt?: number;  // Cheapest active listing of the token, or the collection floor
+  best_marketplace?: string;
+  floor_price_apt?: number;  // Listed floor of the item's collection
+  change_24h_pct?: number;  // Change of the collection's sales floor over the last 24 hours
+  listed: boolean;  // The token, or any token of the collection, is listed
+  listing_count?: number;  // Active listings of a watched token
+  updated_at: number;
+}
+
+/**
+ * Condition an alert rule watches for
+ */
+export type AlertRuleKind = 'floor_below' | 'token_listed' | 'listing_below_floor' | 'volume_spike';
+
+/**
+ * User-defined alert
+ * The threshold is in APT for floor_below and a percentage for
+ * listing_below_floor and volume_spike; token_listed has none.
+ */
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  collection_id?: string;  // Watched collection; a volume_spike rule without one watches every collection
+  collection_name?: string;
+  token_data_id?: string;  // Watched token of a token_listed rule
+  token_name?: string;
+  threshold?: number;
+  enabled: boolean;
+  created_at: number;  // Milliseconds since epoch
+}
+
+/**
+ * Notification fired by an alert rule
+ */
+export interface AlertNotification {
+  id: string;
+  rule_id: string;
+  title: string;
+  message: string;
+  link?: string;  // In-app path of the token or collection
+  timestamp: number;  // Milliseconds since epoch
+  read: boolean;
+}
+
+/**
+ * Market data the alert rules are evaluated against
+ */
+export interface AlertInputs {
+  floors: Record<string, number>;  // Listed floor in APT per collection ID
+  new_listings: Record<string, NFT[]>;  // Newest listings per collection ID
+  token_listings: Record<string, NFT[]>;  // Active listings per token data ID
+  volume: CollectionRankingRow[];  // 24h volume rankings
+}
+
+/**
+ * What the alert monitor remembers between polls
+ */
+export interface AlertMonitorState {
+  active: string[];  // Conditions that held at the last poll, so each fires once until it clears
+  seen_listings: Record<string, string[]>;  // Listing IDs already seen per collection ID
+  floors: Record<string, number>;  // Floor per collection ID at the last poll
+}
+
+/**
+ * Why a listing was flagged as a deal
+ */
+export type DealKind = 'below_floor' | 'below_trait_floor' | 'below_recent_sales';
+
+/**
+ * A listing priced well below what comparable tokens list or sell for
+ */
+export interface ListingDeal {
+  kind: DealKind;
+  discount_pct: number;  // How far the listing is below reference_price_apt
+  reference_price_apt: number;
+  reason: string;  // Human-readable explanation, e.g. "32% below the floor of the other listings"
+}
+
+/**
+ * How far below a reference a listing must be to count as a deal
+ */
+export interface DealThresholds {
+  floor_discount_pct: number;  // Below the cheapest other listing of the collection
+  trait_discount_pct: number;  // Below the cheapest other listing sharing a rare trait
+  rare_trait_max_pct: number;  // Traits held by at most this share of the collection count as rare
+  sales_discount_pct: number;  // Below the median recent sale
+  min_sales: number;  // Recent sales needed before sales are used as a reference
+}
+
+/**
+ * Cheapest listings of a collection carrying one trait value
+ */
+export interface TraitFloor {
+  trait_type: string;
+  value: string;
+  listings: NFT[];  // The two cheapest, so one remains when a listing is compared with its own trait
+}
+
+/**
+ * Market data needed to look for deals in one collection
+ */
+export interface CollectionDealInputs {
+  listings: NFT[];  // Active listings, cheapest first
+  token_properties: Record<string, Record<string, string> | undefined>;  // Parsed properties per token data ID
+  token_count: number;  // Tokens the trait counts were taken from
+  traits: TraitSummary[];
+  trait_floors: TraitFloor[];  // Floors of the rare trait values held by the listings
+  recent_sales_apt: number[];  // Sale prices over the recent window
+}
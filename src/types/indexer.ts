@@ -0,0 +1,185 @@
+/**
+ * Raw response models for the Aptos NFT indexer (GraphQL).
+ * Rows are validated at runtime (see lib/validation.ts) before use,
+ * so the required fields below are guaranteed after validation.
+ */
+
+/**
+ * CDN and raw asset URIs attached to token data
+ */
+export interface CdnAssetUris {
+  cdn_image_uri?: string | null;
+  asset_uri?: string | null;
+  cdn_animation_uri?: string | null;
+  raw_animation_uri?: string | null;
+  raw_image_uri?: string | null;
+  cdn_json_uri?: string | null;
+}
+
+/**
+ * Row from current_token_datas_v2 (or the current_token_data relation)
+ */
+export interface IndexerTokenData {
+  token_data_id: string;
+  token_name?: string | null;
+  token_uri?: string | null;
+  description?: string | null;
+  // jsonb column; older rows may still hold a JSON string
+  token_properties?: Record<string, unknown> | string | null;
+  token_standard?: string | null;
+  collection_id?: string | null;
+  supply?: string | number | null;
+  maximum?: string | number | null;
+  largest_property_version_v1?: string | number | null;
+  last_transaction_timestamp?: string | null;
+  cdn_asset_uris?: CdnAssetUris | null;
+}
+
+/**
+ * Collection relation joined to a listing
+ */
+export interface IndexerCollectionData {
+  collection_name: string;
+  uri?: string | null;
+  creator_address?: string | null;
+  description?: string | null;
+}
+
+/**
+ * Row from current_collections_v2
+ */
+export interface IndexerCollectionRow {
+  collection_id: string;
+  collection_name: string;
+  description?: string | null;
+  uri?: string | null;
+  creator_address?: string | null;
+  current_supply?: string | number | null;
+  max_supply?: string | number | null;
+}
+
+/**
+ * Row from current_nft_marketplace_listings
+ */
+export interface IndexerListingRow {
+  listing_id: string;
+  token_data_id: string;
+  price: string | number;  // Price in octas
+  marketplace: string;
+  seller: string;
+  token_name?: string | null;
+  collection_id?: string | null;
+  contract_address?: string | null;
+  token_amount?: string | number | null;
+  last_transaction_version?: string | number | null;
+  last_transaction_timestamp?: string | null;
+  collection_data: IndexerCollectionData;
+  current_token_data?: Omit<IndexerTokenData, 'token_data_id'> & { token_data_id?: string } | null;
+}
+
+/**
+ * Row from nft_marketplace_activities
+ */
+export interface IndexerMarketplaceActivityRow {
+  transaction_version: string | number;
+  event_index?: string | number | null;
+  event_type: string;
+  marketplace: string;
+  token_data_id?: string | null;
+  collection_id?: string | null;
+  collection_name?: string | null;
+  token_name?: string | null;
+  price?: string | number | null;  // Price in octas
+  token_amount?: string | number | null;
+  seller?: string | null;
+  buyer?: string | null;
+  transaction_timestamp: string;
+}
+
+/**
+ * Row from token_activities_v2
+ */
+export interface IndexerTokenActivityRow {
+  transaction_version: string | number;
+  event_index?: string | number | null;
+  type: string;  // Move event type, e.g. "0x4::collection::Mint"
+  token_data_id: string;
+  from_address?: string | null;
+  to_address?: string | null;
+  event_account_address?: string | null;
+  token_amount?: string | number | null;
+  transaction_timestamp: string;
+}
+
+/**
+ * Row from current_nft_marketplace_token_offers
+ */
+export interface IndexerTokenOfferRow {
+  offer_id: string;
+  token_data_id: string;
+  collection_id?: string | null;
+  marketplace: string;
+  contract_address?: string | null;
+  buyer: string;
+  price: string | number;  // Price in octas
+  token_amount?: string | number | null;
+  token_name?: string | null;
+  expiration_time?: string | number | null;  // Seconds since epoch
+}
+
+/**
+ * Row from current_nft_marketplace_collection_offers
+ */
+export interface IndexerCollectionOfferRow {
+  collection_offer_id: string;
+  collection_id: string;
+  marketplace: string;
+  contract_address?: string | null;
+  buyer: string;
+  item_price: string | number;  // Price per token in octas
+  remaining_token_amount?: string | number | null;
+  expiration_time?: string | number | null;  // Seconds since epoch
+  collection_data?: { collection_name?: string | null } | null;
+}
+
+/**
+ * Row from current_token_ownerships_v2
+ */
+export interface IndexerTokenOwnershipRow {
+  token_data_id: string;
+  owner_address: string;
+  amount: string | number;
+  token_standard?: string | null;
+  property_version_v1?: string | number | null;
+  last_transaction_timestamp?: string | null;
+  current_token_data?: (IndexerTokenData & {
+    current_collection?: { collection_name?: string | null; creator_address?: string | null } | null;
+  }) | null;
+}
+
+/**
+ * Response of the active listings query, before validation
+ */
+export interface ActiveListingsResponse {
+  current_nft_marketplace_listings?: unknown[];
+  current_nft_marketplace_listings_aggregate?: {
+    aggregate?: { count?: number };
+  };
+}
+
+/**
+ * Response of the NFT details query, before validation
+ */
+export interface NFTDetailsResponse {
+  current_token_datas_v2?: unknown[];
+  current_nft_marketplace_listings?: unknown[];
+}
+
+/**
+ * A row that failed validation, reported instead of being silently defaulted
+ */
+export interface MalformedRow {
+  source: string;  // Query or endpoint the row came from
+  id?: string;  // Best-effort identifier of the row
+  errors: string[];
+}